@@ -13,13 +13,29 @@ import type {
   FilterApi,
   FunctionReference,
 } from "convex/server";
+import type * as accounts from "../accounts.js";
 import type * as ai from "../ai.js";
 import type * as auth from "../auth.js";
+import type * as comments from "../comments.js";
+import type * as crons from "../crons.js";
+import type * as emails from "../emails.js";
 import type * as entries from "../entries.js";
+import type * as exports from "../exports.js";
 import type * as groups from "../groups.js";
 import type * as http from "../http.js";
+import type * as imports from "../imports.js";
+import type * as invitations from "../invitations.js";
+import type * as mailer from "../mailer.js";
+import type * as memberships from "../memberships.js";
+import type * as notificationPreferences from "../notificationPreferences.js";
 import type * as notifications from "../notifications.js";
+import type * as photos from "../photos.js";
+import type * as profiles from "../profiles.js";
+import type * as push from "../push.js";
+import type * as reactions from "../reactions.js";
 import type * as router from "../router.js";
+import type * as transcription from "../transcription.js";
+import type * as turns from "../turns.js";
 
 /**
  * A utility for referencing Convex functions in your app's API.
@@ -30,13 +46,29 @@ import type * as router from "../router.js";
  * ```
  */
 declare const fullApi: ApiFromModules<{
+  accounts: typeof accounts;
   ai: typeof ai;
   auth: typeof auth;
+  comments: typeof comments;
+  crons: typeof crons;
+  emails: typeof emails;
   entries: typeof entries;
+  exports: typeof exports;
   groups: typeof groups;
   http: typeof http;
+  imports: typeof imports;
+  invitations: typeof invitations;
+  mailer: typeof mailer;
+  memberships: typeof memberships;
+  notificationPreferences: typeof notificationPreferences;
   notifications: typeof notifications;
+  photos: typeof photos;
+  profiles: typeof profiles;
+  push: typeof push;
+  reactions: typeof reactions;
   router: typeof router;
+  transcription: typeof transcription;
+  turns: typeof turns;
 }>;
 export declare const api: FilterApi<
   typeof fullApi,
@@ -0,0 +1,521 @@
+import { v } from "convex/values";
+import { action, internalMutation, mutation, MutationCtx } from "./_generated/server";
+import { getAuthUserId, invalidateSessions, retrieveAccount } from "@convex-dev/auth/server";
+import { internal } from "./_generated/api";
+import { Id } from "./_generated/dataModel";
+import { removeFromTurnOrder } from "./turns";
+import { canWrite, GroupRole } from "./roles";
+import { getMembership, getUserMemberships } from "./memberships";
+import { departGroup } from "./groups";
+import { deleteEntryPermanently } from "./entries";
+import { createNotification } from "./notifications";
+import { getDisplayName } from "./profiles";
+
+const ROLE_RANK: Record<GroupRole, number> = { viewer: 0, writer: 1, admin: 2, owner: 3 };
+
+// Shown instead of the name on entries and comments a deleted account leaves behind
+const DELETED_ACCOUNT_NAME = "Deleted account";
+const CONTENT_BATCH_SIZE = 100;
+const NEXT_CONTENT_TABLE = { entries: "comments", comments: "reactions", reactions: null } as const;
+const NEXT_MERGE_TABLE = {
+  entries: "deletedEntries",
+  deletedEntries: "drafts",
+  drafts: "comments",
+  comments: "reactions",
+  reactions: "pendingUploads",
+  pendingUploads: "invitations",
+  invitations: "notifications",
+  notifications: "pushSubscriptions",
+  pushSubscriptions: null,
+} as const;
+
+// Move another account, proven with its email and password, into the signed-in one:
+// its entries, journals, notifications and login all end up here and it is deleted
+export const mergeAccount = action({
+  args: {
+    email: v.string(),
+    password: v.string(),
+  },
+  handler: async (ctx, args): Promise<{ entries: number; groups: number }> => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    let otherUserId: Id<"users">;
+    try {
+      const { user } = await retrieveAccount(ctx, {
+        provider: "password",
+        account: { id: args.email.trim().toLowerCase(), secret: args.password },
+      });
+      otherUserId = user._id;
+    } catch {
+      throw new Error("Wrong email or password");
+    }
+    if (otherUserId === userId) {
+      throw new Error("You're already signed in to that account");
+    }
+
+    await invalidateSessions(ctx, { userId: otherUserId });
+    return await ctx.runMutation(internal.accounts.mergeUsers, { fromUserId: otherUserId, intoUserId: userId });
+  },
+});
+
+export const mergeUsers = internalMutation({
+  args: {
+    fromUserId: v.id("users"),
+    intoUserId: v.id("users"),
+  },
+  handler: async (ctx, args) => {
+    const { fromUserId, intoUserId } = args;
+    const from = await ctx.db.get(fromUserId);
+    const into = await ctx.db.get(intoUserId);
+    if (!from || !into) throw new Error("Account not found");
+
+    const groups = await mergeGroupMembership(ctx, fromUserId, intoUserId);
+    const entries = await ctx.db
+      .query("entries")
+      .withIndex("by_author", (q) => q.eq("authorId", fromUserId))
+      .collect();
+
+    await mergeSettings(ctx, fromUserId, intoUserId);
+
+    // The other account's logins now sign in here
+    const authAccounts = await ctx.db
+      .query("authAccounts")
+      .withIndex("userIdAndProvider", (q) => q.eq("userId", fromUserId))
+      .collect();
+    for (const account of authAccounts) {
+      await ctx.db.patch(account._id, { userId: intoUserId });
+    }
+
+    if (into.isAnonymous) {
+      await ctx.db.patch(intoUserId, {
+        email: from.email,
+        emailVerificationTime: from.emailVerificationTime,
+        isAnonymous: undefined,
+      });
+    }
+
+    // Content moves over in batches; the other user row goes once it is empty
+    await ctx.scheduler.runAfter(0, internal.accounts.moveMergedContent, {
+      fromUserId,
+      intoUserId,
+      table: "entries",
+    });
+
+    return { entries: entries.length, groups };
+  },
+});
+
+// Reassign a merged account's content a batch at a time, one table after another, then
+// delete its user row. Moved rows leave the index, so every batch reads from the start.
+export const moveMergedContent = internalMutation({
+  args: {
+    fromUserId: v.id("users"),
+    intoUserId: v.id("users"),
+    table: v.union(
+      v.literal("entries"),
+      v.literal("deletedEntries"),
+      v.literal("drafts"),
+      v.literal("comments"),
+      v.literal("reactions"),
+      v.literal("pendingUploads"),
+      v.literal("invitations"),
+      v.literal("notifications"),
+      v.literal("pushSubscriptions")
+    ),
+  },
+  handler: async (ctx, args) => {
+    const { fromUserId, intoUserId, table } = args;
+
+    let moved = 0;
+    if (table === "entries") {
+      const entries = await ctx.db
+        .query("entries")
+        .withIndex("by_author", (q) => q.eq("authorId", fromUserId))
+        .take(CONTENT_BATCH_SIZE);
+      for (const entry of entries) {
+        await ctx.db.patch(entry._id, { authorId: intoUserId });
+        const revisions = await ctx.db
+          .query("entryRevisions")
+          .withIndex("by_entry", (q) => q.eq("entryId", entry._id))
+          .collect();
+        for (const revision of revisions) {
+          if (revision.editedBy === fromUserId) {
+            await ctx.db.patch(revision._id, { editedBy: intoUserId });
+          }
+        }
+      }
+      moved = entries.length;
+    } else if (table === "deletedEntries") {
+      const entries = await ctx.db
+        .query("entries")
+        .withIndex("by_deleted_by", (q) => q.eq("deletedBy", fromUserId))
+        .take(CONTENT_BATCH_SIZE);
+      for (const entry of entries) {
+        await ctx.db.patch(entry._id, { deletedBy: intoUserId });
+      }
+      moved = entries.length;
+    } else if (table === "drafts" || table === "comments") {
+      const rows = await ctx.db
+        .query(table)
+        .withIndex("by_author", (q) => q.eq("authorId", fromUserId))
+        .take(CONTENT_BATCH_SIZE);
+      for (const row of rows) {
+        await ctx.db.patch(row._id, { authorId: intoUserId });
+      }
+      moved = rows.length;
+    } else if (table === "reactions") {
+      const reactions = await ctx.db
+        .query("reactions")
+        .withIndex("by_user", (q) => q.eq("userId", fromUserId))
+        .take(CONTENT_BATCH_SIZE);
+      for (const reaction of reactions) {
+        const duplicate = await ctx.db
+          .query("reactions")
+          .withIndex("by_entry_and_user", (q) => q.eq("entryId", reaction.entryId).eq("userId", intoUserId))
+          .filter((q) => q.eq(q.field("emoji"), reaction.emoji))
+          .first();
+        if (duplicate) {
+          await ctx.db.delete(reaction._id);
+        } else {
+          await ctx.db.patch(reaction._id, { userId: intoUserId });
+        }
+      }
+      moved = reactions.length;
+    } else if (table === "invitations") {
+      const invitations = await ctx.db
+        .query("invitations")
+        .withIndex("by_inviter", (q) => q.eq("invitedBy", fromUserId))
+        .take(CONTENT_BATCH_SIZE);
+      for (const invitation of invitations) {
+        await ctx.db.patch(invitation._id, { invitedBy: intoUserId });
+      }
+      moved = invitations.length;
+    } else {
+      const rows = await ctx.db
+        .query(table)
+        .withIndex("by_user", (q) => q.eq("userId", fromUserId))
+        .take(CONTENT_BATCH_SIZE);
+      for (const row of rows) {
+        await ctx.db.patch(row._id, { userId: intoUserId });
+      }
+      moved = rows.length;
+    }
+
+    const next = moved === CONTENT_BATCH_SIZE ? table : NEXT_MERGE_TABLE[table];
+    if (next) {
+      await ctx.scheduler.runAfter(0, internal.accounts.moveMergedContent, { fromUserId, intoUserId, table: next });
+    } else {
+      await ctx.db.delete(fromUserId);
+    }
+  },
+});
+
+// Put `intoUserId` in every group `fromUserId` belongs to. Where both are members the
+// higher role is kept and `fromUserId` leaves the turn order, which `intoUserId` joins if
+// the kept role writes.
+async function mergeGroupMembership(ctx: MutationCtx, fromUserId: Id<"users">, intoUserId: Id<"users">) {
+  const memberships = await getUserMemberships(ctx, fromUserId);
+
+  for (const membership of memberships) {
+    const group = await ctx.db.get(membership.groupId);
+    if (!group) continue;
+    const createdBy = group.createdBy === fromUserId ? intoUserId : group.createdBy;
+
+    const existing = await getMembership(ctx, group._id, intoUserId);
+    if (!existing) {
+      await ctx.db.patch(group._id, {
+        createdBy,
+        turnOrder: group.turnOrder.map((userId) => (userId === fromUserId ? intoUserId : userId)),
+      });
+      await ctx.db.patch(membership._id, { userId: intoUserId });
+      continue;
+    }
+
+    const role = ROLE_RANK[membership.role] > ROLE_RANK[existing.role] ? membership.role : existing.role;
+    if (role !== existing.role) {
+      await ctx.db.patch(existing._id, { role });
+    }
+
+    const heldTurn = group.turnOrder[group.currentTurnIndex] === fromUserId;
+    await removeFromTurnOrder(ctx, group, fromUserId);
+    await ctx.db.delete(membership._id);
+
+    const updated = (await ctx.db.get(group._id))!;
+    const turnOrder =
+      canWrite(role) && !updated.turnOrder.includes(intoUserId) ? [...updated.turnOrder, intoUserId] : updated.turnOrder;
+    await ctx.db.patch(group._id, { createdBy, turnOrder });
+
+    const newTurnHolder = heldTurn ? turnOrder[updated.currentTurnIndex] : undefined;
+    if (newTurnHolder) {
+      const userName = (await getDisplayName(ctx, intoUserId)) || "Someone";
+      await createNotification(ctx, {
+        userId: newTurnHolder,
+        type: "your_turn",
+        title: "Your Turn to Write",
+        message: `${userName} merged two accounts in ${group.name}, so it's your turn now`,
+        groupId: group._id,
+      });
+    }
+  }
+
+  return memberships.length;
+}
+
+// Settings rows of the surviving account win; the other account's fill the gaps
+async function mergeSettings(ctx: MutationCtx, fromUserId: Id<"users">, intoUserId: Id<"users">) {
+  const fromProfile = await ctx.db
+    .query("profiles")
+    .withIndex("by_user", (q) => q.eq("userId", fromUserId))
+    .first();
+  const intoProfile = await ctx.db
+    .query("profiles")
+    .withIndex("by_user", (q) => q.eq("userId", intoUserId))
+    .first();
+  if (fromProfile && !intoProfile) {
+    await ctx.db.patch(fromProfile._id, { userId: intoUserId });
+  } else if (fromProfile && intoProfile) {
+    if (fromProfile.avatarId && !intoProfile.avatarId) {
+      await ctx.db.patch(intoProfile._id, { avatarId: fromProfile.avatarId });
+    } else if (fromProfile.avatarId) {
+      await ctx.storage.delete(fromProfile.avatarId);
+    }
+    await ctx.db.delete(fromProfile._id);
+  }
+
+  const notificationPreferences = await ctx.db
+    .query("notificationPreferences")
+    .withIndex("by_user_and_group", (q) => q.eq("userId", fromUserId))
+    .collect();
+  for (const row of notificationPreferences) {
+    const existing = await ctx.db
+      .query("notificationPreferences")
+      .withIndex("by_user_and_group", (q) => q.eq("userId", intoUserId).eq("groupId", row.groupId))
+      .first();
+    if (existing) {
+      await ctx.db.delete(row._id);
+    } else {
+      await ctx.db.patch(row._id, { userId: intoUserId });
+    }
+  }
+
+  const fromEmailPreferences = await ctx.db
+    .query("emailPreferences")
+    .withIndex("by_user", (q) => q.eq("userId", fromUserId))
+    .first();
+  if (fromEmailPreferences) {
+    const existing = await ctx.db
+      .query("emailPreferences")
+      .withIndex("by_user", (q) => q.eq("userId", intoUserId))
+      .first();
+    if (existing) {
+      await ctx.db.delete(fromEmailPreferences._id);
+    } else {
+      await ctx.db.patch(fromEmailPreferences._id, { userId: intoUserId });
+    }
+  }
+
+  const aiChats = await ctx.db
+    .query("aiChats")
+    .withIndex("by_user", (q) => q.eq("userId", fromUserId))
+    .collect();
+  for (const chat of aiChats) {
+    const existing = await ctx.db
+      .query("aiChats")
+      .withIndex("by_user_and_group", (q) => q.eq("userId", intoUserId).eq("groupId", chat.groupId))
+      .first();
+    if (existing) {
+      await ctx.db.patch(existing._id, {
+        messages: [...existing.messages, ...chat.messages].sort((a, b) => a.timestamp - b.timestamp),
+      });
+      await ctx.db.delete(chat._id);
+    } else {
+      await ctx.db.patch(chat._id, { userId: intoUserId });
+    }
+  }
+}
+
+// Delete the signed-in account. The user leaves every group (turns and ownership move
+// on), their personal data and logins are removed, and a nameless placeholder user stays
+// behind for entries and comments kept in groups that anonymize departed members.
+export const deleteAccount = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    const user = await ctx.db.get(userId);
+    if (!user) throw new Error("Account not found");
+
+    for (const membership of await getUserMemberships(ctx, userId)) {
+      const group = await ctx.db.get(membership.groupId);
+      if (group) await departGroup(ctx, group, membership);
+    }
+
+    await deletePersonalData(ctx, userId, user.email);
+    await deleteLogins(ctx, userId);
+
+    await ctx.db.replace(userId, {});
+    const now = Date.now();
+    await ctx.db.insert("profiles", {
+      userId,
+      displayName: DELETED_ACCOUNT_NAME,
+      onboardedAt: now,
+      deletedAt: now,
+    });
+
+    await ctx.scheduler.runAfter(0, internal.accounts.deleteAuthoredContent, {
+      userId,
+      table: "entries",
+      cursor: null,
+    });
+  },
+});
+
+// Settings, drafts, chats and notifications only mean something to their owner
+async function deletePersonalData(ctx: MutationCtx, userId: Id<"users">, email: string | undefined) {
+  const profile = await ctx.db
+    .query("profiles")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .first();
+  if (profile) {
+    if (profile.avatarId) await ctx.storage.delete(profile.avatarId);
+    await ctx.db.delete(profile._id);
+  }
+
+  // Draft files are pending uploads, which the orphan cleanup job removes
+  const drafts = await ctx.db
+    .query("drafts")
+    .withIndex("by_author", (q) => q.eq("authorId", userId))
+    .collect();
+  for (const draft of drafts) {
+    await ctx.db.delete(draft._id);
+  }
+
+  const byUser = [
+    await ctx.db.query("aiChats").withIndex("by_user", (q) => q.eq("userId", userId)).collect(),
+    await ctx.db.query("notifications").withIndex("by_user", (q) => q.eq("userId", userId)).collect(),
+    await ctx.db.query("pushSubscriptions").withIndex("by_user", (q) => q.eq("userId", userId)).collect(),
+    await ctx.db.query("notificationPreferences").withIndex("by_user_and_group", (q) => q.eq("userId", userId)).collect(),
+    await ctx.db.query("emailPreferences").withIndex("by_user", (q) => q.eq("userId", userId)).collect(),
+  ];
+  for (const rows of byUser) {
+    for (const row of rows) {
+      await ctx.db.delete(row._id);
+    }
+  }
+
+  if (email) {
+    const invitations = await ctx.db
+      .query("invitations")
+      .withIndex("by_email", (q) => q.eq("invitedEmail", email))
+      .collect();
+    for (const invitation of invitations) {
+      await ctx.db.delete(invitation._id);
+    }
+
+    const capturedEmails = await ctx.db
+      .query("capturedEmails")
+      .withIndex("by_to", (q) => q.eq("to", email))
+      .collect();
+    for (const captured of capturedEmails) {
+      await ctx.db.delete(captured._id);
+    }
+  }
+}
+
+// Remove every way of signing in to the account, including the current session
+async function deleteLogins(ctx: MutationCtx, userId: Id<"users">) {
+  const accounts = await ctx.db
+    .query("authAccounts")
+    .withIndex("userIdAndProvider", (q) => q.eq("userId", userId))
+    .collect();
+  for (const account of accounts) {
+    const codes = await ctx.db
+      .query("authVerificationCodes")
+      .withIndex("accountId", (q) => q.eq("accountId", account._id))
+      .collect();
+    for (const code of codes) {
+      await ctx.db.delete(code._id);
+    }
+    await ctx.db.delete(account._id);
+  }
+
+  const sessions = await ctx.db
+    .query("authSessions")
+    .withIndex("userId", (q) => q.eq("userId", userId))
+    .collect();
+  for (const session of sessions) {
+    const refreshTokens = await ctx.db
+      .query("authRefreshTokens")
+      .withIndex("sessionId", (q) => q.eq("sessionId", session._id))
+      .collect();
+    for (const token of refreshTokens) {
+      await ctx.db.delete(token._id);
+    }
+    await ctx.db.delete(session._id);
+  }
+}
+
+// Apply each group's policy to a deleted account's entries and comments, and drop its
+// reactions, a batch at a time: entries, then comments, then reactions
+export const deleteAuthoredContent = internalMutation({
+  args: {
+    userId: v.id("users"),
+    table: v.union(v.literal("entries"), v.literal("comments"), v.literal("reactions")),
+    cursor: v.union(v.string(), v.null()),
+  },
+  handler: async (ctx, args) => {
+    const { userId, table } = args;
+    const paginationOpts = { numItems: CONTENT_BATCH_SIZE, cursor: args.cursor };
+
+    const policies = new Map<Id<"groups">, boolean>();
+    const removesContent = async (groupId: Id<"groups">) => {
+      if (!policies.has(groupId)) {
+        const group = await ctx.db.get(groupId);
+        policies.set(groupId, group?.deletedAccountPolicy === "delete");
+      }
+      return policies.get(groupId)!;
+    };
+
+    let result;
+    if (table === "entries") {
+      result = await ctx.db
+        .query("entries")
+        .withIndex("by_author", (q) => q.eq("authorId", userId))
+        .paginate(paginationOpts);
+      for (const entry of result.page) {
+        if (await removesContent(entry.groupId)) {
+          await deleteEntryPermanently(ctx, entry);
+        }
+      }
+    } else if (table === "comments") {
+      result = await ctx.db
+        .query("comments")
+        .withIndex("by_author", (q) => q.eq("authorId", userId))
+        .paginate(paginationOpts);
+      for (const comment of result.page) {
+        if (await removesContent(comment.groupId)) {
+          await ctx.db.delete(comment._id);
+        }
+      }
+    } else {
+      result = await ctx.db
+        .query("reactions")
+        .withIndex("by_user", (q) => q.eq("userId", userId))
+        .paginate(paginationOpts);
+      for (const reaction of result.page) {
+        await ctx.db.delete(reaction._id);
+      }
+    }
+
+    const next = result.isDone ? NEXT_CONTENT_TABLE[table] : table;
+    if (next) {
+      await ctx.scheduler.runAfter(0, internal.accounts.deleteAuthoredContent, {
+        userId,
+        table: next,
+        cursor: result.isDone ? null : result.continueCursor,
+      });
+    }
+  },
+});
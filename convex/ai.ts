@@ -2,6 +2,16 @@ import { v } from "convex/values";
 import { action, mutation, query, internalMutation } from "./_generated/server";
 import { getAuthUserId } from "@convex-dev/auth/server";
 import { api, internal } from "./_generated/api";
+import { isMember } from "./memberships";
+
+// English name of a language tag for the prompt, e.g. "ja" -> "Japanese"
+function languageName(language: string) {
+  try {
+    return new Intl.DisplayNames(["en"], { type: "language" }).of(language) ?? language;
+  } catch {
+    return language;
+  }
+}
 
 // Get AI chat history for user
 export const getChatHistory = query({
@@ -12,6 +22,11 @@ export const getChatHistory = query({
     const userId = await getAuthUserId(ctx);
     if (!userId) return null;
 
+    // chatWithAI goes through here too, so this also keeps non-members from chatting about a group
+    if (args.groupId && !(await isMember(ctx, args.groupId, userId))) {
+      throw new Error("Not authorized to view this group");
+    }
+
     return await ctx.db
       .query("aiChats")
       .withIndex("by_user_and_group", (q) => 
@@ -62,6 +77,11 @@ Be encouraging, never judgmental, and help create a safe space for personal expr
       systemPrompt += `\n\nContext about the user's current writing: ${args.context}`;
     }
 
+    const profile = await ctx.runQuery(api.profiles.getMyProfile);
+    if (profile?.language) {
+      systemPrompt += `\n\nReply in ${languageName(profile.language)}, the user's preferred language, unless they write to you in another one.`;
+    }
+
     try {
       // Use the bundled OpenAI API
       const response: Response = await fetch(`${process.env.CONVEX_OPENAI_BASE_URL}/chat/completions`, {
@@ -2,9 +2,39 @@ import { convexAuth, getAuthUserId } from "@convex-dev/auth/server";
 import { Password } from "@convex-dev/auth/providers/Password";
 import { Anonymous } from "@convex-dev/auth/providers/Anonymous";
 import { query } from "./_generated/server";
+import { EmailVerificationCode, PasswordResetCode } from "./authEmails";
 
 export const { auth, signIn, signOut, store, isAuthenticated } = convexAuth({
-  providers: [Password, Anonymous],
+  providers: [Password({ reset: PasswordResetCode, verify: EmailVerificationCode }), Anonymous],
+  callbacks: {
+    // Same as the default, except that a password signed up for while signed in as a
+    // guest is attached to the guest's user row, so their journals carry over. The email
+    // still has to be confirmed with a code before it signs in or counts as verified.
+    async createOrUpdateUser(ctx, args) {
+      const { emailVerified, phoneVerified, ...profile } = args.profile;
+      const userData = {
+        ...(emailVerified ? { emailVerificationTime: Date.now() } : null),
+        ...(phoneVerified ? { phoneVerificationTime: Date.now() } : null),
+        ...profile,
+      };
+
+      if (args.existingUserId) {
+        await ctx.db.patch(args.existingUserId, userData);
+        return args.existingUserId;
+      }
+
+      if (args.type === "credentials" && args.provider.id === "password") {
+        const currentUserId = await getAuthUserId(ctx);
+        const currentUser = currentUserId ? await ctx.db.get(currentUserId) : null;
+        if (currentUserId && currentUser?.isAnonymous) {
+          await ctx.db.patch(currentUserId, { ...userData, isAnonymous: undefined });
+          return currentUserId;
+        }
+      }
+
+      return await ctx.db.insert("users", userData);
+    },
+  },
 });
 
 export const loggedInUser = query({
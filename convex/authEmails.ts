@@ -0,0 +1,35 @@
+import { Email } from "@convex-dev/auth/providers/Email";
+import { internal } from "./_generated/api";
+import { ActionCtx } from "./_generated/server";
+
+const CODE_LENGTH = 8;
+const CODE_MAX_AGE = 15 * 60;
+
+// Numeric so it's easy to type on a phone; Convex Auth also checks the email it was sent to
+function generateCode() {
+  const values = crypto.getRandomValues(new Uint32Array(CODE_LENGTH));
+  return Array.from(values, (value) => (value % 10).toString()).join("");
+}
+
+// One-time codes emailed through the mailer transports, for the Password provider's
+// `reset` and `verify` options
+function emailCodeProvider(id: string, kind: "password_reset" | "email_verification") {
+  return Email({
+    id,
+    maxAge: CODE_MAX_AGE,
+    generateVerificationToken: async () => generateCode(),
+    // Convex Auth passes the action ctx as a second argument, which Auth.js's type leaves out
+    sendVerificationRequest: async ({ identifier, token, expires }, ctx?: ActionCtx) => {
+      if (!ctx) throw new Error("Missing action context");
+      await ctx.runAction(internal.mailer.sendAuthCodeEmail, {
+        kind,
+        to: identifier,
+        code: token,
+        expiresAt: expires.getTime(),
+      });
+    },
+  });
+}
+
+export const PasswordResetCode = emailCodeProvider("password-reset", "password_reset");
+export const EmailVerificationCode = emailCodeProvider("email-verification", "email_verification");
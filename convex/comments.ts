@@ -0,0 +1,103 @@
+import { v } from "convex/values";
+import { query, mutation } from "./_generated/server";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { createNotification } from "./notifications";
+import { getDisplayName, getUserSummary } from "./profiles";
+import { isMember } from "./memberships";
+
+// Get comments for an entry
+export const getComments = query({
+  args: {
+    entryId: v.id("entries"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return [];
+
+    const entry = await ctx.db.get(args.entryId);
+    if (!entry) throw new Error("Entry not found");
+
+    const group = await ctx.db.get(entry.groupId);
+    if (!group || !(await isMember(ctx, group._id, userId))) {
+      throw new Error("Not authorized to view this entry");
+    }
+
+    const comments = await ctx.db
+      .query("comments")
+      .withIndex("by_entry", (q) => q.eq("entryId", args.entryId))
+      .collect();
+
+    return Promise.all(
+      comments.map(async (comment) => {
+        return {
+          ...comment,
+          author: await getUserSummary(ctx, comment.authorId),
+        };
+      })
+    );
+  },
+});
+
+// Add a comment to an entry
+export const addComment = mutation({
+  args: {
+    entryId: v.id("entries"),
+    content: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    const content = args.content.trim();
+    if (!content) throw new Error("Comment cannot be empty");
+
+    const entry = await ctx.db.get(args.entryId);
+    if (!entry || entry.deletedAt) throw new Error("Entry not found");
+
+    const group = await ctx.db.get(entry.groupId);
+    if (!group || !(await isMember(ctx, group._id, userId))) {
+      throw new Error("Not authorized to comment in this group");
+    }
+
+    const commentId = await ctx.db.insert("comments", {
+      entryId: args.entryId,
+      groupId: entry.groupId,
+      authorId: userId,
+      content,
+      createdAt: Date.now(),
+    });
+
+    // Let the author know someone replied
+    if (entry.authorId !== userId) {
+      const userName = (await getDisplayName(ctx, userId)) || "Someone";
+      await createNotification(ctx, {
+        userId: entry.authorId,
+        type: "entry_comment",
+        title: "New Comment",
+        message: `${userName} commented on your entry in ${group.name}`,
+        groupId: group._id,
+        entryId: entry._id,
+      });
+    }
+
+    return commentId;
+  },
+});
+
+// Delete a comment (comment author only)
+export const deleteComment = mutation({
+  args: {
+    commentId: v.id("comments"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    const comment = await ctx.db.get(args.commentId);
+    if (!comment || comment.authorId !== userId) {
+      throw new Error("Comment not found");
+    }
+
+    await ctx.db.delete(args.commentId);
+  },
+});
@@ -0,0 +1,26 @@
+import { cronJobs } from "convex/server";
+import { internal } from "./_generated/api";
+
+const crons = cronJobs();
+
+// Remind writers before their turn ends and skip turns that have expired
+crons.interval("process turn deadlines", { minutes: 15 }, internal.turns.processTurnDeadlines, {});
+
+// Delete uploaded photos that never made it into an entry or draft
+crons.interval("clean up orphaned uploads", { hours: 6 }, internal.photos.cleanupOrphanedUploads, {});
+
+// Delete stored files that no entry, draft or profile uses, e.g. uploads that were never registered
+crons.daily("sweep unreferenced files", { hourUTC: 4, minuteUTC: 0 }, internal.photos.sweepUnreferencedFiles, {});
+
+// Drop notifications past their retention period
+crons.daily("prune old notifications", { hourUTC: 3, minuteUTC: 0 }, internal.notifications.pruneOldNotifications, {});
+
+// Weekly email summary of new entries
+crons.weekly(
+  "send weekly digests",
+  { dayOfWeek: "monday", hourUTC: 9, minuteUTC: 0 },
+  internal.mailer.sendWeeklyDigests,
+  {}
+);
+
+export default crons;
@@ -0,0 +1,190 @@
+// Email templates. Every email has an HTML and a plain-text version built from the
+// same data; the layout adds the footer with the unsubscribe link.
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface DigestGroup {
+  name: string;
+  entryCount: number;
+  authors: string[];
+  currentTurnName: string | null;
+  isMyTurn: boolean;
+}
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function button(label: string, url: string) {
+  return `<p style="margin:24px 0"><a href="${escapeHtml(url)}" style="background:#fb923c;color:#ffffff;padding:12px 20px;border-radius:8px;text-decoration:none;font-weight:600">${escapeHtml(label)}</a></p>`;
+}
+
+function layout(title: string, body: string, unsubscribeUrl?: string) {
+  const footer = unsubscribeUrl
+    ? `<p style="color:#9ca3af;font-size:12px;margin-top:32px">You're getting this email because of your DayShare notification settings. <a href="${escapeHtml(unsubscribeUrl)}" style="color:#9ca3af">Unsubscribe</a></p>`
+    : "";
+  return `<!doctype html>
+<html>
+  <body style="margin:0;padding:24px;background:#fff7ed;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',sans-serif;color:#1f2937">
+    <div style="max-width:520px;margin:0 auto;background:#ffffff;border:1px solid #fed7aa;border-radius:16px;padding:32px">
+      <p style="margin:0 0 16px;font-weight:700;color:#ea580c">📖 DayShare</p>
+      <h1 style="font-size:20px;margin:0 0 16px">${escapeHtml(title)}</h1>
+      ${body}
+      ${footer}
+    </div>
+  </body>
+</html>`;
+}
+
+function textFooter(unsubscribeUrl?: string) {
+  return unsubscribeUrl ? `\n\n--\nUnsubscribe: ${unsubscribeUrl}` : "";
+}
+
+export function invitationEmail(data: {
+  inviterName: string;
+  groupName: string;
+  inviteCode: string;
+  inviteUrl: string;
+  expiresAt: number;
+}): RenderedEmail {
+  const expires = new Date(data.expiresAt).toLocaleDateString("en-US", { month: "long", day: "numeric" });
+  const subject = `${data.inviterName} invited you to ${data.groupName} on DayShare`;
+  const intro = `${data.inviterName} would like you to join "${data.groupName}", a shared exchange diary on DayShare.`;
+
+  return {
+    subject,
+    html: layout(
+      "You're invited to an exchange diary",
+      `<p>${escapeHtml(intro)}</p>
+      ${button("Join the journal", data.inviteUrl)}
+      <p style="color:#4b5563">Or enter this code in the app: <strong style="font-family:monospace;font-size:16px">${escapeHtml(data.inviteCode)}</strong></p>
+      <p style="color:#6b7280;font-size:14px">The invitation is valid until ${escapeHtml(expires)}. If you weren't expecting it, you can ignore this email.</p>`
+    ),
+    text: `${intro}
+
+Join the journal: ${data.inviteUrl}
+Or enter this code in the app: ${data.inviteCode}
+
+The invitation is valid until ${expires}. If you weren't expecting it, you can ignore this email.`,
+  };
+}
+
+export function notificationEmail(data: {
+  title: string;
+  message: string;
+  groupName: string | null;
+  appUrl: string;
+  unsubscribeUrl: string;
+}): RenderedEmail {
+  return {
+    subject: data.groupName ? `${data.title} · ${data.groupName}` : data.title,
+    html: layout(
+      data.title,
+      `<p>${escapeHtml(data.message)}</p>
+      ${button("Open the journal", data.appUrl)}`,
+      data.unsubscribeUrl
+    ),
+    text: `${data.message}
+
+Open the journal: ${data.appUrl}${textFooter(data.unsubscribeUrl)}`,
+  };
+}
+
+export function weeklyDigestEmail(data: {
+  userName: string;
+  groups: DigestGroup[];
+  appUrl: string;
+  unsubscribeUrl: string;
+}): RenderedEmail {
+  const total = data.groups.reduce((sum, group) => sum + group.entryCount, 0);
+  const describe = (group: DigestGroup) => {
+    const entries = group.entryCount === 1 ? "1 new entry" : `${group.entryCount} new entries`;
+    const by = group.authors.length > 0 ? ` by ${group.authors.join(", ")}` : "";
+    const turn = group.isMyTurn
+      ? "It's your turn to write."
+      : group.currentTurnName
+        ? `${group.currentTurnName} is writing next.`
+        : "";
+    return { headline: `${entries}${by}`, turn };
+  };
+
+  const htmlGroups = data.groups
+    .map((group) => {
+      const { headline, turn } = describe(group);
+      return `<div style="border-top:1px solid #f3f4f6;padding:12px 0">
+        <p style="margin:0;font-weight:600">${escapeHtml(group.name)}</p>
+        <p style="margin:4px 0 0;color:#4b5563">${escapeHtml(headline)}</p>
+        ${turn ? `<p style="margin:4px 0 0;color:${group.isMyTurn ? "#ea580c" : "#6b7280"}">${escapeHtml(turn)}</p>` : ""}
+      </div>`;
+    })
+    .join("");
+  const textGroups = data.groups
+    .map((group) => {
+      const { headline, turn } = describe(group);
+      return `* ${group.name}: ${headline}${turn ? `\n  ${turn}` : ""}`;
+    })
+    .join("\n");
+
+  const intro = `Hi ${data.userName}, here's what happened in your journals this week.`;
+  return {
+    subject: total === 1 ? "Your week on DayShare: 1 new entry" : `Your week on DayShare: ${total} new entries`,
+    html: layout(
+      "Your week on DayShare",
+      `<p>${escapeHtml(intro)}</p>
+      ${htmlGroups}
+      ${button("Catch up", data.appUrl)}`,
+      data.unsubscribeUrl
+    ),
+    text: `${intro}
+
+${textGroups}
+
+Catch up: ${data.appUrl}${textFooter(data.unsubscribeUrl)}`,
+  };
+}
+
+export function authCodeEmail(data: {
+  purpose: "password_reset" | "email_verification";
+  code: string;
+  expiresAt: number;
+}): RenderedEmail {
+  const minutes = Math.max(1, Math.round((data.expiresAt - Date.now()) / 60000));
+  const { subject, intro } =
+    data.purpose === "password_reset"
+      ? {
+          subject: "Reset your DayShare password",
+          intro: "Enter this code in DayShare to choose a new password.",
+        }
+      : {
+          subject: "Confirm your email for DayShare",
+          intro: "Enter this code in DayShare to confirm your email address.",
+        };
+  const ignore =
+    data.purpose === "password_reset"
+      ? "If you didn't ask to reset your password, you can ignore this email; your password stays the same."
+      : "If you didn't sign up for DayShare, you can ignore this email.";
+
+  return {
+    subject,
+    html: layout(
+      subject,
+      `<p>${escapeHtml(intro)}</p>
+      <p style="margin:24px 0;font-family:monospace;font-size:28px;font-weight:700;letter-spacing:6px">${escapeHtml(data.code)}</p>
+      <p style="color:#6b7280;font-size:14px">The code expires in ${minutes} minutes. ${escapeHtml(ignore)}</p>`
+    ),
+    text: `${intro}
+
+${data.code}
+
+The code expires in ${minutes} minutes. ${ignore}`,
+  };
+}
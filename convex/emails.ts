@@ -0,0 +1,260 @@
+import { v } from "convex/values";
+import { paginationOptsValidator } from "convex/server";
+import { query, mutation, internalMutation, internalQuery, MutationCtx } from "./_generated/server";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { emailKindValidator, notificationTypeValidator, sentEmailKindValidator } from "./schema";
+import { setChannelPreference } from "./notificationPreferences";
+import { notificationPath } from "./notifications";
+import { getDisplayName } from "./profiles";
+import { getUserMemberships } from "./memberships";
+import { generateSecureCode } from "./invitations";
+import { DigestGroup } from "./emailTemplates";
+
+type EmailKind = Doc<"emailPreferences">["optOuts"][number];
+type NotificationType = Doc<"notifications">["type"];
+
+function appUrl() {
+  return process.env.SITE_URL ?? "http://localhost:5173";
+}
+
+// Notification emails are unsubscribed per notification type
+function unsubscribeUrl(token: string, kind: EmailKind, type?: NotificationType) {
+  const url = new URL(`${process.env.CONVEX_SITE_URL}/email/unsubscribe`);
+  url.searchParams.set("token", token);
+  url.searchParams.set("kind", kind);
+  if (type) url.searchParams.set("type", type);
+  return url.toString();
+}
+
+async function getOrCreatePreferences(ctx: MutationCtx, userId: Id<"users">) {
+  const existing = await ctx.db
+    .query("emailPreferences")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .first();
+  if (existing) return existing;
+
+  const preferencesId = await ctx.db.insert("emailPreferences", {
+    userId,
+    optOuts: [],
+    unsubscribeToken: generateSecureCode(),
+  });
+  return (await ctx.db.get(preferencesId))!;
+}
+
+// The user's address and unsubscribe link for an email of this kind, or null when
+// they have no address or have opted out
+async function getRecipient(ctx: MutationCtx, userId: Id<"users">, kind: EmailKind, type?: NotificationType) {
+  const user = await ctx.db.get(userId);
+  if (!user?.email) return null;
+
+  const preferences = await getOrCreatePreferences(ctx, userId);
+  if (preferences.optOuts.includes(kind)) return null;
+
+  return { to: user.email, unsubscribeUrl: unsubscribeUrl(preferences.unsubscribeToken, kind, type) };
+}
+
+export const getEmailPreferences = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return null;
+
+    const user = await ctx.db.get(userId);
+    const preferences = await ctx.db
+      .query("emailPreferences")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .first();
+
+    return { email: user?.email ?? null, optOuts: preferences?.optOuts ?? [] };
+  },
+});
+
+export const setEmailOptOut = mutation({
+  args: {
+    kind: emailKindValidator,
+    optOut: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    const preferences = await getOrCreatePreferences(ctx, userId);
+    const optOuts = preferences.optOuts.filter((kind) => kind !== args.kind);
+    await ctx.db.patch(preferences._id, {
+      optOuts: args.optOut ? [...optOuts, args.kind] : optOuts,
+    });
+  },
+});
+
+// Opt out from the link in an email; returns false for an unknown token
+export const unsubscribeWithToken = internalMutation({
+  args: {
+    token: v.string(),
+    kind: emailKindValidator,
+    type: v.optional(notificationTypeValidator),
+  },
+  handler: async (ctx, args) => {
+    const preferences = await ctx.db
+      .query("emailPreferences")
+      .withIndex("by_token", (q) => q.eq("unsubscribeToken", args.token))
+      .first();
+    if (!preferences) return false;
+
+    // Stop emailing this notification type; the user can turn it back on in settings
+    if (args.kind === "notification") {
+      if (!args.type) return false;
+      await setChannelPreference(ctx, preferences.userId, undefined, args.type, "email", false);
+    } else if (!preferences.optOuts.includes(args.kind)) {
+      await ctx.db.patch(preferences._id, { optOuts: [...preferences.optOuts, args.kind] });
+    }
+    return true;
+  },
+});
+
+// Data for an invitation email. Invitees who already have an account and opted out of
+// invitations are skipped.
+export const prepareInvitationEmail = internalMutation({
+  args: {
+    invitationId: v.id("invitations"),
+  },
+  handler: async (ctx, args) => {
+    const invitation = await ctx.db.get(args.invitationId);
+    if (!invitation?.invitedEmail || invitation.status !== "pending") return null;
+
+    const invitee = await ctx.db
+      .query("users")
+      .withIndex("email", (q) => q.eq("email", invitation.invitedEmail))
+      .first();
+    if (invitee && !(await getRecipient(ctx, invitee._id, "invitation"))) return null;
+
+    const group = await ctx.db.get(invitation.groupId);
+    const inviter = await ctx.db.get(invitation.invitedBy);
+    const inviterName = await getDisplayName(ctx, invitation.invitedBy);
+    if (!group) return null;
+
+    return {
+      to: invitation.invitedEmail,
+      inviterName: inviterName || inviter?.email || "A friend",
+      groupName: group.name,
+      inviteCode: invitation.inviteCode,
+      inviteUrl: `${process.env.CONVEX_SITE_URL}/invite/${encodeURIComponent(invitation.inviteCode)}`,
+      expiresAt: invitation.expiresAt,
+    };
+  },
+});
+
+export const prepareNotificationEmail = internalMutation({
+  args: {
+    userId: v.id("users"),
+    type: notificationTypeValidator,
+    groupId: v.optional(v.id("groups")),
+    entryId: v.optional(v.id("entries")),
+  },
+  handler: async (ctx, args) => {
+    const recipient = await getRecipient(ctx, args.userId, "notification", args.type);
+    if (!recipient) return null;
+
+    const group = args.groupId ? await ctx.db.get(args.groupId) : null;
+    return {
+      to: recipient.to,
+      groupName: group?.name ?? null,
+      appUrl: new URL(notificationPath(args.groupId, args.entryId), appUrl()).toString(),
+      unsubscribeUrl: recipient.unsubscribeUrl,
+    };
+  },
+});
+
+// Users with an email address, one page at a time, for the weekly digest
+export const listDigestRecipients = internalQuery({
+  args: {
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, args) => {
+    const result = await ctx.db.query("users").paginate(args.paginationOpts);
+    return {
+      ...result,
+      page: result.page.filter((user) => user.email).map((user) => user._id),
+    };
+  },
+});
+
+// What happened in the user's groups since `since`; null when there is nothing to tell
+export const prepareWeeklyDigest = internalMutation({
+  args: {
+    userId: v.id("users"),
+    since: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const recipient = await getRecipient(ctx, args.userId, "weekly_digest");
+    if (!recipient) return null;
+
+    const memberships = await getUserMemberships(ctx, args.userId);
+    const groups = (await Promise.all(memberships.map(({ groupId }) => ctx.db.get(groupId))))
+      .filter((group) => group !== null)
+      .filter((group) => group.isActive);
+
+    const digestGroups: DigestGroup[] = [];
+    for (const group of groups) {
+      const entries = (
+        await ctx.db
+          .query("entries")
+          .withIndex("by_group_and_date", (q) => q.eq("groupId", group._id).gte("entryDate", args.since))
+          .collect()
+      ).filter((entry) => !entry.isSkipped && !entry.deletedAt);
+
+      const currentTurnUserId = group.turnOrder[group.currentTurnIndex];
+      const isMyTurn = currentTurnUserId === args.userId;
+      if (entries.length === 0 && !isMyTurn) continue;
+
+      const authorIds = [...new Set(entries.map((entry) => entry.authorId))];
+      const authors = await Promise.all(authorIds.map((authorId) => getDisplayName(ctx, authorId)));
+      const currentTurnName = currentTurnUserId ? await getDisplayName(ctx, currentTurnUserId) : null;
+
+      digestGroups.push({
+        name: group.name,
+        entryCount: entries.length,
+        authors: authors.map((author) => author || "Someone"),
+        currentTurnName: currentTurnName || null,
+        isMyTurn,
+      });
+    }
+
+    if (!digestGroups.some((group) => group.entryCount > 0)) return null;
+
+    return {
+      to: recipient.to,
+      userName: (await getDisplayName(ctx, args.userId)) || "there",
+      groups: digestGroups,
+      appUrl: appUrl(),
+      unsubscribeUrl: recipient.unsubscribeUrl,
+    };
+  },
+});
+
+export const captureEmail = internalMutation({
+  args: {
+    kind: sentEmailKindValidator,
+    to: v.string(),
+    subject: v.string(),
+    html: v.string(),
+    text: v.string(),
+  },
+  handler: async (ctx, args) => {
+    await ctx.db.insert("capturedEmails", { ...args, sentAt: Date.now() });
+  },
+});
+
+// Emails kept by the capture transport, newest first, e.g.
+// `npx convex run emails:listCapturedEmails '{"to": "friend@example.com"}'`
+export const listCapturedEmails = internalQuery({
+  args: {
+    to: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const emails = args.to
+      ? ctx.db.query("capturedEmails").withIndex("by_to", (q) => q.eq("to", args.to!))
+      : ctx.db.query("capturedEmails");
+    return emails.order("desc").take(50);
+  },
+});
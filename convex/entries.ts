@@ -1,44 +1,239 @@
 import { v } from "convex/values";
-import { query, mutation } from "./_generated/server";
+import { query, mutation, MutationCtx, QueryCtx } from "./_generated/server";
 import { getAuthUserId } from "@convex-dev/auth/server";
+import { paginationOptsValidator } from "convex/server";
+import { Doc } from "./_generated/dataModel";
+import { advanceTurn } from "./turns";
+import { canManageGroup, canWrite } from "./roles";
+import { getGroupMembers, getMemberRole, getUserMemberships, isMember } from "./memberships";
+import { contentFormatValidator, photoCaptionValidator } from "./schema";
+import { checkAudio, checkPhotos, claimAudio, claimPhotos, normalizeCaptions } from "./photos";
+import { createNotification } from "./notifications";
+import { getDisplayName, getUserSummary } from "./profiles";
+import { internal } from "./_generated/api";
 
-// Get entries for a group
+// Voice memos as sent by the client; transcripts are only ever set by the server
+const audioArg = v.object({
+  storageId: v.id("_storage"),
+  duration: v.number(),
+});
+
+// Get entries for a group, newest first, one page at a time.
+// `beforeDate` starts the timeline at a given date instead of the latest entry.
 export const getGroupEntries = query({
   args: {
     groupId: v.id("groups"),
-    limit: v.optional(v.number()),
+    paginationOpts: paginationOptsValidator,
+    beforeDate: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
     const userId = await getAuthUserId(ctx);
-    if (!userId) return [];
+    if (!userId) return { page: [], isDone: true, continueCursor: "" };
 
     const group = await ctx.db.get(args.groupId);
-    if (!group || !group.members.includes(userId)) {
+    if (!group || !(await isMember(ctx, group._id, userId))) {
       throw new Error("Not authorized to view this group");
     }
 
-    const entries = await ctx.db
+    const result = await ctx.db
       .query("entries")
-      .withIndex("by_group_and_date", (q) => q.eq("groupId", args.groupId))
+      .withIndex("by_group_and_date", (q) =>
+        args.beforeDate === undefined
+          ? q.eq("groupId", args.groupId)
+          : q.eq("groupId", args.groupId).lte("entryDate", args.beforeDate)
+      )
       .order("desc")
-      .take(args.limit || 50);
+      .filter((q) => q.eq(q.field("deletedAt"), undefined))
+      .paginate(args.paginationOpts);
 
-    return Promise.all(
-      entries.map(async (entry) => {
-        const author = await ctx.db.get(entry.authorId);
-        const photoUrls = entry.photos
-          ? await Promise.all(
-              entry.photos.map(async (photoId) => {
-                const url = await ctx.storage.getUrl(photoId);
-                return { id: photoId, url };
-              })
-            )
-          : [];
+    const page = await Promise.all(
+      result.page.map(async (entry) => {
+        const author = await getUserSummary(ctx, entry.authorId);
+        const photoUrls = await getPhotoUrls(ctx, entry);
+        const audio = await getAudioUrl(ctx, entry);
+
+        const comments = await ctx.db
+          .query("comments")
+          .withIndex("by_entry", (q) => q.eq("entryId", entry._id))
+          .collect();
+
+        const reactions = await ctx.db
+          .query("reactions")
+          .withIndex("by_entry", (q) => q.eq("entryId", entry._id))
+          .collect();
+
+        // Summarize reactions per emoji in first-used order
+        const reactionSummary: { emoji: string; count: number; reactedByMe: boolean }[] = [];
+        for (const reaction of reactions) {
+          const existing = reactionSummary.find((r) => r.emoji === reaction.emoji);
+          if (existing) {
+            existing.count++;
+            existing.reactedByMe = existing.reactedByMe || reaction.userId === userId;
+          } else {
+            reactionSummary.push({
+              emoji: reaction.emoji,
+              count: 1,
+              reactedByMe: reaction.userId === userId,
+            });
+          }
+        }
 
         return {
           ...entry,
-          author: author ? { _id: author._id, name: author.name } : null,
+          author,
           photos: photoUrls,
+          audio,
+          commentCount: comments.length,
+          reactions: reactionSummary,
+        };
+      })
+    );
+
+    return { ...result, page };
+  },
+});
+
+// Get the photos shared in a group, newest entry first. Pages are counted in entries,
+// so a page holds every photo of each entry it includes.
+export const getGroupMedia = query({
+  args: {
+    groupId: v.id("groups"),
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return { page: [], isDone: true, continueCursor: "" };
+
+    const group = await ctx.db.get(args.groupId);
+    if (!group || !(await isMember(ctx, group._id, userId))) {
+      throw new Error("Not authorized to view this group");
+    }
+
+    const result = await ctx.db
+      .query("entries")
+      .withIndex("by_group_and_date", (q) => q.eq("groupId", args.groupId))
+      .order("desc")
+      .filter((q) =>
+        q.and(q.eq(q.field("deletedAt"), undefined), q.neq(q.field("photos"), undefined))
+      )
+      .paginate(args.paginationOpts);
+
+    const page = await Promise.all(
+      result.page.map(async (entry) => {
+        const author = await getUserSummary(ctx, entry.authorId);
+        const photos = await getPhotoUrls(ctx, entry);
+        return photos.map((photo) => ({
+          ...photo,
+          entryId: entry._id,
+          entryDate: entry.entryDate,
+          entryTitle: entry.title,
+          author,
+        }));
+      })
+    );
+
+    return { ...result, page: page.flat() };
+  },
+});
+
+const SEARCH_RESULT_LIMIT = 20;
+
+// Search entry titles and content across the user's journals
+export const searchEntries = query({
+  args: {
+    query: v.string(),
+    groupId: v.optional(v.id("groups")),
+    authorId: v.optional(v.id("users")),
+    tag: v.optional(v.string()),
+    fromDate: v.optional(v.number()),
+    toDate: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return [];
+
+    const searchText = args.query.trim();
+    if (!searchText) return [];
+
+    let groups;
+    if (args.groupId) {
+      const group = await ctx.db.get(args.groupId);
+      if (!group || !(await isMember(ctx, group._id, userId))) {
+        throw new Error("Not authorized to view this group");
+      }
+      groups = [group];
+    } else {
+      const memberships = await getUserMemberships(ctx, userId);
+      groups = (await Promise.all(memberships.map(({ groupId }) => ctx.db.get(groupId)))).filter(
+        (group) => group !== null
+      );
+    }
+
+    const tag = args.tag?.trim().replace(/^#/, "");
+    const matchesFilters = (entry: Doc<"entries">) =>
+      !entry.deletedAt &&
+      !entry.isSkipped &&
+      (!tag || (entry.tags ?? []).includes(tag)) &&
+      (args.fromDate === undefined || entry.entryDate >= args.fromDate) &&
+      (args.toDate === undefined || entry.entryDate <= args.toDate);
+
+    // The other filters aren't part of the search index, so keep reading matches until
+    // enough of them pass or the index runs out
+    const takeMatching = async (matches: AsyncIterable<Doc<"entries">>) => {
+      const passing: Doc<"entries">[] = [];
+      for await (const entry of matches) {
+        if (!matchesFilters(entry)) continue;
+        passing.push(entry);
+        if (passing.length >= SEARCH_RESULT_LIMIT) break;
+      }
+      return passing;
+    };
+
+    // Search indexes can only filter by equality, so each group is searched separately
+    const resultsPerGroup = await Promise.all(
+      groups.map(async (group) => {
+        const titleMatches = await takeMatching(
+          ctx.db.query("entries").withSearchIndex("search_title", (q) => {
+            const search = q.search("title", searchText).eq("groupId", group._id);
+            return args.authorId ? search.eq("authorId", args.authorId) : search;
+          })
+        );
+
+        const contentMatches = await takeMatching(
+          ctx.db.query("entries").withSearchIndex("search_content", (q) => {
+            const search = q.search("content", searchText).eq("groupId", group._id);
+            return args.authorId ? search.eq("authorId", args.authorId) : search;
+          })
+        );
+
+        const seen = new Set<string>();
+        return [...titleMatches, ...contentMatches].filter((entry) => {
+          if (seen.has(entry._id)) return false;
+          seen.add(entry._id);
+          return true;
+        });
+      })
+    );
+
+    // Interleave by rank so every group's best matches come first
+    const results: Doc<"entries">[] = [];
+    const longest = Math.max(0, ...resultsPerGroup.map((r) => r.length));
+    for (let rank = 0; rank < longest && results.length < SEARCH_RESULT_LIMIT; rank++) {
+      for (const groupResults of resultsPerGroup) {
+        if (groupResults[rank] && results.length < SEARCH_RESULT_LIMIT) {
+          results.push(groupResults[rank]);
+        }
+      }
+    }
+
+    return Promise.all(
+      results.map(async (entry) => {
+        const author = await getUserSummary(ctx, entry.authorId);
+        const group = groups.find((g) => g._id === entry.groupId)!;
+        return {
+          ...entry,
+          author,
+          group: { _id: group._id, name: group.name },
         };
       })
     );
@@ -57,7 +252,7 @@ export const getEntriesForCalendar = query({
     if (!userId) return [];
 
     const group = await ctx.db.get(args.groupId);
-    if (!group || !group.members.includes(userId)) {
+    if (!group || !(await isMember(ctx, group._id, userId))) {
       throw new Error("Not authorized to view this group");
     }
 
@@ -70,17 +265,18 @@ export const getEntriesForCalendar = query({
       .filter((q) => 
         q.and(
           q.gte(q.field("entryDate"), startOfMonth),
-          q.lte(q.field("entryDate"), endOfMonth)
+          q.lte(q.field("entryDate"), endOfMonth),
+          q.eq(q.field("deletedAt"), undefined)
         )
       )
       .collect();
 
     return Promise.all(
       entries.map(async (entry) => {
-        const author = await ctx.db.get(entry.authorId);
+        const author = await getUserSummary(ctx, entry.authorId);
         return {
           ...entry,
-          author: author ? { _id: author._id, name: author.name } : null,
+          author,
         };
       })
     );
@@ -93,16 +289,21 @@ export const createEntry = mutation({
     groupId: v.id("groups"),
     title: v.optional(v.string()),
     content: v.string(),
+    contentFormat: v.optional(contentFormatValidator),
     photos: v.optional(v.array(v.id("_storage"))),
+    photoCaptions: v.optional(v.array(photoCaptionValidator)),
+    audio: v.optional(audioArg),
     isQuickReflection: v.optional(v.boolean()),
     tags: v.optional(v.array(v.string())),
+    // The draft being published, removed once the entry exists
+    draftId: v.optional(v.id("drafts")),
   },
   handler: async (ctx, args) => {
     const userId = await getAuthUserId(ctx);
     if (!userId) throw new Error("Not authenticated");
 
     const group = await ctx.db.get(args.groupId);
-    if (!group || !group.members.includes(userId)) {
+    if (!group || !canWrite(await getMemberRole(ctx, group._id, userId))) {
       throw new Error("Not authorized to write in this group");
     }
 
@@ -110,49 +311,70 @@ export const createEntry = mutation({
       throw new Error("Not your turn to write");
     }
 
+    // Voice memo entries may leave the text empty for the transcript to fill in
+    if (!args.content.trim() && !args.audio) {
+      throw new Error("Entry content cannot be empty");
+    }
+
+    const draft = args.draftId ? await ctx.db.get(args.draftId) : null;
+    if (draft && (draft.authorId !== userId || draft.groupId !== args.groupId)) {
+      throw new Error("Draft not found");
+    }
+
+    // Photos saved in a draft before uploads were tracked are accepted as they are. Claiming
+    // also drops the draft's pending uploads, which would otherwise be cleaned up once the
+    // draft is gone.
+    await claimPhotos(ctx, userId, args.groupId, args.photos ?? [], draft?.photos);
+    await claimAudio(ctx, userId, args.groupId, args.audio, draft?.audio?.storageId);
+
     const entryId = await ctx.db.insert("entries", {
       groupId: args.groupId,
       authorId: userId,
       title: args.title,
       content: args.content,
+      contentFormat: args.contentFormat,
       photos: args.photos,
+      photoCaptions: normalizeCaptions(args.photos ?? [], args.photoCaptions),
+      audio: args.audio,
       entryDate: Date.now(),
       turnIndex: group.currentTurnIndex,
       isQuickReflection: args.isQuickReflection,
       tags: args.tags,
     });
 
-    // Move to next turn
-    const nextTurnIndex = (group.currentTurnIndex + 1) % group.turnOrder.length;
-    const nextUserId = group.turnOrder[nextTurnIndex];
+    // Only removed now that its uploads belong to the entry
+    if (draft) {
+      await ctx.db.delete(draft._id);
+    }
 
-    await ctx.db.patch(args.groupId, {
-      currentTurnIndex: nextTurnIndex,
-    });
+    if (args.audio) {
+      await ctx.scheduler.runAfter(0, internal.transcription.transcribeEntryAudio, { entryId });
+    }
+
+    // Move to next turn
+    const { nextUserId } = await advanceTurn(ctx, group);
 
     // Create notification for next user
-    const currentUser = await ctx.db.get(userId);
-    await ctx.db.insert("notifications", {
+    const authorName = (await getDisplayName(ctx, userId)) || "Someone";
+    await createNotification(ctx, {
       userId: nextUserId,
       type: "your_turn",
       title: "Your Turn to Write",
-      message: `${currentUser?.name || "Someone"} wrote in ${group.name} and passed it to you`,
+      message: `${authorName} wrote in ${group.name} and passed it to you`,
       groupId: group._id,
-      isRead: false,
-      createdAt: Date.now(),
+      entryId,
     });
 
     // Notify other members about the new entry
-    for (const memberId of group.members) {
+    for (const { userId: memberId } of await getGroupMembers(ctx, group._id)) {
       if (memberId !== userId && memberId !== nextUserId) {
-        await ctx.db.insert("notifications", {
+        await createNotification(ctx, {
           userId: memberId,
           type: "journal_passed",
           title: "New Entry Added",
-          message: `${currentUser?.name || "Someone"} wrote in ${group.name}`,
+          message: `${authorName} wrote in ${group.name}`,
           groupId: group._id,
-          isRead: false,
-          createdAt: Date.now(),
+          entryId,
         });
       }
     }
@@ -161,13 +383,195 @@ export const createEntry = mutation({
   },
 });
 
-// Save draft
+// Update an entry (author only), keeping the previous version as a revision
+export const updateEntry = mutation({
+  args: {
+    entryId: v.id("entries"),
+    title: v.optional(v.string()),
+    content: v.string(),
+    contentFormat: v.optional(contentFormatValidator),
+    photos: v.optional(v.array(v.id("_storage"))),
+    photoCaptions: v.optional(v.array(photoCaptionValidator)),
+    audio: v.optional(audioArg),
+    tags: v.optional(v.array(v.string())),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    const entry = await ctx.db.get(args.entryId);
+    if (!entry || entry.deletedAt) throw new Error("Entry not found");
+
+    if (entry.authorId !== userId) {
+      throw new Error("Only the author can edit this entry");
+    }
+
+    if (entry.isSkipped) {
+      throw new Error("Skipped turns cannot be edited");
+    }
+
+    if (!args.content.trim() && !args.audio) {
+      throw new Error("Entry content cannot be empty");
+    }
+
+    await claimPhotos(ctx, userId, entry.groupId, args.photos ?? [], entry.photos);
+    await claimAudio(ctx, userId, entry.groupId, args.audio, entry.audio?.storageId);
+    const isNewRecording = !!args.audio && args.audio.storageId !== entry.audio?.storageId;
+
+    await ctx.db.insert("entryRevisions", {
+      entryId: entry._id,
+      editedBy: userId,
+      title: entry.title,
+      content: entry.content,
+      contentFormat: entry.contentFormat,
+      photos: entry.photos,
+      photoCaptions: entry.photoCaptions,
+      audio: entry.audio,
+      tags: entry.tags,
+      createdAt: entry.editedAt ?? entry.entryDate,
+    });
+
+    await ctx.db.patch(args.entryId, {
+      title: args.title,
+      content: args.content,
+      contentFormat: args.contentFormat,
+      photos: args.photos,
+      photoCaptions: normalizeCaptions(args.photos ?? [], args.photoCaptions),
+      audio: args.audio && {
+        ...args.audio,
+        transcript: isNewRecording ? undefined : entry.audio?.transcript,
+      },
+      tags: args.tags,
+      editedAt: Date.now(),
+    });
+
+    if (isNewRecording) {
+      await ctx.scheduler.runAfter(0, internal.transcription.transcribeEntryAudio, {
+        entryId: args.entryId,
+      });
+    }
+
+    return args.entryId;
+  },
+});
+
+// Delete an entry: the author removes it permanently, the group creator can soft-delete it
+export const deleteEntry = mutation({
+  args: {
+    entryId: v.id("entries"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    const entry = await ctx.db.get(args.entryId);
+    if (!entry || entry.deletedAt) throw new Error("Entry not found");
+
+    if (entry.authorId === userId) {
+      await deleteEntryPermanently(ctx, entry);
+      return { deleted: "permanent" as const };
+    }
+
+    const group = await ctx.db.get(entry.groupId);
+    if (!group || !canManageGroup(await getMemberRole(ctx, group._id, userId))) {
+      throw new Error("Not authorized to delete this entry");
+    }
+
+    await ctx.db.patch(entry._id, {
+      deletedAt: Date.now(),
+      deletedBy: userId,
+    });
+    return { deleted: "soft" as const };
+  },
+});
+
+// Remove an entry with its revisions, files, comments and reactions
+export async function deleteEntryPermanently(ctx: MutationCtx, entry: Doc<"entries">) {
+  const revisions = await ctx.db
+    .query("entryRevisions")
+    .withIndex("by_entry", (q) => q.eq("entryId", entry._id))
+    .collect();
+
+  // Files can be shared between revisions, so delete each blob once
+  const fileIds = new Set([...(entry.photos ?? []), ...(entry.audio ? [entry.audio.storageId] : [])]);
+  for (const revision of revisions) {
+    for (const photoId of revision.photos ?? []) {
+      fileIds.add(photoId);
+    }
+    if (revision.audio) fileIds.add(revision.audio.storageId);
+    await ctx.db.delete(revision._id);
+  }
+  for (const fileId of fileIds) {
+    await ctx.storage.delete(fileId);
+  }
+
+  const comments = await ctx.db
+    .query("comments")
+    .withIndex("by_entry", (q) => q.eq("entryId", entry._id))
+    .collect();
+  for (const comment of comments) {
+    await ctx.db.delete(comment._id);
+  }
+
+  const reactions = await ctx.db
+    .query("reactions")
+    .withIndex("by_entry", (q) => q.eq("entryId", entry._id))
+    .collect();
+  for (const reaction of reactions) {
+    await ctx.db.delete(reaction._id);
+  }
+
+  await ctx.db.delete(entry._id);
+}
+
+// Get previous versions of an entry
+export const getEntryRevisions = query({
+  args: {
+    entryId: v.id("entries"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return [];
+
+    const entry = await ctx.db.get(args.entryId);
+    if (!entry) throw new Error("Entry not found");
+
+    const group = await ctx.db.get(entry.groupId);
+    if (!group || !(await isMember(ctx, group._id, userId))) {
+      throw new Error("Not authorized to view this entry");
+    }
+
+    const revisions = await ctx.db
+      .query("entryRevisions")
+      .withIndex("by_entry", (q) => q.eq("entryId", args.entryId))
+      .order("desc")
+      .collect();
+
+    return Promise.all(
+      revisions.map(async (revision) => {
+        return {
+          ...revision,
+          editor: await getUserSummary(ctx, revision.editedBy),
+        };
+      })
+    );
+  },
+});
+
+// Create or update a draft. `expectedVersion` is the version the client last saw; if the
+// draft has been saved elsewhere since, nothing is written and the conflict is reported.
 export const saveDraft = mutation({
   args: {
+    draftId: v.optional(v.id("drafts")),
+    expectedVersion: v.optional(v.number()),
     groupId: v.id("groups"),
+    name: v.optional(v.string()),
     title: v.optional(v.string()),
     content: v.string(),
     photos: v.optional(v.array(v.id("_storage"))),
+    photoCaptions: v.optional(v.array(photoCaptionValidator)),
+    audio: v.optional(audioArg),
+    tags: v.optional(v.array(v.string())),
     isQuickReflection: v.optional(v.boolean()),
   },
   handler: async (ctx, args) => {
@@ -175,58 +579,127 @@ export const saveDraft = mutation({
     if (!userId) throw new Error("Not authenticated");
 
     const group = await ctx.db.get(args.groupId);
-    if (!group || !group.members.includes(userId)) {
+    if (!group || !canWrite(await getMemberRole(ctx, group._id, userId))) {
       throw new Error("Not authorized to save draft in this group");
     }
 
-    // Check if draft already exists
-    const existingDraft = await ctx.db
-      .query("drafts")
-      .withIndex("by_group_and_author", (q) => 
-        q.eq("groupId", args.groupId).eq("authorId", userId)
-      )
-      .first();
+    const existingDraft = args.draftId ? await ctx.db.get(args.draftId) : null;
+    if (args.draftId && (!existingDraft || existingDraft.authorId !== userId)) {
+      throw new Error("Draft not found");
+    }
+
+    if (existingDraft && (existingDraft.version ?? 0) !== (args.expectedVersion ?? 0)) {
+      return {
+        status: "conflict" as const,
+        draftId: existingDraft._id,
+        version: existingDraft.version ?? 0,
+        updatedAt: existingDraft.updatedAt,
+      };
+    }
+
+    await checkPhotos(ctx, userId, args.groupId, args.photos ?? [], existingDraft?.photos);
+    await checkAudio(ctx, userId, args.groupId, args.audio, existingDraft?.audio?.storageId);
+
+    const version = (existingDraft?.version ?? 0) + 1;
+    const updatedAt = Date.now();
+    const fields = {
+      name: args.name?.trim() || undefined,
+      title: args.title,
+      content: args.content,
+      photos: args.photos,
+      photoCaptions: normalizeCaptions(args.photos ?? [], args.photoCaptions),
+      audio: args.audio,
+      tags: args.tags,
+      isQuickReflection: args.isQuickReflection,
+      version,
+      updatedAt,
+    };
 
     if (existingDraft) {
-      await ctx.db.patch(existingDraft._id, {
-        title: args.title,
-        content: args.content,
-        photos: args.photos,
-        isQuickReflection: args.isQuickReflection,
-      });
-      return existingDraft._id;
-    } else {
-      return await ctx.db.insert("drafts", {
-        groupId: args.groupId,
-        authorId: userId,
-        title: args.title,
-        content: args.content,
-        photos: args.photos,
-        isQuickReflection: args.isQuickReflection,
-      });
+      await ctx.db.patch(existingDraft._id, fields);
+      return { status: "saved" as const, draftId: existingDraft._id, version, updatedAt };
     }
+
+    const draftId = await ctx.db.insert("drafts", {
+      groupId: args.groupId,
+      authorId: userId,
+      ...fields,
+    });
+    return { status: "saved" as const, draftId, version, updatedAt };
   },
 });
 
-// Get user's draft for a group
-export const getDraft = query({
+// List the user's drafts for a group, most recently edited first
+export const getDrafts = query({
   args: {
     groupId: v.id("groups"),
   },
   handler: async (ctx, args) => {
     const userId = await getAuthUserId(ctx);
-    if (!userId) return null;
+    if (!userId) return [];
 
-    return await ctx.db
+    const drafts = await ctx.db
       .query("drafts")
       .withIndex("by_group_and_author", (q) => 
         q.eq("groupId", args.groupId).eq("authorId", userId)
       )
-      .first();
+      .collect();
+
+    return drafts
+      .map((draft) => ({
+        _id: draft._id,
+        name: draft.name,
+        title: draft.title,
+        preview: draft.content.slice(0, 100),
+        photoCount: draft.photos?.length ?? 0,
+        hasAudio: !!draft.audio,
+        updatedAt: draft.updatedAt ?? draft._creationTime,
+      }))
+      .sort((a, b) => b.updatedAt - a.updatedAt);
   },
 });
 
-// Generate upload URL for photos
+// Get one of the user's drafts with its attachments
+export const getDraft = query({
+  args: {
+    draftId: v.id("drafts"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return null;
+
+    const draft = await ctx.db.get(args.draftId);
+    if (!draft || draft.authorId !== userId) return null;
+
+    return {
+      ...draft,
+      version: draft.version ?? 0,
+      photos: await getPhotoUrls(ctx, draft),
+      audio: await getAudioUrl(ctx, draft),
+    };
+  },
+});
+
+// Delete a draft. Its uploads are left for the orphan cleanup job.
+export const deleteDraft = mutation({
+  args: {
+    draftId: v.id("drafts"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    const draft = await ctx.db.get(args.draftId);
+    if (!draft || draft.authorId !== userId) {
+      throw new Error("Draft not found");
+    }
+
+    await ctx.db.delete(args.draftId);
+  },
+});
+
+// Generate upload URL for photos and voice memos. Uploaded files must be passed to `photos.registerUpload`
+// before they can be attached to an entry or draft.
 export const generateUploadUrl = mutation({
   args: {},
   handler: async (ctx) => {
@@ -236,3 +709,22 @@ export const generateUploadUrl = mutation({
     return await ctx.storage.generateUploadUrl();
   },
 });
+
+// Resolve photo URLs in display order, with their captions
+async function getPhotoUrls(
+  ctx: QueryCtx,
+  doc: Pick<Doc<"entries">, "photos" | "photoCaptions">
+) {
+  return Promise.all(
+    (doc.photos ?? []).map(async (photoId) => ({
+      id: photoId,
+      url: await ctx.storage.getUrl(photoId),
+      caption: doc.photoCaptions?.find((c) => c.storageId === photoId)?.caption ?? "",
+    }))
+  );
+}
+
+async function getAudioUrl(ctx: QueryCtx, doc: Pick<Doc<"entries">, "audio">) {
+  if (!doc.audio) return null;
+  return { ...doc.audio, url: await ctx.storage.getUrl(doc.audio.storageId) };
+}
@@ -0,0 +1,504 @@
+import { v } from "convex/values";
+import { action, internalMutation, internalQuery } from "./_generated/server";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { internal } from "./_generated/api";
+import { Doc, Id } from "./_generated/dataModel";
+import { getDisplayName, getProfile } from "./profiles";
+import { GroupRole } from "./roles";
+import { getUserMemberships, isMember } from "./memberships";
+import { BlockNode, InlineNode, parseMarkdown } from "./markdown";
+
+// Generated files are only needed long enough to be downloaded
+const EXPORT_FILE_TTL = 60 * 60 * 1000;
+
+type ExportData = {
+  group: { name: string; description?: string };
+  entries: {
+    _id: Id<"entries">;
+    round: number;
+    turnIndex: number;
+    entryDate: number;
+    editedAt?: number;
+    title?: string;
+    content: string;
+    contentFormat: "plain" | "markdown";
+    isQuickReflection?: boolean;
+    isSkipped?: boolean;
+    tags: string[];
+    author: { name?: string; email?: string };
+    photos: { id: Id<"_storage">; caption: string }[];
+  }[];
+};
+
+type ExportPhoto = { contentType: string; data: string };
+
+// Collect a group's entries in chronological order, numbered by turn round.
+// A new round starts whenever the turn index wraps back around.
+export const getExportData = internalQuery({
+  args: {
+    groupId: v.id("groups"),
+    userId: v.id("users"),
+  },
+  handler: async (ctx, args): Promise<ExportData> => {
+    const group = await ctx.db.get(args.groupId);
+    if (!group || !(await isMember(ctx, group._id, args.userId))) {
+      throw new Error("Not authorized to export this group");
+    }
+
+    const entries = await ctx.db
+      .query("entries")
+      .withIndex("by_group_and_date", (q) => q.eq("groupId", args.groupId))
+      .filter((q) => q.eq(q.field("deletedAt"), undefined))
+      .collect();
+
+    let round = 1;
+    let previousTurnIndex = -1;
+    const exported = [];
+    for (const entry of entries) {
+      if (entry.turnIndex <= previousTurnIndex) round++;
+      previousTurnIndex = entry.turnIndex;
+
+      const author = await ctx.db.get(entry.authorId);
+      exported.push({
+        _id: entry._id,
+        round,
+        turnIndex: entry.turnIndex,
+        entryDate: entry.entryDate,
+        editedAt: entry.editedAt,
+        title: entry.title,
+        content: entry.content,
+        contentFormat: entry.contentFormat ?? "plain",
+        isQuickReflection: entry.isQuickReflection,
+        isSkipped: entry.isSkipped,
+        tags: entry.tags ?? [],
+        author: { name: await getDisplayName(ctx, entry.authorId), email: author?.email },
+        photos: (entry.photos ?? []).map((photoId) => ({
+          id: photoId,
+          caption: entry.photoCaptions?.find((c) => c.storageId === photoId)?.caption ?? "",
+        })),
+      });
+    }
+
+    return {
+      group: { name: group.name, description: group.description },
+      entries: exported,
+    };
+  },
+});
+
+// Build a downloadable export of a group's diary and return a temporary URL for it
+export const exportGroup = action({
+  args: {
+    groupId: v.id("groups"),
+    format: v.union(v.literal("html"), v.literal("json")),
+  },
+  handler: async (ctx, args): Promise<{ url: string; fileName: string }> => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    const data: ExportData = await ctx.runQuery(internal.exports.getExportData, {
+      groupId: args.groupId,
+      userId,
+    });
+
+    // Photos are embedded so the export does not depend on the app staying online
+    const photos = new Map<Id<"_storage">, ExportPhoto>();
+    for (const entry of data.entries) {
+      for (const { id: photoId } of entry.photos) {
+        if (photos.has(photoId)) continue;
+        const blob = await ctx.storage.get(photoId);
+        if (!blob) continue;
+        photos.set(photoId, {
+          contentType: blob.type || "application/octet-stream",
+          data: toBase64(await blob.arrayBuffer()),
+        });
+      }
+    }
+
+    const baseName = data.group.name.replace(/[^\p{L}\p{N}]+/gu, "-").replace(/^-|-$/g, "") || "journal";
+    const file =
+      args.format === "html"
+        ? new Blob([renderHtml(data, photos)], { type: "text/html;charset=utf-8" })
+        : new Blob([JSON.stringify(renderJson(data, photos), null, 2)], { type: "application/json" });
+
+    const storageId = await ctx.storage.store(file);
+    await ctx.scheduler.runAfter(EXPORT_FILE_TTL, internal.exports.deleteExportFile, { storageId });
+
+    const url = await ctx.storage.getUrl(storageId);
+    if (!url) throw new Error("Failed to create export");
+
+    return { url, fileName: `${baseName}.${args.format}` };
+  },
+});
+
+type PersonalData = {
+  account: { email?: string; emailVerificationTime?: number; isAnonymous?: boolean; createdAt: number };
+  profile: Omit<Doc<"profiles">, "_id" | "_creationTime" | "userId"> | null;
+  groups: { _id: Id<"groups">; name: string; description?: string; role: GroupRole | null }[];
+  entries: (Omit<Doc<"entries">, "authorId"> & { revisions: Omit<Doc<"entryRevisions">, "entryId">[] })[];
+  drafts: Omit<Doc<"drafts">, "authorId">[];
+  comments: Omit<Doc<"comments">, "authorId">[];
+  reactions: Omit<Doc<"reactions">, "userId">[];
+  invitationsSent: Omit<Doc<"invitations">, "invitedBy">[];
+  pendingUploads: Omit<Doc<"pendingUploads">, "userId">[];
+  aiChats: Omit<Doc<"aiChats">, "userId">[];
+  notifications: Omit<Doc<"notifications">, "userId">[];
+  notificationPreferences: Omit<Doc<"notificationPreferences">, "userId">[];
+  emailOptOuts: string[];
+  pushSubscriptions: { userAgent?: string; createdAt: number }[];
+};
+
+// Everything stored under a user id. Groups are listed when the user is a member, wrote
+// in them or invited someone to them, so records in groups they left can still be placed.
+export const getPersonalData = internalQuery({
+  args: {
+    userId: v.id("users"),
+  },
+  handler: async (ctx, args): Promise<PersonalData> => {
+    const { userId } = args;
+    const user = await ctx.db.get(userId);
+    if (!user) throw new Error("Account not found");
+
+    const profile = await getProfile(ctx, userId);
+
+    const entries = await ctx.db
+      .query("entries")
+      .withIndex("by_author", (q) => q.eq("authorId", userId))
+      .collect();
+    const exportedEntries = await Promise.all(
+      entries.map(async ({ authorId: _authorId, ...entry }) => {
+        const revisions = await ctx.db
+          .query("entryRevisions")
+          .withIndex("by_entry", (q) => q.eq("entryId", entry._id))
+          .collect();
+        return { ...entry, revisions: revisions.map(({ entryId: _entryId, ...revision }) => revision) };
+      })
+    );
+
+    const drafts = await ctx.db
+      .query("drafts")
+      .withIndex("by_author", (q) => q.eq("authorId", userId))
+      .collect();
+    const comments = await ctx.db
+      .query("comments")
+      .withIndex("by_author", (q) => q.eq("authorId", userId))
+      .collect();
+    const reactions = await ctx.db
+      .query("reactions")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .collect();
+
+    const invitationsSent = await ctx.db
+      .query("invitations")
+      .withIndex("by_inviter", (q) => q.eq("invitedBy", userId))
+      .collect();
+    const pendingUploads = await ctx.db
+      .query("pendingUploads")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .collect();
+
+    const aiChats = await ctx.db
+      .query("aiChats")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .collect();
+    const notifications = await ctx.db
+      .query("notifications")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .collect();
+    const notificationPreferences = await ctx.db
+      .query("notificationPreferences")
+      .withIndex("by_user_and_group", (q) => q.eq("userId", userId))
+      .collect();
+    const emailPreferences = await ctx.db
+      .query("emailPreferences")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .first();
+    const pushSubscriptions = await ctx.db
+      .query("pushSubscriptions")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .collect();
+
+    const memberships = await getUserMemberships(ctx, userId);
+    const roles = new Map(memberships.map((membership) => [membership.groupId, membership.role]));
+    const groupIds = new Set<Id<"groups">>([
+      ...roles.keys(),
+      ...entries.map((entry) => entry.groupId),
+      ...drafts.map((draft) => draft.groupId),
+      ...invitationsSent.map((invitation) => invitation.groupId),
+    ]);
+    const groups = (await Promise.all([...groupIds].map((groupId) => ctx.db.get(groupId)))).filter(
+      (group) => group !== null
+    );
+
+    return {
+      account: {
+        email: user.email,
+        emailVerificationTime: user.emailVerificationTime,
+        isAnonymous: user.isAnonymous,
+        createdAt: user._creationTime,
+      },
+      profile: profile
+        ? {
+            displayName: profile.displayName,
+            avatarId: profile.avatarId,
+            bio: profile.bio,
+            language: profile.language,
+            timezone: profile.timezone,
+            onboardedAt: profile.onboardedAt,
+          }
+        : null,
+      groups: groups.map((group) => ({
+        _id: group._id,
+        name: group.name,
+        description: group.description,
+        role: roles.get(group._id) ?? null,
+      })),
+      entries: exportedEntries,
+      drafts: drafts.map(({ authorId: _authorId, ...draft }) => draft),
+      comments: comments.map(({ authorId: _authorId, ...comment }) => comment),
+      reactions: reactions.map(({ userId: _userId, ...reaction }) => reaction),
+      invitationsSent: invitationsSent.map(({ invitedBy: _invitedBy, ...invitation }) => invitation),
+      pendingUploads: pendingUploads.map(({ userId: _userId, ...upload }) => upload),
+      aiChats: aiChats.map(({ userId: _userId, ...chat }) => chat),
+      notifications: notifications.map(({ userId: _userId, ...notification }) => notification),
+      notificationPreferences: notificationPreferences.map(({ userId: _userId, ...preferences }) => preferences),
+      emailOptOuts: emailPreferences?.optOuts ?? [],
+      pushSubscriptions: pushSubscriptions.map(({ userAgent, createdAt }) => ({ userAgent, createdAt })),
+    };
+  },
+});
+
+// Build a JSON archive of everything tied to the signed-in user, with their photos,
+// voice memos and avatar embedded, and return a temporary URL for it
+export const exportMyData = action({
+  args: {},
+  handler: async (ctx): Promise<{ url: string; fileName: string }> => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    const data: PersonalData = await ctx.runQuery(internal.exports.getPersonalData, { userId });
+
+    const fileIds = new Set<Id<"_storage">>();
+    const addFiles = (doc: { photos?: Id<"_storage">[]; audio?: { storageId: Id<"_storage"> } }) => {
+      for (const photoId of doc.photos ?? []) fileIds.add(photoId);
+      if (doc.audio) fileIds.add(doc.audio.storageId);
+    };
+    if (data.profile?.avatarId) fileIds.add(data.profile.avatarId);
+    for (const entry of data.entries) {
+      addFiles(entry);
+      entry.revisions.forEach(addFiles);
+    }
+    data.drafts.forEach(addFiles);
+    data.pendingUploads.forEach((upload) => fileIds.add(upload.storageId));
+
+    // Files are keyed by the storage ids used in the records
+    const files: Record<string, ExportPhoto> = {};
+    for (const fileId of fileIds) {
+      const blob = await ctx.storage.get(fileId);
+      if (!blob) continue;
+      files[fileId] = {
+        contentType: blob.type || "application/octet-stream",
+        data: toBase64(await blob.arrayBuffer()),
+      };
+    }
+
+    const archive = {
+      format: "dayshare-personal-data",
+      version: 1,
+      exportedAt: Date.now(),
+      ...data,
+      files,
+    };
+    const file = new Blob([JSON.stringify(archive, null, 2)], { type: "application/json" });
+
+    const storageId = await ctx.storage.store(file);
+    await ctx.scheduler.runAfter(EXPORT_FILE_TTL, internal.exports.deleteExportFile, { storageId });
+
+    const url = await ctx.storage.getUrl(storageId);
+    if (!url) throw new Error("Failed to create export");
+
+    const date = new Date().toISOString().slice(0, 10);
+    return { url, fileName: `dayshare-data-${date}.json` };
+  },
+});
+
+// Remove a generated export file once its download window has passed
+export const deleteExportFile = internalMutation({
+  args: {
+    storageId: v.id("_storage"),
+  },
+  handler: async (ctx, args) => {
+    await ctx.storage.delete(args.storageId);
+  },
+});
+
+function toBase64(buffer: ArrayBuffer) {
+  const bytes = new Uint8Array(buffer);
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function escapeHtml(text: string) {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+// Same Markdown subset and link rules as the app; every piece of text is escaped
+function renderMarkdownHtml(source: string) {
+  const inline = (nodes: InlineNode[]): string =>
+    nodes
+      .map((node) => {
+        switch (node.type) {
+          case "text":
+            return escapeHtml(node.text);
+          case "break":
+            return "<br>";
+          case "code":
+            return `<code>${escapeHtml(node.text)}</code>`;
+          case "link":
+            return `<a href="${escapeHtml(node.href)}" rel="noopener noreferrer nofollow">${inline(node.children)}</a>`;
+          default:
+            return `<${node.type}>${inline(node.children)}</${node.type}>`;
+        }
+      })
+      .join("");
+
+  const block = (node: BlockNode) => {
+    switch (node.type) {
+      case "heading":
+        return `<h${node.level + 3}>${inline(node.children)}</h${node.level + 3}>`;
+      case "paragraph":
+        return `<p>${inline(node.children)}</p>`;
+      case "list": {
+        const tag = node.ordered ? "ol" : "ul";
+        return `<${tag}>${node.items.map((item) => `<li>${inline(item)}</li>`).join("")}</${tag}>`;
+      }
+      case "quote":
+        return `<blockquote>${inline(node.children)}</blockquote>`;
+      case "codeBlock":
+        return `<pre><code>${escapeHtml(node.text)}</code></pre>`;
+      case "rule":
+        return "<hr>";
+    }
+  };
+
+  return parseMarkdown(source).map(block).join("\n");
+}
+
+function formatDate(timestamp: number) {
+  return new Date(timestamp).toLocaleDateString("en-US", {
+    weekday: "long",
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+}
+
+function renderJson(data: ExportData, photos: Map<Id<"_storage">, ExportPhoto>) {
+  return {
+    format: "dayshare-archive",
+    version: 1,
+    exportedAt: Date.now(),
+    group: data.group,
+    entries: data.entries.map(({ _id, photos: entryPhotos, ...entry }) => ({
+      ...entry,
+      photos: entryPhotos.flatMap(({ id, caption }) => {
+        const photo = photos.get(id);
+        return photo ? [{ ...photo, caption: caption || undefined }] : [];
+      }),
+    })),
+  };
+}
+
+function renderHtml(data: ExportData, photos: Map<Id<"_storage">, ExportPhoto>) {
+  const rounds = new Map<number, ExportData["entries"]>();
+  for (const entry of data.entries) {
+    rounds.set(entry.round, [...(rounds.get(entry.round) ?? []), entry]);
+  }
+
+  const renderEntry = (entry: ExportData["entries"][number]) => {
+    const author = escapeHtml(entry.author.name || entry.author.email || "Unknown");
+    if (entry.isSkipped) {
+      return `<p class="skipped">${author}'s turn was skipped · ${formatDate(entry.entryDate)}</p>`;
+    }
+
+    const photoHtml = entry.photos
+      .flatMap(({ id, caption }) => {
+        const photo = photos.get(id);
+        return photo ? [{ ...photo, caption }] : [];
+      })
+      .map(
+        (photo) => `<figure><img src="data:${photo.contentType};base64,${photo.data}" alt="${escapeHtml(photo.caption)}">${
+          photo.caption ? `<figcaption>${escapeHtml(photo.caption)}</figcaption>` : ""
+        }</figure>`
+      )
+      .join("");
+    const tagHtml = entry.tags.map((tag) => `<span class="tag">#${escapeHtml(tag)}</span>`).join(" ");
+
+    return `<article>
+  <header><strong>${author}</strong> · ${formatDate(entry.entryDate)}${entry.editedAt ? " (edited)" : ""}</header>
+  ${entry.title ? `<h3>${escapeHtml(entry.title)}</h3>` : ""}
+  ${
+    entry.contentFormat === "markdown"
+      ? `<div class="content markdown">${renderMarkdownHtml(entry.content)}</div>`
+      : `<div class="content">${escapeHtml(entry.content)}</div>`
+  }
+  ${photoHtml ? `<div class="photos">${photoHtml}</div>` : ""}
+  ${tagHtml ? `<div class="tags">${tagHtml}</div>` : ""}
+</article>`;
+  };
+
+  const body = Array.from(rounds.entries())
+    .map(([round, entries]) => `<section class="round">
+<h2>Round ${round}</h2>
+${entries.map(renderEntry).join("\n")}
+</section>`)
+    .join("\n");
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(data.group.name)}</title>
+<style>
+  body { font-family: Georgia, "Hiragino Mincho ProN", serif; max-width: 720px; margin: 0 auto; padding: 48px 24px; color: #333; }
+  .cover { text-align: center; padding: 120px 0; page-break-after: always; }
+  .cover h1 { font-size: 2.5em; margin-bottom: 0.5em; }
+  h2 { border-bottom: 1px solid #f0c8b0; padding-bottom: 8px; color: #c2410c; }
+  article { margin: 32px 0; page-break-inside: avoid; }
+  article header { color: #777; font-size: 0.9em; margin-bottom: 8px; }
+  .content { white-space: pre-wrap; line-height: 1.7; }
+  .content.markdown { white-space: normal; }
+  .content blockquote { border-left: 3px solid #f0c8b0; margin: 0; padding-left: 12px; color: #666; font-style: italic; }
+  .content pre { background: #f5f5f5; border-radius: 6px; padding: 8px; white-space: pre-wrap; }
+  .content a { color: #c2410c; }
+  .photos { display: grid; grid-template-columns: repeat(2, 1fr); gap: 8px; margin-top: 12px; }
+  .photos figure { margin: 0; }
+  .photos img { width: 100%; border-radius: 6px; }
+  .photos figcaption { color: #777; font-size: 0.85em; margin-top: 4px; }
+  .tag { color: #c2410c; font-size: 0.85em; }
+  .skipped { color: #aaa; text-align: center; font-style: italic; }
+  @media print {
+    body { padding: 0; }
+    .round { page-break-before: always; }
+    .round:first-of-type { page-break-before: auto; }
+  }
+</style>
+</head>
+<body>
+<div class="cover">
+  <h1>${escapeHtml(data.group.name)}</h1>
+  ${data.group.description ? `<p>${escapeHtml(data.group.description)}</p>` : ""}
+  <p>${data.entries.length > 0 ? `${formatDate(data.entries[0].entryDate)} – ${formatDate(data.entries[data.entries.length - 1].entryDate)}` : ""}</p>
+</div>
+${body}
+</body>
+</html>`;
+}
@@ -1,6 +1,15 @@
 import { v } from "convex/values";
-import { query, mutation } from "./_generated/server";
+import { query, mutation, MutationCtx } from "./_generated/server";
+import { Doc } from "./_generated/dataModel";
 import { getAuthUserId } from "@convex-dev/auth/server";
+import { advanceTurn, removeFromTurnOrder } from "./turns";
+import { canManageGroup, canWrite, roleValidator } from "./roles";
+import { addMember, getGroupMembers, getMemberRole, getMembership, getUserMemberships } from "./memberships";
+import { findUsableInvitation, generateSecureCode } from "./invitations";
+import { createNotification } from "./notifications";
+import { getDisplayName, getProfile, getUserSummary } from "./profiles";
+import { internal } from "./_generated/api";
+import { deletedAccountPolicyValidator } from "./schema";
 
 // Get all groups for the current user
 export const getUserGroups = query({
@@ -9,41 +18,53 @@ export const getUserGroups = query({
     const userId = await getAuthUserId(ctx);
     if (!userId) return [];
 
-    const groups = await ctx.db
-      .query("groups")
-      .collect();
+    const memberships = await getUserMemberships(ctx, userId);
 
-    const userGroups = groups.filter(group => group.members.includes(userId));
+    const groups = await Promise.all(
+      memberships.map(async (membership) => {
+        const group = await ctx.db.get(membership.groupId);
+        if (!group) return null;
 
-    return Promise.all(
-      userGroups.map(async (group) => {
-        const currentTurnUser = await ctx.db.get(group.turnOrder[group.currentTurnIndex]);
+        const currentTurnUser = await getUserSummary(ctx, group.turnOrder[group.currentTurnIndex]);
         const isMyTurn = group.turnOrder[group.currentTurnIndex] === userId;
         
         // Get member details
         const members = await Promise.all(
-          group.members.map(async (memberId) => {
+          (await getGroupMembers(ctx, group._id)).map(async ({ userId: memberId, role }) => {
             const member = await ctx.db.get(memberId);
-            return member ? { _id: member._id, name: member.name, email: member.email } : null;
+            const profile = await getProfile(ctx, memberId);
+            return member
+              ? {
+                  _id: member._id,
+                  name: profile?.displayName || member.name,
+                  email: member.email,
+                  avatarUrl: profile?.avatarId ? await ctx.storage.getUrl(profile.avatarId) : null,
+                  bio: profile?.bio ?? null,
+                  role,
+                }
+              : null;
           })
         );
 
-        // Get latest entry
+        // Get latest entry, leaving out deleted entries and skipped turns
         const latestEntry = await ctx.db
           .query("entries")
           .withIndex("by_group_and_date", (q) => q.eq("groupId", group._id))
           .order("desc")
+          .filter((q) => q.and(q.eq(q.field("deletedAt"), undefined), q.neq(q.field("isSkipped"), true)))
           .first();
 
         return {
           ...group,
-          currentTurnUser: currentTurnUser ? { _id: currentTurnUser._id, name: currentTurnUser.name } : null,
+          currentTurnUser,
           isMyTurn,
+          myRole: membership.role,
           members: members.filter(Boolean),
           latestEntry,
         };
       })
     );
+    return groups.filter((group) => group !== null);
   },
 });
 
@@ -52,52 +73,88 @@ export const createGroup = mutation({
   args: {
     name: v.string(),
     description: v.optional(v.string()),
+    turnTimeLimitHours: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
     const userId = await getAuthUserId(ctx);
     if (!userId) throw new Error("Not authenticated");
 
+    if (
+      args.turnTimeLimitHours !== undefined &&
+      (args.turnTimeLimitHours < 1 || args.turnTimeLimitHours > 24 * 30)
+    ) {
+      throw new Error("Turn time limit must be between 1 hour and 30 days");
+    }
+
     const groupId = await ctx.db.insert("groups", {
       name: args.name,
       description: args.description,
       createdBy: userId,
-      members: [userId],
       turnOrder: [userId],
       currentTurnIndex: 0,
       isActive: true,
+      turnTimeLimitHours: args.turnTimeLimitHours,
+      turnDeadline: args.turnTimeLimitHours
+        ? Date.now() + args.turnTimeLimitHours * 60 * 60 * 1000
+        : undefined,
+      turnReminderSent: false,
     });
+    await addMember(ctx, groupId, userId, "owner");
 
     return groupId;
   },
 });
 
+// Deliberately loose, but without spaces, line breaks or the characters that separate
+// addresses in a header
+const EMAIL_PATTERN = /^[^\s@<>()",;]+@[^\s@<>()",;]+\.[^\s@<>()",;]+$/;
+
 // Generate invitation code
 export const generateInviteCode = mutation({
   args: {
     groupId: v.id("groups"),
     invitedEmail: v.string(),
+    role: v.optional(roleValidator),
   },
   handler: async (ctx, args) => {
     const userId = await getAuthUserId(ctx);
     if (!userId) throw new Error("Not authenticated");
 
-    const group = await ctx.db.get(args.groupId);
-    if (!group || group.createdBy !== userId) {
+    const myRole = await getMemberRole(ctx, args.groupId, userId);
+    if (!canManageGroup(myRole)) {
       throw new Error("Not authorized to invite to this group");
     }
 
-    const inviteCode = Math.random().toString(36).substring(2, 15);
+    const invitedEmail = args.invitedEmail.trim().toLowerCase();
+    if (!EMAIL_PATTERN.test(invitedEmail)) {
+      throw new Error("Enter a valid email address");
+    }
+
+    const role = args.role ?? "writer";
+    if (role === "owner") {
+      throw new Error("A group can only have one owner");
+    }
+    if (role === "admin" && myRole !== "owner") {
+      throw new Error("Only the owner can invite admins");
+    }
+
+    const inviteCode = generateSecureCode();
     const expiresAt = Date.now() + 7 * 24 * 60 * 60 * 1000; // 7 days
 
-    await ctx.db.insert("invitations", {
+    const invitationId = await ctx.db.insert("invitations", {
       groupId: args.groupId,
       invitedBy: userId,
-      invitedEmail: args.invitedEmail,
+      kind: "email",
+      invitedEmail,
       inviteCode,
+      role,
       status: "pending",
       expiresAt,
+      createdAt: Date.now(),
     });
 
+    await ctx.scheduler.runAfter(0, internal.mailer.sendInvitationEmail, { invitationId });
+
     return { inviteCode };
   },
 });
@@ -111,48 +168,61 @@ export const joinGroupWithCode = mutation({
     const userId = await getAuthUserId(ctx);
     if (!userId) throw new Error("Not authenticated");
 
-    const invitation = await ctx.db
-      .query("invitations")
-      .withIndex("by_code", (q) => q.eq("inviteCode", args.inviteCode))
-      .first();
-
-    if (!invitation || invitation.status !== "pending" || invitation.expiresAt < Date.now()) {
+    const invitation = await findUsableInvitation(ctx, args.inviteCode);
+    if (!invitation) {
       throw new Error("Invalid or expired invitation code");
     }
 
     const group = await ctx.db.get(invitation.groupId);
     if (!group) throw new Error("Group not found");
 
-    if (group.members.includes(userId)) {
-      throw new Error("Already a member of this group");
+    if (await getMembership(ctx, group._id, userId)) {
+      return { success: true, groupId: group._id, alreadyMember: true };
     }
 
-    // Add user to group
-    await ctx.db.patch(invitation.groupId, {
-      members: [...group.members, userId],
-      turnOrder: [...group.turnOrder, userId],
-    });
+    // Email invitations can only be redeemed by the account they were sent to, once it
+    // has confirmed that address
+    const user = await ctx.db.get(userId);
+    const isLinkInvite = invitation.kind === "link";
+    if (
+      !isLinkInvite &&
+      (!user?.email ||
+        !user.emailVerificationTime ||
+        user.email.toLowerCase() !== invitation.invitedEmail?.toLowerCase())
+    ) {
+      throw new Error("This invitation was sent to a different email address");
+    }
+
+    // Add user to group; viewers read along but are never handed the turn
+    const existingMembers = await getGroupMembers(ctx, group._id);
+    const role = invitation.role ?? "writer";
+    await addMember(ctx, group._id, userId, role);
+    if (canWrite(role)) {
+      await ctx.db.patch(group._id, { turnOrder: [...group.turnOrder, userId] });
+    }
 
-    // Update invitation status
+    // Update invitation status; link invites stay open until they run out of uses
+    const useCount = (invitation.useCount ?? 0) + 1;
+    const isUsedUp =
+      !isLinkInvite || (invitation.maxUses !== undefined && useCount >= invitation.maxUses);
     await ctx.db.patch(invitation._id, {
-      status: "accepted",
+      useCount,
+      status: isUsedUp ? "accepted" : "pending",
     });
 
     // Create notification for existing members
-    for (const memberId of group.members) {
-      const user = await ctx.db.get(userId);
-      await ctx.db.insert("notifications", {
+    const userName = (await getDisplayName(ctx, userId)) || "Someone";
+    for (const { userId: memberId } of existingMembers) {
+      await createNotification(ctx, {
         userId: memberId,
         type: "new_member",
         title: "New Member Joined",
-        message: `${user?.name || "Someone"} joined ${group.name}`,
+        message: `${userName} joined ${group.name}`,
         groupId: group._id,
-        isRead: false,
-        createdAt: Date.now(),
       });
     }
 
-    return { success: true };
+    return { success: true, groupId: group._id, alreadyMember: false };
   },
 });
 
@@ -172,25 +242,254 @@ export const passTurn = mutation({
       throw new Error("Not your turn");
     }
 
-    const nextTurnIndex = (group.currentTurnIndex + 1) % group.turnOrder.length;
-    const nextUserId = group.turnOrder[nextTurnIndex];
-
-    await ctx.db.patch(args.groupId, {
-      currentTurnIndex: nextTurnIndex,
-    });
+    const { nextUserId } = await advanceTurn(ctx, group);
 
     // Create notification for next user
-    const currentUser = await ctx.db.get(userId);
-    await ctx.db.insert("notifications", {
+    const userName = (await getDisplayName(ctx, userId)) || "Someone";
+    await createNotification(ctx, {
       userId: nextUserId,
       type: "your_turn",
       title: "Your Turn to Write",
-      message: `${currentUser?.name || "Someone"} passed the journal to you in ${group.name}`,
+      message: `${userName} passed the journal to you in ${group.name}`,
       groupId: group._id,
-      isRead: false,
-      createdAt: Date.now(),
     });
 
     return { success: true };
   },
 });
+
+// Leave a group
+export const leaveGroup = mutation({
+  args: {
+    groupId: v.id("groups"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    const group = await ctx.db.get(args.groupId);
+    const membership = group && (await getMembership(ctx, group._id, userId));
+    if (!group || !membership) {
+      throw new Error("Not a member of this group");
+    }
+
+    await departGroup(ctx, group, membership);
+    return { success: true };
+  },
+});
+
+// Take a member out of a group: the turn moves on if it was theirs, ownership passes on
+// if they owned it, and the group is retired once nobody is left. Used when leaving and
+// when deleting an account.
+export async function departGroup(
+  ctx: MutationCtx,
+  group: Doc<"groups">,
+  membership: Doc<"groupMembers">
+) {
+  const { userId } = membership;
+  const { newTurnHolder } = await removeFromTurnOrder(ctx, group, userId);
+  await ctx.db.delete(membership._id);
+  const remainingMembers = await getGroupMembers(ctx, group._id);
+
+  if (remainingMembers.length === 0) {
+    // Last one out: keep the entries but retire the group
+    await ctx.db.patch(group._id, {
+      isActive: false,
+      turnDeadline: undefined,
+    });
+    return;
+  }
+
+  // Hand ownership to an admin if there is one, otherwise the longest-standing member
+  if (membership.role === "owner") {
+    const newOwner =
+      remainingMembers.find((member) => member.role === "admin") ?? remainingMembers[0];
+    await ctx.db.patch(newOwner._id, { role: "owner" });
+
+    const turnOrder = group.turnOrder.filter((id) => id !== userId);
+    await ctx.db.patch(group._id, {
+      createdBy: newOwner.userId,
+      turnOrder: turnOrder.includes(newOwner.userId) ? turnOrder : [...turnOrder, newOwner.userId],
+    });
+  }
+
+  if (newTurnHolder) {
+    const userName = (await getDisplayName(ctx, userId)) || "Someone";
+    await createNotification(ctx, {
+      userId: newTurnHolder,
+      type: "your_turn",
+      title: "Your Turn to Write",
+      message: `${userName} left ${group.name}, so it's your turn now`,
+      groupId: group._id,
+    });
+  }
+}
+
+// Remove a member from a group (owner and admins; only the owner can remove admins)
+export const removeMember = mutation({
+  args: {
+    groupId: v.id("groups"),
+    memberId: v.id("users"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    const group = await ctx.db.get(args.groupId);
+    const role = group && (await getMemberRole(ctx, group._id, userId));
+    if (!group || !canManageGroup(role)) {
+      throw new Error("Not authorized to manage this group");
+    }
+
+    if (args.memberId === userId) {
+      throw new Error("Use leave group to remove yourself");
+    }
+
+    const member = await getMembership(ctx, group._id, args.memberId);
+    if (!member) {
+      throw new Error("User is not a member of this group");
+    }
+
+    if (member.role === "owner" || (member.role === "admin" && role !== "owner")) {
+      throw new Error("Not authorized to remove this member");
+    }
+
+    const { newTurnHolder } = await removeFromTurnOrder(ctx, group, args.memberId);
+    await ctx.db.delete(member._id);
+
+    await createNotification(ctx, {
+      userId: args.memberId,
+      type: "member_removed",
+      title: "Removed from Journal",
+      message: `You were removed from ${group.name}`,
+    });
+
+    if (newTurnHolder) {
+      await createNotification(ctx, {
+        userId: newTurnHolder,
+        type: "your_turn",
+        title: "Your Turn to Write",
+        message: `The journal in ${group.name} has been passed to you`,
+        groupId: group._id,
+      });
+    }
+
+    return { success: true };
+  },
+});
+
+// Change a member's role (owner can assign admins; admins can switch writers and viewers)
+export const setMemberRole = mutation({
+  args: {
+    groupId: v.id("groups"),
+    memberId: v.id("users"),
+    role: roleValidator,
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    const group = await ctx.db.get(args.groupId);
+    const role = group && (await getMemberRole(ctx, group._id, userId));
+    if (!group || !canManageGroup(role)) {
+      throw new Error("Not authorized to manage this group");
+    }
+
+    const member = await getMembership(ctx, group._id, args.memberId);
+    if (!member) {
+      throw new Error("User is not a member of this group");
+    }
+    const memberRole = member.role;
+
+    if (memberRole === "owner" || args.role === "owner") {
+      throw new Error("The owner's role cannot be changed");
+    }
+
+    if (role !== "owner" && (memberRole === "admin" || args.role === "admin")) {
+      throw new Error("Only the owner can change admin roles");
+    }
+
+    if (memberRole === args.role) {
+      return { success: true };
+    }
+
+    // Viewers are taken out of the rotation; new writers join the end of it
+    let newTurnHolder = null;
+    if (!canWrite(args.role) && canWrite(memberRole)) {
+      ({ newTurnHolder } = await removeFromTurnOrder(ctx, group, args.memberId));
+    } else if (canWrite(args.role) && !canWrite(memberRole)) {
+      await ctx.db.patch(args.groupId, {
+        turnOrder: [...group.turnOrder, args.memberId],
+      });
+    }
+
+    await ctx.db.patch(member._id, { role: args.role });
+
+    if (newTurnHolder) {
+      await createNotification(ctx, {
+        userId: newTurnHolder,
+        type: "your_turn",
+        title: "Your Turn to Write",
+        message: `The journal in ${group.name} has been passed to you`,
+        groupId: group._id,
+      });
+    }
+
+    return { success: true };
+  },
+});
+
+// Change the order members take turns in (owner and admins)
+export const reorderTurnOrder = mutation({
+  args: {
+    groupId: v.id("groups"),
+    turnOrder: v.array(v.id("users")),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    const group = await ctx.db.get(args.groupId);
+    if (!group || !canManageGroup(await getMemberRole(ctx, group._id, userId))) {
+      throw new Error("Not authorized to manage this group");
+    }
+
+    const isSameMembers =
+      args.turnOrder.length === group.turnOrder.length &&
+      new Set(args.turnOrder).size === args.turnOrder.length &&
+      args.turnOrder.every((id) => group.turnOrder.includes(id));
+    if (!isSameMembers) {
+      throw new Error("Turn order must contain each writer exactly once");
+    }
+
+    // The current writer keeps the journal; only who comes next changes
+    const currentTurnUserId = group.turnOrder[group.currentTurnIndex];
+
+    await ctx.db.patch(args.groupId, {
+      turnOrder: args.turnOrder,
+      currentTurnIndex: args.turnOrder.indexOf(currentTurnUserId),
+    });
+
+    return { success: true };
+  },
+});
+
+// Choose whether a member's entries and comments stay, without their name, or are removed
+// when they delete their account (owner and admins)
+export const setDeletedAccountPolicy = mutation({
+  args: {
+    groupId: v.id("groups"),
+    policy: deletedAccountPolicyValidator,
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    if (!canManageGroup(await getMemberRole(ctx, args.groupId, userId))) {
+      throw new Error("Not authorized to manage this group");
+    }
+
+    await ctx.db.patch(args.groupId, { deletedAccountPolicy: args.policy });
+    return { success: true };
+  },
+});
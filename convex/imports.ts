@@ -0,0 +1,76 @@
+import { v } from "convex/values";
+import { mutation } from "./_generated/server";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { canManageGroup } from "./roles";
+import { getMemberRole, isMember } from "./memberships";
+import { contentFormatValidator, photoCaptionValidator } from "./schema";
+import { claimPhotos, normalizeCaptions } from "./photos";
+
+// Keep each call comfortably inside mutation limits; the client sends larger imports in batches
+const MAX_ENTRIES_PER_BATCH = 100;
+
+// Insert historical entries into a group (owner and admins).
+// Imported entries keep their original dates and do not move the turn or notify anyone.
+export const importEntries = mutation({
+  args: {
+    groupId: v.id("groups"),
+    entries: v.array(v.object({
+      authorId: v.id("users"),
+      title: v.optional(v.string()),
+      content: v.string(),
+      contentFormat: v.optional(contentFormatValidator),
+      entryDate: v.number(),
+      tags: v.optional(v.array(v.string())),
+      photos: v.optional(v.array(v.id("_storage"))),
+      photoCaptions: v.optional(v.array(photoCaptionValidator)),
+      isQuickReflection: v.optional(v.boolean()),
+    })),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    const group = await ctx.db.get(args.groupId);
+    if (!group || !canManageGroup(await getMemberRole(ctx, group._id, userId))) {
+      throw new Error("Not authorized to import into this group");
+    }
+
+    if (args.entries.length > MAX_ENTRIES_PER_BATCH) {
+      throw new Error(`Import at most ${MAX_ENTRIES_PER_BATCH} entries at a time`);
+    }
+
+    for (const entry of args.entries) {
+      if (!(await isMember(ctx, group._id, entry.authorId))) {
+        throw new Error("Imported entries must be assigned to group members");
+      }
+      if (!entry.content.trim()) {
+        throw new Error("Imported entries cannot be empty");
+      }
+      if (entry.entryDate > Date.now()) {
+        throw new Error("Imported entries cannot be dated in the future");
+      }
+    }
+
+    const importedAt = Date.now();
+    for (const entry of args.entries) {
+      await claimPhotos(ctx, userId, args.groupId, entry.photos ?? []);
+      const turnIndex = group.turnOrder.indexOf(entry.authorId);
+      await ctx.db.insert("entries", {
+        groupId: args.groupId,
+        authorId: entry.authorId,
+        title: entry.title,
+        content: entry.content,
+        contentFormat: entry.contentFormat,
+        photos: entry.photos,
+        photoCaptions: normalizeCaptions(entry.photos ?? [], entry.photoCaptions),
+        entryDate: entry.entryDate,
+        turnIndex: Math.max(turnIndex, 0),
+        isQuickReflection: entry.isQuickReflection,
+        tags: entry.tags,
+        importedAt,
+      });
+    }
+
+    return { imported: args.entries.length };
+  },
+});
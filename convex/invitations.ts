@@ -0,0 +1,165 @@
+import { v } from "convex/values";
+import { query, mutation, internalQuery, QueryCtx } from "./_generated/server";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { canManageGroup, roleValidator } from "./roles";
+import { getMemberRole } from "./memberships";
+import { getUserSummary } from "./profiles";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Unambiguous characters so codes can still be read out or typed by hand
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const CODE_LENGTH = 12;
+
+// Generate an invite code from the platform's cryptographic random source.
+// 32 characters divide 256 evenly, so every character is equally likely.
+export function generateSecureCode() {
+  const bytes = new Uint8Array(CODE_LENGTH);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, (byte) => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join("");
+}
+
+// Look up an invitation that can still be used to join
+export async function findUsableInvitation(ctx: QueryCtx, inviteCode: string) {
+  // Codes are upper case, but older codes were generated in lower case
+  const code = inviteCode.trim();
+  const invitation =
+    (await ctx.db
+      .query("invitations")
+      .withIndex("by_code", (q) => q.eq("inviteCode", code.toUpperCase()))
+      .first()) ??
+    (await ctx.db
+      .query("invitations")
+      .withIndex("by_code", (q) => q.eq("inviteCode", code))
+      .first());
+
+  if (
+    !invitation ||
+    invitation.status !== "pending" ||
+    invitation.expiresAt < Date.now() ||
+    (invitation.maxUses !== undefined && (invitation.useCount ?? 0) >= invitation.maxUses)
+  ) {
+    return null;
+  }
+
+  return invitation;
+}
+
+// Create a shareable multi-use invite link
+export const createInviteLink = mutation({
+  args: {
+    groupId: v.id("groups"),
+    role: v.optional(roleValidator),
+    maxUses: v.optional(v.number()),
+    expiresInDays: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    const group = await ctx.db.get(args.groupId);
+    const myRole = group && (await getMemberRole(ctx, group._id, userId));
+    if (!group || !canManageGroup(myRole)) {
+      throw new Error("Not authorized to invite to this group");
+    }
+
+    const role = args.role ?? "writer";
+    if (role === "owner" || (role === "admin" && myRole !== "owner")) {
+      throw new Error("Not authorized to invite with this role");
+    }
+
+    if (args.maxUses !== undefined && (args.maxUses < 1 || !Number.isInteger(args.maxUses))) {
+      throw new Error("Max uses must be a positive whole number");
+    }
+
+    const expiresInDays = args.expiresInDays ?? 7;
+    if (expiresInDays <= 0 || expiresInDays > 30) {
+      throw new Error("Links can be valid for up to 30 days");
+    }
+
+    const inviteCode = generateSecureCode();
+    const invitationId = await ctx.db.insert("invitations", {
+      groupId: args.groupId,
+      invitedBy: userId,
+      kind: "link",
+      inviteCode,
+      role,
+      status: "pending",
+      expiresAt: Date.now() + expiresInDays * DAY,
+      maxUses: args.maxUses,
+      useCount: 0,
+      createdAt: Date.now(),
+    });
+
+    return { invitationId, inviteCode };
+  },
+});
+
+// Revoke an invitation so it can no longer be used
+export const revokeInvitation = mutation({
+  args: {
+    invitationId: v.id("invitations"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    const invitation = await ctx.db.get(args.invitationId);
+    if (!invitation) throw new Error("Invitation not found");
+
+    const group = await ctx.db.get(invitation.groupId);
+    if (!group || !canManageGroup(await getMemberRole(ctx, group._id, userId))) {
+      throw new Error("Not authorized to manage invitations for this group");
+    }
+
+    await ctx.db.patch(args.invitationId, {
+      status: "revoked",
+    });
+  },
+});
+
+// List a group's invitations for its owner and admins
+export const getGroupInvitations = query({
+  args: {
+    groupId: v.id("groups"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return [];
+
+    const group = await ctx.db.get(args.groupId);
+    if (!group || !canManageGroup(await getMemberRole(ctx, group._id, userId))) {
+      throw new Error("Not authorized to view invitations for this group");
+    }
+
+    const invitations = await ctx.db
+      .query("invitations")
+      .withIndex("by_group", (q) => q.eq("groupId", args.groupId))
+      .order("desc")
+      .collect();
+
+    return Promise.all(
+      invitations.map(async (invitation) => {
+        const isExhausted =
+          invitation.maxUses !== undefined && (invitation.useCount ?? 0) >= invitation.maxUses;
+        return {
+          ...invitation,
+          kind: invitation.kind ?? "email",
+          isActive:
+            invitation.status === "pending" && invitation.expiresAt >= Date.now() && !isExhausted,
+          inviter: await getUserSummary(ctx, invitation.invitedBy),
+        };
+      })
+    );
+  },
+});
+
+// Used by the public invite route to check a code before redirecting into the app
+export const getUsableInvitation = internalQuery({
+  args: {
+    inviteCode: v.string(),
+  },
+  handler: async (ctx, args) => {
+    return await findUsableInvitation(ctx, args.inviteCode);
+  },
+});
@@ -0,0 +1,188 @@
+"use node";
+
+import { v } from "convex/values";
+import { internalAction, ActionCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { Doc, Id } from "./_generated/dataModel";
+import { authCodeEmail, invitationEmail, notificationEmail, RenderedEmail, weeklyDigestEmail } from "./emailTemplates";
+import { notificationContentValidator } from "./notifications";
+import { sendSmtp } from "./smtp";
+
+type EmailKind = Doc<"capturedEmails">["kind"];
+
+interface OutgoingEmail extends RenderedEmail {
+  kind: EmailKind;
+  to: string;
+  unsubscribeUrl?: string;
+}
+
+// Delivers a rendered email
+type Transport = (ctx: ActionCtx, email: OutgoingEmail) => Promise<void>;
+
+const DIGEST_PAGE_SIZE = 100;
+const WEEK = 7 * 24 * 60 * 60 * 1000;
+
+// Available email transports, picked with the EMAIL_TRANSPORT environment variable.
+// "capture" keeps emails in the capturedEmails table so they can be checked in
+// development and tests; "smtp" sends them through the server in SMTP_HOST.
+// Without the setting, only local development captures.
+const transports: Record<string, Transport> = {
+  capture: async (ctx, email) => {
+    await ctx.runMutation(internal.emails.captureEmail, {
+      kind: email.kind,
+      to: email.to,
+      subject: email.subject,
+      html: email.html,
+      text: email.text,
+    });
+  },
+
+  smtp: async (_ctx, email) => {
+    const host = process.env.SMTP_HOST;
+    if (!host) throw new Error("SMTP_HOST is not set");
+
+    const port = Number(process.env.SMTP_PORT || 587);
+    await sendSmtp(
+      {
+        host,
+        port,
+        secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === "true" : port === 465,
+        user: process.env.SMTP_USER,
+        password: process.env.SMTP_PASSWORD,
+      },
+      {
+        from: process.env.EMAIL_FROM || "DayShare <no-reply@dayshare.app>",
+        to: email.to,
+        subject: email.subject,
+        html: email.html,
+        text: email.text,
+        headers: email.unsubscribeUrl
+          ? {
+              "List-Unsubscribe": `<${email.unsubscribeUrl}>`,
+              "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+            }
+          : undefined,
+      }
+    );
+  },
+};
+
+// The app runs locally when SITE_URL is unset or points at this machine
+function isLocalDevelopment() {
+  const siteUrl = process.env.SITE_URL;
+  if (!siteUrl) return true;
+  try {
+    return ["localhost", "127.0.0.1", "[::1]"].includes(new URL(siteUrl).hostname);
+  } catch {
+    return false;
+  }
+}
+
+// Only local development falls back to capturing, so a deployment that forgot the setting
+// doesn't quietly keep sign-in codes in the database instead of sending them
+function getTransport() {
+  const name = process.env.EMAIL_TRANSPORT || (isLocalDevelopment() ? "capture" : undefined);
+  if (!name) {
+    console.error('EMAIL_TRANSPORT is not set, email not sent. Set it to "smtp" (or "capture" for testing).');
+    return undefined;
+  }
+
+  const transport = transports[name];
+  if (!transport) {
+    console.warn(`Unknown email transport "${name}", email not sent`);
+  }
+  return transport;
+}
+
+async function deliver(ctx: ActionCtx, email: OutgoingEmail) {
+  const transport = getTransport();
+  if (!transport) return;
+
+  try {
+    await transport(ctx, email);
+  } catch (error) {
+    console.error(`Failed to send ${email.kind} email:`, error);
+  }
+}
+
+// Sign-in codes are sent while the user waits, so failures reach the sign-in form
+export const sendAuthCodeEmail = internalAction({
+  args: {
+    kind: v.union(v.literal("password_reset"), v.literal("email_verification")),
+    to: v.string(),
+    code: v.string(),
+    expiresAt: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const transport = getTransport();
+    if (!transport) throw new Error("Email is not configured");
+
+    await transport(ctx, {
+      kind: args.kind,
+      to: args.to,
+      ...authCodeEmail({ purpose: args.kind, code: args.code, expiresAt: args.expiresAt }),
+    });
+  },
+});
+
+export const sendInvitationEmail = internalAction({
+  args: {
+    invitationId: v.id("invitations"),
+  },
+  handler: async (ctx, args) => {
+    const data = await ctx.runMutation(internal.emails.prepareInvitationEmail, args);
+    if (!data) return;
+
+    await deliver(ctx, { kind: "invitation", to: data.to, ...invitationEmail(data) });
+  },
+});
+
+export const sendNotificationEmail = internalAction({
+  args: {
+    notification: notificationContentValidator,
+  },
+  handler: async (ctx, args) => {
+    const { userId, type, groupId, entryId, title, message } = args.notification;
+    const data = await ctx.runMutation(internal.emails.prepareNotificationEmail, { userId, type, groupId, entryId });
+    if (!data) return;
+
+    await deliver(ctx, {
+      kind: "notification",
+      to: data.to,
+      unsubscribeUrl: data.unsubscribeUrl,
+      ...notificationEmail({ ...data, title, message }),
+    });
+  },
+});
+
+// Weekly summary of new entries for everyone with an email address
+export const sendWeeklyDigests = internalAction({
+  args: {},
+  handler: async (ctx) => {
+    const since = Date.now() - WEEK;
+    let cursor: string | null = null;
+    let isDone = false;
+
+    while (!isDone) {
+      const result: { page: Id<"users">[]; continueCursor: string; isDone: boolean } =
+        await ctx.runQuery(internal.emails.listDigestRecipients, {
+          paginationOpts: { numItems: DIGEST_PAGE_SIZE, cursor },
+        });
+
+      for (const userId of result.page) {
+        const data = await ctx.runMutation(internal.emails.prepareWeeklyDigest, { userId, since });
+        if (!data) continue;
+
+        await deliver(ctx, {
+          kind: "weekly_digest",
+          to: data.to,
+          unsubscribeUrl: data.unsubscribeUrl,
+          ...weeklyDigestEmail(data),
+        });
+      }
+
+      cursor = result.continueCursor;
+      isDone = result.isDone;
+    }
+  },
+});
@@ -0,0 +1,162 @@
+// A small Markdown subset for diary entries, shared by the app and the HTML export. It is
+// parsed into a tree that each side renders itself (React elements, or escaped HTML), so
+// raw HTML in entries is never interpreted.
+
+export type InlineNode =
+  | { type: "text"; text: string }
+  | { type: "strong" | "em" | "del"; children: InlineNode[] }
+  | { type: "code"; text: string }
+  | { type: "link"; href: string; children: InlineNode[] }
+  | { type: "break" };
+
+export type BlockNode =
+  | { type: "heading"; level: 1 | 2 | 3; children: InlineNode[] }
+  | { type: "paragraph"; children: InlineNode[] }
+  | { type: "list"; ordered: boolean; items: InlineNode[][] }
+  | { type: "quote"; children: InlineNode[] }
+  | { type: "codeBlock"; text: string }
+  | { type: "rule" };
+
+const LIST_ITEM = /^\s*([-*+]|\d+[.)])\s+/;
+
+export function parseMarkdown(source: string): BlockNode[] {
+  const lines = source.replace(/\r\n?/g, "\n").split("\n");
+  const blocks: BlockNode[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+    } else if (line.trim().startsWith("```")) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith("```")) {
+        code.push(lines[i++]);
+      }
+      i++;
+      blocks.push({ type: "codeBlock", text: code.join("\n") });
+    } else if (/^#{1,3}\s+/.test(line)) {
+      const level = line.match(/^#+/)![0].length as 1 | 2 | 3;
+      blocks.push({ type: "heading", level, children: parseInline(line.replace(/^#+\s+/, "")) });
+      i++;
+    } else if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      blocks.push({ type: "rule" });
+      i++;
+    } else if (/^\s*>/.test(line)) {
+      const quote: string[] = [];
+      while (i < lines.length && /^\s*>/.test(lines[i])) {
+        quote.push(lines[i++].replace(/^\s*>\s?/, ""));
+      }
+      blocks.push({ type: "quote", children: parseLines(quote) });
+    } else if (LIST_ITEM.test(line)) {
+      const ordered = /^\s*\d/.test(line);
+      const items: InlineNode[][] = [];
+      while (i < lines.length && LIST_ITEM.test(lines[i])) {
+        items.push(parseInline(lines[i++].replace(LIST_ITEM, "")));
+      }
+      blocks.push({ type: "list", ordered, items });
+    } else {
+      const paragraph: string[] = [];
+      while (
+        i < lines.length &&
+        lines[i].trim() &&
+        !/^(#{1,3}\s|\s*>|```)/.test(lines[i]) &&
+        !LIST_ITEM.test(lines[i])
+      ) {
+        paragraph.push(lines[i++]);
+      }
+      blocks.push({ type: "paragraph", children: parseLines(paragraph) });
+    }
+  }
+
+  return blocks;
+}
+
+// Join lines with explicit breaks, since diary entries rely on their line breaks
+function parseLines(lines: string[]): InlineNode[] {
+  return lines.flatMap((line, index) =>
+    index === 0 ? parseInline(line) : [{ type: "break" as const }, ...parseInline(line)]
+  );
+}
+
+const INLINE_PATTERNS: { regex: RegExp; build: (match: RegExpExecArray) => InlineNode | null }[] = [
+  { regex: /`([^`]+)`/, build: (m) => ({ type: "code", text: m[1] }) },
+  { regex: /\*\*(.+?)\*\*|__(.+?)__/, build: (m) => ({ type: "strong", children: parseInline(m[1] ?? m[2]) }) },
+  { regex: /~~(.+?)~~/, build: (m) => ({ type: "del", children: parseInline(m[1]) }) },
+  { regex: /\*(\S(?:.*?\S)?)\*|\b_(\S(?:.*?\S)?)_\b/, build: (m) => ({ type: "em", children: parseInline(m[1] ?? m[2]) }) },
+  {
+    regex: /\[([^\]]+)\]\(([^)\s]+)\)/,
+    build: (m) => {
+      const href = safeHref(m[2]);
+      return href ? { type: "link", href, children: parseInline(m[1]) } : null;
+    },
+  },
+];
+
+export function parseInline(text: string): InlineNode[] {
+  // Find the earliest match of any inline pattern and recurse around it
+  let best: { index: number; length: number; node: InlineNode | null } | null = null;
+  for (const { regex, build } of INLINE_PATTERNS) {
+    const match = regex.exec(text);
+    if (match && (!best || match.index < best.index)) {
+      best = { index: match.index, length: match[0].length, node: build(match) };
+    }
+  }
+
+  if (!best) return text ? [{ type: "text", text }] : [];
+
+  const before = text.slice(0, best.index);
+  const matched = text.slice(best.index, best.index + best.length);
+  const after = text.slice(best.index + best.length);
+  return [
+    ...(before ? [{ type: "text" as const, text: before }] : []),
+    best.node ?? { type: "text", text: matched },
+    ...parseInline(after),
+  ];
+}
+
+// Only allow links that cannot run script
+function safeHref(href: string) {
+  try {
+    const url = new URL(href, "https://invalid.example");
+    return ["http:", "https:", "mailto:"].includes(url.protocol) && /^(https?:|mailto:)/i.test(href)
+      ? href
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+// Plain-text version for previews, titles and snippets
+export function markdownToPlainText(source: string) {
+  const inlineText = (nodes: InlineNode[]): string =>
+    nodes
+      .map((node) =>
+        node.type === "text" || node.type === "code"
+          ? node.text
+          : node.type === "break"
+            ? " "
+            : inlineText(node.children)
+      )
+      .join("");
+
+  return parseMarkdown(source)
+    .map((block) =>
+      block.type === "list"
+        ? block.items.map(inlineText).join(" ")
+        : block.type === "codeBlock"
+          ? block.text
+          : block.type === "rule"
+            ? ""
+            : inlineText(block.children)
+    )
+    .filter(Boolean)
+    .join(" ");
+}
+
+// Preview text for an entry in either format
+export function toPlainText(entry: { content: string; contentFormat?: "plain" | "markdown" }) {
+  return entry.contentFormat === "markdown" ? markdownToPlainText(entry.content) : entry.content;
+}
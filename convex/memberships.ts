@@ -0,0 +1,89 @@
+import { v } from "convex/values";
+import { internalMutation, MutationCtx, QueryCtx } from "./_generated/server";
+import { Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+import { GroupRole } from "./roles";
+
+const MIGRATION_BATCH_SIZE = 100;
+
+// A user's membership row in a group, or null if they are not a member
+export async function getMembership(ctx: QueryCtx, groupId: Id<"groups">, userId: Id<"users">) {
+  return await ctx.db
+    .query("groupMembers")
+    .withIndex("by_group_and_user", (q) => q.eq("groupId", groupId).eq("userId", userId))
+    .unique();
+}
+
+export async function getMemberRole(ctx: QueryCtx, groupId: Id<"groups">, userId: Id<"users">) {
+  return (await getMembership(ctx, groupId, userId))?.role ?? null;
+}
+
+export async function isMember(ctx: QueryCtx, groupId: Id<"groups">, userId: Id<"users">) {
+  return (await getMembership(ctx, groupId, userId)) !== null;
+}
+
+// A group's members, longest-standing first
+export async function getGroupMembers(ctx: QueryCtx, groupId: Id<"groups">) {
+  return await ctx.db
+    .query("groupMembers")
+    .withIndex("by_group", (q) => q.eq("groupId", groupId))
+    .collect();
+}
+
+// The memberships of a user across all their groups
+export async function getUserMemberships(ctx: QueryCtx, userId: Id<"users">) {
+  return await ctx.db
+    .query("groupMembers")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .collect();
+}
+
+export async function addMember(ctx: MutationCtx, groupId: Id<"groups">, userId: Id<"users">, role: GroupRole) {
+  await ctx.db.insert("groupMembers", { groupId, userId, role, joinedAt: Date.now() });
+}
+
+// Move membership from the `members`, `memberRoles` and `turnOrder` fields of each group
+// into groupMembers, a batch at a time. Run once after deploying:
+// `npx convex run memberships:migrateGroupMembers`. Groups that are already migrated are skipped.
+export const migrateGroupMembers = internalMutation({
+  args: {
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  handler: async (ctx, args) => {
+    const result = await ctx.db
+      .query("groups")
+      .paginate({ numItems: MIGRATION_BATCH_SIZE, cursor: args.cursor ?? null });
+
+    let migrated = 0;
+    for (const group of result.page) {
+      if (group.members === undefined && group.memberRoles === undefined) continue;
+
+      // Everyone in the turn order writes in the group, even if `members` missed them
+      const userIds = new Set([...(group.members ?? []), ...group.turnOrder]);
+      for (const userId of userIds) {
+        if (await getMembership(ctx, group._id, userId)) continue;
+
+        // Groups created before roles existed: creator = owner, everyone else = writer
+        const role =
+          group.memberRoles?.find((r) => r.userId === userId)?.role ??
+          (group.createdBy === userId ? "owner" : "writer");
+        await ctx.db.insert("groupMembers", {
+          groupId: group._id,
+          userId,
+          role,
+          joinedAt: group._creationTime,
+        });
+      }
+
+      await ctx.db.patch(group._id, { members: undefined, memberRoles: undefined });
+      migrated++;
+    }
+
+    if (!result.isDone) {
+      await ctx.scheduler.runAfter(0, internal.memberships.migrateGroupMembers, {
+        cursor: result.continueCursor,
+      });
+    }
+    return { migrated };
+  },
+});
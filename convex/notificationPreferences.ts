@@ -0,0 +1,219 @@
+import { v } from "convex/values";
+import { query, mutation, QueryCtx, MutationCtx } from "./_generated/server";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { notificationTypeValidator } from "./schema";
+import { getTimezone } from "./profiles";
+import { isMember } from "./memberships";
+
+type NotificationType = Doc<"notifications">["type"];
+type Channels = Doc<"notificationPreferences">["channels"][number];
+type Channel = "inApp" | "push" | "email";
+
+const DAY_MINUTES = 24 * 60;
+
+export const NOTIFICATION_TYPES: NotificationType[] = [
+  "your_turn",
+  "journal_passed",
+  "new_member",
+  "invitation_received",
+  "entry_comment",
+  "entry_reaction",
+  "member_removed",
+];
+
+// Everything shows in the app and is pushed; only turn notices are emailed
+function defaultChannels(type: NotificationType): Channels {
+  return { type, inApp: true, push: true, email: type === "your_turn" };
+}
+
+async function getPreferencesRow(ctx: QueryCtx, userId: Id<"users">, groupId?: Id<"groups">) {
+  return ctx.db
+    .query("notificationPreferences")
+    .withIndex("by_user_and_group", (q) => q.eq("userId", userId).eq("groupId", groupId))
+    .first();
+}
+
+// Minutes after midnight right now in the given timezone
+function minutesInTimezone(now: number, timezone: string) {
+  try {
+    const parts = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      hour: "numeric",
+      minute: "numeric",
+      hourCycle: "h23",
+    }).formatToParts(new Date(now));
+    const hour = Number(parts.find((part) => part.type === "hour")?.value ?? 0);
+    const minute = Number(parts.find((part) => part.type === "minute")?.value ?? 0);
+    return hour * 60 + minute;
+  } catch {
+    // Unknown timezone names fall back to UTC
+    const date = new Date(now);
+    return date.getUTCHours() * 60 + date.getUTCMinutes();
+  }
+}
+
+// How long to hold push and email so they arrive after quiet hours; 0 outside them.
+// Windows may wrap past midnight, e.g. 22:00 to 07:00.
+export function quietHoursDelay(
+  quietHours: { start: number; end: number } | undefined,
+  timezone: string | undefined,
+  now = Date.now()
+) {
+  if (!quietHours || quietHours.start === quietHours.end) return 0;
+
+  const minutes = minutesInTimezone(now, timezone ?? "UTC");
+  const { start, end } = quietHours;
+  const isQuiet = start < end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+  if (!isQuiet) return 0;
+
+  return ((end - minutes + DAY_MINUTES) % DAY_MINUTES) * 60 * 1000;
+}
+
+// Decide how a notification reaches the user: group overrides win over the user's
+// defaults, which win over the built-in defaults
+export async function resolveDelivery(
+  ctx: QueryCtx,
+  userId: Id<"users">,
+  groupId: Id<"groups"> | undefined,
+  type: NotificationType
+) {
+  const defaults = await getPreferencesRow(ctx, userId);
+  const groupPreferences = groupId ? await getPreferencesRow(ctx, userId, groupId) : null;
+  const channels =
+    groupPreferences?.channels.find((entry) => entry.type === type) ??
+    defaults?.channels.find((entry) => entry.type === type) ??
+    defaultChannels(type);
+
+  return {
+    inApp: channels.inApp,
+    push: channels.push,
+    email: channels.email,
+    // Rows not migrated yet still hold the timezone quiet hours were set in
+    delay: quietHoursDelay(defaults?.quietHours, (await getTimezone(ctx, userId)) ?? defaults?.timezone),
+  };
+}
+
+// Turn one channel on or off for a type, in the user's defaults or for one group
+export async function setChannelPreference(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  groupId: Id<"groups"> | undefined,
+  type: NotificationType,
+  channel: Channel,
+  enabled: boolean
+) {
+  const row = await getPreferencesRow(ctx, userId, groupId);
+  // A group override starts from what currently applies in that group
+  const current =
+    row?.channels.find((entry) => entry.type === type) ??
+    (groupId ? (await getPreferencesRow(ctx, userId))?.channels.find((entry) => entry.type === type) : null) ??
+    defaultChannels(type);
+  const updated = { ...current, [channel]: enabled };
+
+  if (row) {
+    await ctx.db.patch(row._id, {
+      channels: [...row.channels.filter((entry) => entry.type !== type), updated],
+    });
+  } else {
+    await ctx.db.insert("notificationPreferences", { userId, groupId, channels: [updated] });
+  }
+}
+
+// The settings that apply to the user's defaults, or to one group
+export const getNotificationPreferences = query({
+  args: {
+    groupId: v.optional(v.id("groups")),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return null;
+
+    const defaults = await getPreferencesRow(ctx, userId);
+    const groupPreferences = args.groupId ? await getPreferencesRow(ctx, userId, args.groupId) : null;
+
+    return {
+      channels: NOTIFICATION_TYPES.map((type) => {
+        const override = groupPreferences?.channels.find((entry) => entry.type === type);
+        return {
+          ...(override ?? defaults?.channels.find((entry) => entry.type === type) ?? defaultChannels(type)),
+          isOverride: Boolean(override),
+        };
+      }),
+      quietHours: defaults?.quietHours ?? null,
+      timezone: (await getTimezone(ctx, userId)) ?? defaults?.timezone ?? null,
+    };
+  },
+});
+
+export const setNotificationChannel = mutation({
+  args: {
+    groupId: v.optional(v.id("groups")),
+    type: notificationTypeValidator,
+    channel: v.union(v.literal("inApp"), v.literal("push"), v.literal("email")),
+    enabled: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    if (args.groupId) {
+      const group = await ctx.db.get(args.groupId);
+      if (!group || !(await isMember(ctx, group._id, userId))) {
+        throw new Error("Group not found");
+      }
+    }
+
+    await setChannelPreference(ctx, userId, args.groupId, args.type, args.channel, args.enabled);
+  },
+});
+
+// Go back to the user's defaults in one group
+export const resetGroupPreferences = mutation({
+  args: {
+    groupId: v.id("groups"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    const row = await getPreferencesRow(ctx, userId, args.groupId);
+    if (row) {
+      await ctx.db.delete(row._id);
+    }
+  },
+});
+
+// Quiet hours are in the timezone from the user's profile
+export const setQuietHours = mutation({
+  args: {
+    quietHours: v.union(
+      v.object({
+        start: v.number(),
+        end: v.number(),
+      }),
+      v.null()
+    ),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    const { quietHours } = args;
+    if (
+      quietHours &&
+      [quietHours.start, quietHours.end].some(
+        (minutes) => !Number.isInteger(minutes) || minutes < 0 || minutes >= DAY_MINUTES
+      )
+    ) {
+      throw new Error("Quiet hours must be times of day");
+    }
+
+    const row = await getPreferencesRow(ctx, userId);
+    if (row) {
+      await ctx.db.patch(row._id, { quietHours: quietHours ?? undefined });
+    } else {
+      await ctx.db.insert("notificationPreferences", { userId, channels: [], quietHours: quietHours ?? undefined });
+    }
+  },
+});
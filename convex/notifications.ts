@@ -1,35 +1,120 @@
-import { v } from "convex/values";
-import { query, mutation } from "./_generated/server";
+import { v, Infer } from "convex/values";
+import { paginationOptsValidator } from "convex/server";
+import { query, mutation, internalMutation, QueryCtx, MutationCtx } from "./_generated/server";
 import { getAuthUserId } from "@convex-dev/auth/server";
+import { internal } from "./_generated/api";
+import { Id } from "./_generated/dataModel";
+import { notificationTypeValidator } from "./schema";
+import { resolveDelivery } from "./notificationPreferences";
+import { isMember } from "./memberships";
 
-// Get user notifications
+// A notification as it is handed to the push and email senders
+export const notificationContentValidator = v.object({
+  userId: v.id("users"),
+  type: notificationTypeValidator,
+  title: v.string(),
+  message: v.string(),
+  groupId: v.optional(v.id("groups")),
+  entryId: v.optional(v.id("entries")),
+});
+
+type NewNotification = Infer<typeof notificationContentValidator>;
+
+const NOTIFICATION_RETENTION = 90 * 24 * 60 * 60 * 1000;
+const DELETE_BATCH_SIZE = 200;
+
+// App link that opens the notification's group and entry, see src/lib/deepLink.ts
+export function notificationPath(groupId?: Id<"groups">, entryId?: Id<"entries">) {
+  if (!groupId) return "/";
+  const params = new URLSearchParams({ group: groupId });
+  if (entryId) params.set("entry", entryId);
+  return `/?${params.toString()}`;
+}
+
+// Deliver a notification through the channels the user chose for its type: a row for
+// the in-app list, a push to their devices and an email. Push and email wait for the
+// end of the user's quiet hours.
+export async function createNotification(ctx: MutationCtx, notification: NewNotification) {
+  const delivery = await resolveDelivery(ctx, notification.userId, notification.groupId, notification.type);
+
+  if (delivery.push) {
+    await ctx.scheduler.runAfter(delivery.delay, internal.push.sendPushNotification, { notification });
+  }
+  if (delivery.email) {
+    await ctx.scheduler.runAfter(delivery.delay, internal.mailer.sendNotificationEmail, { notification });
+  }
+  if (!delivery.inApp) return null;
+
+  return await ctx.db.insert("notifications", {
+    ...notification,
+    isRead: false,
+    createdAt: Date.now(),
+  });
+}
+
+// Where a notification leads: its group, and the entry when there is one. Null when the
+// user can no longer see the group; the entry is left out once it has been deleted.
+async function resolveLink(
+  ctx: QueryCtx,
+  userId: Id<"users">,
+  groupId: Id<"groups"> | undefined,
+  entryId: Id<"entries"> | undefined
+) {
+  const group = groupId ? await ctx.db.get(groupId) : null;
+  if (!group || !group.isActive || !(await isMember(ctx, group._id, userId))) return null;
+
+  const entry = entryId ? await ctx.db.get(entryId) : null;
+  const isVisible = entry && entry.groupId === group._id && !entry.deletedAt;
+  return {
+    groupId: group._id,
+    groupName: group.name,
+    entry: isVisible ? { entryId: entry._id, entryDate: entry.entryDate } : null,
+  };
+}
+
+// Get user notifications, newest first
 export const getUserNotifications = query({
   args: {
-    limit: v.optional(v.number()),
+    paginationOpts: paginationOptsValidator,
   },
   handler: async (ctx, args) => {
     const userId = await getAuthUserId(ctx);
-    if (!userId) return [];
+    if (!userId) return { page: [], isDone: true, continueCursor: "" };
 
-    const notifications = await ctx.db
+    const result = await ctx.db
       .query("notifications")
       .withIndex("by_user", (q) => q.eq("userId", userId))
       .order("desc")
-      .take(args.limit || 20);
-
-    return Promise.all(
-      notifications.map(async (notification) => {
-        let group = null;
-        if (notification.groupId) {
-          group = await ctx.db.get(notification.groupId);
-        }
+      .paginate(args.paginationOpts);
 
+    const page = await Promise.all(
+      result.page.map(async (notification) => {
+        const group = notification.groupId ? await ctx.db.get(notification.groupId) : null;
         return {
           ...notification,
           group: group ? { _id: group._id, name: group.name } : null,
+          link: await resolveLink(ctx, userId, notification.groupId, notification.entryId),
         };
       })
     );
+
+    return { ...result, page };
+  },
+});
+
+// Resolve a `?group=&entry=` link opened from a push notification
+export const getLinkTarget = query({
+  args: {
+    groupId: v.string(),
+    entryId: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return null;
+
+    const groupId = ctx.db.normalizeId("groups", args.groupId);
+    const entryId = args.entryId ? ctx.db.normalizeId("entries", args.entryId) : null;
+    return resolveLink(ctx, userId, groupId ?? undefined, entryId ?? undefined);
   },
 });
 
@@ -88,3 +173,78 @@ export const markAllAsRead = mutation({
     }
   },
 });
+
+export const deleteNotification = mutation({
+  args: {
+    notificationId: v.id("notifications"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    const notification = await ctx.db.get(args.notificationId);
+    if (!notification || notification.userId !== userId) {
+      throw new Error("Notification not found");
+    }
+
+    await ctx.db.delete(args.notificationId);
+  },
+});
+
+// Delete every notification the user has; long lists are finished in the background
+export const clearAllNotifications = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    await deleteUserNotifications(ctx, userId, Date.now());
+  },
+});
+
+async function deleteUserNotifications(ctx: MutationCtx, userId: Id<"users">, before: number) {
+  const notifications = await ctx.db
+    .query("notifications")
+    .withIndex("by_user", (q) => q.eq("userId", userId).lt("_creationTime", before))
+    .take(DELETE_BATCH_SIZE);
+
+  for (const notification of notifications) {
+    await ctx.db.delete(notification._id);
+  }
+
+  if (notifications.length === DELETE_BATCH_SIZE) {
+    await ctx.scheduler.runAfter(0, internal.notifications.continueClearing, { userId, before });
+  }
+}
+
+export const continueClearing = internalMutation({
+  args: {
+    userId: v.id("users"),
+    before: v.number(),
+  },
+  handler: async (ctx, args) => {
+    await deleteUserNotifications(ctx, args.userId, args.before);
+  },
+});
+
+// Delete notifications older than the retention period
+export const pruneOldNotifications = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const cutoff = Date.now() - NOTIFICATION_RETENTION;
+    const stale = await ctx.db
+      .query("notifications")
+      .withIndex("by_creation_time", (q) => q.lt("_creationTime", cutoff))
+      .take(DELETE_BATCH_SIZE);
+
+    for (const notification of stale) {
+      await ctx.db.delete(notification._id);
+    }
+
+    // Keep going until the backlog is gone
+    if (stale.length === DELETE_BATCH_SIZE) {
+      await ctx.scheduler.runAfter(0, internal.notifications.pruneOldNotifications, {});
+    }
+    return { deleted: stale.length };
+  },
+});
@@ -0,0 +1,406 @@
+import { v } from "convex/values";
+import { paginationOptsValidator } from "convex/server";
+import { mutation, internalAction, internalMutation, internalQuery, MutationCtx, QueryCtx } from "./_generated/server";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { internal } from "./_generated/api";
+import { Doc, Id } from "./_generated/dataModel";
+import { canWrite } from "./roles";
+import { getMemberRole } from "./memberships";
+
+const ALLOWED_PHOTO_TYPES = ["image/jpeg", "image/png", "image/webp", "image/gif"];
+const MAX_PHOTO_SIZE = 10 * 1024 * 1024;
+export const MAX_PHOTOS_PER_ENTRY = 10;
+
+// Formats MediaRecorder produces across browsers
+const ALLOWED_AUDIO_TYPES = ["audio/webm", "audio/ogg", "audio/mp4", "audio/mpeg", "audio/wav"];
+const MAX_AUDIO_SIZE = 20 * 1024 * 1024;
+const MAX_AUDIO_DURATION = 10 * 60;
+const MAX_CAPTION_LENGTH = 300;
+
+// Files are registered straight after uploading; older ones may already belong to someone
+const REGISTRATION_WINDOW = 60 * 60 * 1000;
+
+// Uploads left unused for this long are treated as abandoned
+const ORPHAN_RETENTION = 24 * 60 * 60 * 1000;
+const CLEANUP_BATCH_SIZE = 200;
+const SWEEP_PAGE_SIZE = 500;
+
+// Validate a file uploaded through `generateUploadUrl` and record it for the uploader.
+// Without a group the upload is an avatar, claimed by `profiles.setAvatar`. Invalid files
+// are deleted straight away.
+export const registerUpload = mutation({
+  args: {
+    groupId: v.optional(v.id("groups")),
+    storageId: v.id("_storage"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    if (args.groupId) {
+      const group = await ctx.db.get(args.groupId);
+      if (!group || !canWrite(await getMemberRole(ctx, group._id, userId))) {
+        throw new Error("Not authorized to upload to this group");
+      }
+    }
+
+    const existing = await ctx.db
+      .query("pendingUploads")
+      .withIndex("by_storage_id", (q) => q.eq("storageId", args.storageId))
+      .first();
+    if (existing) throw new Error("Upload already registered");
+
+    // Someone else's published photo or recording is never a new upload
+    const file = await ctx.db.system.get(args.storageId);
+    if (!file || file._creationTime < Date.now() - REGISTRATION_WINDOW || (await isAttached(ctx, args.storageId))) {
+      throw new Error("Upload not found");
+    }
+
+    // Recorders report types such as "audio/webm;codecs=opus"
+    const contentType = (file.contentType ?? "").split(";")[0].trim().toLowerCase();
+    const isAudio = ALLOWED_AUDIO_TYPES.includes(contentType);
+    if (isAudio && !args.groupId) {
+      await ctx.storage.delete(args.storageId);
+      throw new Error("Avatars must be JPEG, PNG, WebP or GIF images");
+    }
+    if (!isAudio && !ALLOWED_PHOTO_TYPES.includes(contentType)) {
+      await ctx.storage.delete(args.storageId);
+      throw new Error("Only JPEG, PNG, WebP and GIF images or audio recordings can be uploaded");
+    }
+    if (file.size > (isAudio ? MAX_AUDIO_SIZE : MAX_PHOTO_SIZE)) {
+      await ctx.storage.delete(args.storageId);
+      throw new Error(isAudio ? "Recordings must be smaller than 20 MB" : "Photos must be smaller than 10 MB");
+    }
+
+    await ctx.db.insert("pendingUploads", {
+      storageId: args.storageId,
+      userId,
+      groupId: args.groupId,
+      contentType,
+      size: file.size,
+    });
+
+    return { storageId: args.storageId, url: await ctx.storage.getUrl(args.storageId) };
+  },
+});
+
+// Check that every photo is either already attached (`attached`) or a pending upload
+// made by this user for this group. Returns the pending uploads that were used.
+export async function checkPhotos(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  groupId: Id<"groups">,
+  photos: Id<"_storage">[],
+  attached: Id<"_storage">[] = []
+) {
+  if (photos.length > MAX_PHOTOS_PER_ENTRY) {
+    throw new Error(`Add at most ${MAX_PHOTOS_PER_ENTRY} photos`);
+  }
+  if (new Set(photos).size !== photos.length) {
+    throw new Error("The same photo was added twice");
+  }
+
+  const pending: Doc<"pendingUploads">[] = [];
+  for (const storageId of photos) {
+    if (attached.includes(storageId)) continue;
+
+    const upload = await findPendingUpload(ctx, userId, groupId, storageId);
+    if (!upload?.contentType.startsWith("image/")) {
+      throw new Error("Photo not found");
+    }
+    pending.push(upload);
+  }
+  return pending;
+}
+
+async function findPendingUpload(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  groupId: Id<"groups">,
+  storageId: Id<"_storage">
+) {
+  const upload = await ctx.db
+    .query("pendingUploads")
+    .withIndex("by_storage_id", (q) => q.eq("storageId", storageId))
+    .first();
+  return upload && upload.userId === userId && upload.groupId === groupId ? upload : null;
+}
+
+// Like `checkPhotos`, but hands the photos over to a published entry so they are
+// no longer candidates for cleanup. Attached photos (e.g. from the draft being
+// published) may still have a pending upload, which is removed as well.
+export async function claimPhotos(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  groupId: Id<"groups">,
+  photos: Id<"_storage">[],
+  attached: Id<"_storage">[] = []
+) {
+  await checkPhotos(ctx, userId, groupId, photos, attached);
+  for (const storageId of photos) {
+    await attachFile(ctx, storageId);
+  }
+}
+
+async function isAttached(ctx: QueryCtx, storageId: Id<"_storage">) {
+  const attached = await ctx.db
+    .query("attachedFiles")
+    .withIndex("by_storage_id", (q) => q.eq("storageId", storageId))
+    .first();
+  return attached !== null;
+}
+
+// Swap a file's pending upload for an attachedFiles row
+export async function attachFile(ctx: MutationCtx, storageId: Id<"_storage">) {
+  const upload = await ctx.db
+    .query("pendingUploads")
+    .withIndex("by_storage_id", (q) => q.eq("storageId", storageId))
+    .first();
+  if (upload) await ctx.db.delete(upload._id);
+
+  if (!(await isAttached(ctx, storageId))) {
+    await ctx.db.insert("attachedFiles", { storageId });
+  }
+}
+
+// Check a voice memo the same way, returning its pending upload unless it is already attached
+export async function checkAudio(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  groupId: Id<"groups">,
+  audio: { storageId: Id<"_storage">; duration: number } | undefined,
+  attached?: Id<"_storage">
+) {
+  if (!audio || audio.storageId === attached) return null;
+
+  if (audio.duration <= 0 || audio.duration > MAX_AUDIO_DURATION) {
+    throw new Error("Recordings can be at most 10 minutes long");
+  }
+
+  const upload = await findPendingUpload(ctx, userId, groupId, audio.storageId);
+  if (!upload?.contentType.startsWith("audio/")) {
+    throw new Error("Recording not found");
+  }
+  return upload;
+}
+
+export async function claimAudio(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  groupId: Id<"groups">,
+  audio: { storageId: Id<"_storage">; duration: number } | undefined,
+  attached?: Id<"_storage">
+) {
+  await checkAudio(ctx, userId, groupId, audio, attached);
+  if (audio) await attachFile(ctx, audio.storageId);
+}
+
+// Keep captions only for photos that are still attached, trimmed and non-empty
+export function normalizeCaptions(
+  photos: Id<"_storage">[],
+  captions: { storageId: Id<"_storage">; caption: string }[] = []
+) {
+  const normalized = captions
+    .filter(({ storageId }) => photos.includes(storageId))
+    .map(({ storageId, caption }) => ({ storageId, caption: caption.trim() }))
+    .filter(({ caption }) => caption);
+
+  if (normalized.some(({ caption }) => caption.length > MAX_CAPTION_LENGTH)) {
+    throw new Error(`Captions must be at most ${MAX_CAPTION_LENGTH} characters`);
+  }
+  return normalized.length > 0 ? normalized : undefined;
+}
+
+// Files in the uploader's drafts and in their entries (and earlier versions of them)
+// in a group
+async function getUsedFiles(ctx: MutationCtx, userId: Id<"users">, groupId: Id<"groups">) {
+  const inDrafts = new Set<Id<"_storage">>();
+  const inEntries = new Set<Id<"_storage">>();
+  const collect = (
+    files: Set<Id<"_storage">>,
+    doc: { photos?: Id<"_storage">[]; audio?: { storageId: Id<"_storage"> } }
+  ) => {
+    for (const storageId of doc.photos ?? []) files.add(storageId);
+    if (doc.audio) files.add(doc.audio.storageId);
+  };
+
+  const drafts = await ctx.db
+    .query("drafts")
+    .withIndex("by_group_and_author", (q) => q.eq("groupId", groupId).eq("authorId", userId))
+    .collect();
+  drafts.forEach((draft) => collect(inDrafts, draft));
+
+  const entries = await ctx.db
+    .query("entries")
+    .withIndex("by_author", (q) => q.eq("authorId", userId))
+    .filter((q) => q.eq(q.field("groupId"), groupId))
+    .collect();
+  for (const entry of entries) {
+    collect(inEntries, entry);
+    const revisions = await ctx.db
+      .query("entryRevisions")
+      .withIndex("by_entry", (q) => q.eq("entryId", entry._id))
+      .collect();
+    revisions.forEach((revision) => collect(inEntries, revision));
+  }
+
+  return { inDrafts, inEntries };
+}
+
+// Delete uploads that were never published and are no longer in any of the uploader's
+// drafts. Pages through every stale upload so the ones kept for drafts can't block the rest.
+export const cleanupOrphanedUploads = internalMutation({
+  args: {
+    cursor: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const cutoff = Date.now() - ORPHAN_RETENTION;
+    const { page, continueCursor, isDone } = await ctx.db
+      .query("pendingUploads")
+      .withIndex("by_creation_time", (q) => q.lt("_creationTime", cutoff))
+      .paginate({ numItems: CLEANUP_BATCH_SIZE, cursor: args.cursor ?? null });
+
+    const usedFiles = new Map<string, Awaited<ReturnType<typeof getUsedFiles>>>();
+    let deleted = 0;
+    for (const upload of page) {
+      // Avatar uploads have no group; setAvatar claims them right away
+      const groupId = upload.groupId;
+      const key = `${upload.userId}:${groupId}`;
+      if (groupId && !usedFiles.has(key)) {
+        usedFiles.set(key, await getUsedFiles(ctx, upload.userId, groupId));
+      }
+      const { inDrafts, inEntries } = usedFiles.get(key) ?? { inDrafts: new Set(), inEntries: new Set() };
+      // Entries by anyone count, not only the uploader's own
+      const inUse = inEntries.has(upload.storageId) || (await isAttached(ctx, upload.storageId));
+      if (inDrafts.has(upload.storageId) && !inUse) continue;
+
+      // Files already in an entry are kept; only their leftover upload row goes
+      if (!inUse && (await ctx.db.system.get(upload.storageId))) {
+        await ctx.storage.delete(upload.storageId);
+        deleted++;
+      }
+      await ctx.db.delete(upload._id);
+    }
+
+    if (!isDone) {
+      await ctx.scheduler.runAfter(0, internal.photos.cleanupOrphanedUploads, { cursor: continueCursor });
+    }
+    return { deleted };
+  },
+});
+
+const fileReferenceTableValidator = v.union(
+  v.literal("drafts"),
+  v.literal("entries"),
+  v.literal("entryRevisions"),
+  v.literal("profiles")
+);
+
+// Stored files older than the retention period that have no pending upload, one page at a time
+export const listUnregisteredFiles = internalQuery({
+  args: {
+    before: v.number(),
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, args) => {
+    const result = await ctx.db.system
+      .query("_storage")
+      .withIndex("by_creation_time", (q) => q.lt("_creationTime", args.before))
+      .paginate(args.paginationOpts);
+
+    const page: Id<"_storage">[] = [];
+    for (const file of result.page) {
+      const upload = await ctx.db
+        .query("pendingUploads")
+        .withIndex("by_storage_id", (q) => q.eq("storageId", file._id))
+        .first();
+      if (!upload && !(await isAttached(ctx, file._id))) page.push(file._id);
+    }
+    return { ...result, page };
+  },
+});
+
+// Storage ids used by one page of a table that can hold files
+export const listFileReferences = internalQuery({
+  args: {
+    table: fileReferenceTableValidator,
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, args) => {
+    if (args.table === "profiles") {
+      const result = await ctx.db.query("profiles").paginate(args.paginationOpts);
+      return { ...result, page: result.page.flatMap((profile) => (profile.avatarId ? [profile.avatarId] : [])) };
+    }
+
+    const result = await ctx.db.query(args.table).paginate(args.paginationOpts);
+    return {
+      ...result,
+      page: result.page.flatMap((doc) => [...(doc.photos ?? []), ...(doc.audio ? [doc.audio.storageId] : [])]),
+    };
+  },
+});
+
+export const deleteUnreferencedFiles = internalMutation({
+  args: {
+    storageIds: v.array(v.id("_storage")),
+  },
+  handler: async (ctx, args) => {
+    for (const storageId of args.storageIds) {
+      // Registered or attached since the sweep started: `cleanupOrphanedUploads` decides, or it stays
+      const upload = await ctx.db
+        .query("pendingUploads")
+        .withIndex("by_storage_id", (q) => q.eq("storageId", storageId))
+        .first();
+      if (!upload && !(await isAttached(ctx, storageId)) && (await ctx.db.system.get(storageId))) {
+        await ctx.storage.delete(storageId);
+      }
+    }
+  },
+});
+
+// Delete stored files nothing refers to, such as uploads that were never registered.
+// Candidates are listed first: without a pending upload they can't be attached afterwards.
+// Drafts are read before entries and entries before revisions, so a file moving from one to
+// the next while the sweep runs is still seen.
+export const sweepUnreferencedFiles = internalAction({
+  args: {},
+  handler: async (ctx) => {
+    const before = Date.now() - ORPHAN_RETENTION;
+    const candidates = new Set<Id<"_storage">>();
+
+    let cursor: string | null = null;
+    let isDone = false;
+    while (!isDone) {
+      const result: { page: Id<"_storage">[]; continueCursor: string; isDone: boolean } = await ctx.runQuery(
+        internal.photos.listUnregisteredFiles,
+        { before, paginationOpts: { numItems: SWEEP_PAGE_SIZE, cursor } }
+      );
+      result.page.forEach((storageId) => candidates.add(storageId));
+      cursor = result.continueCursor;
+      isDone = result.isDone;
+    }
+
+    for (const table of ["drafts", "entries", "entryRevisions", "profiles"] as const) {
+      if (candidates.size === 0) break;
+      cursor = null;
+      isDone = false;
+      while (!isDone) {
+        const result: { page: Id<"_storage">[]; continueCursor: string; isDone: boolean } = await ctx.runQuery(
+          internal.photos.listFileReferences,
+          { table, paginationOpts: { numItems: SWEEP_PAGE_SIZE, cursor } }
+        );
+        result.page.forEach((storageId) => candidates.delete(storageId));
+        cursor = result.continueCursor;
+        isDone = result.isDone;
+      }
+    }
+
+    const unreferenced = Array.from(candidates);
+    for (let i = 0; i < unreferenced.length; i += CLEANUP_BATCH_SIZE) {
+      await ctx.runMutation(internal.photos.deleteUnreferencedFiles, {
+        storageIds: unreferenced.slice(i, i + CLEANUP_BATCH_SIZE),
+      });
+    }
+    return { deleted: unreferenced.length };
+  },
+});
@@ -0,0 +1,223 @@
+import { v } from "convex/values";
+import { query, mutation, internalMutation, QueryCtx, MutationCtx } from "./_generated/server";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+import { attachFile } from "./photos";
+
+const MAX_DISPLAY_NAME_LENGTH = 50;
+const MAX_BIO_LENGTH = 280;
+const ALLOWED_AVATAR_TYPES = ["image/jpeg", "image/png", "image/webp", "image/gif"];
+const MAX_AVATAR_SIZE = 5 * 1024 * 1024;
+const MIGRATION_BATCH_SIZE = 100;
+
+export async function getProfile(ctx: QueryCtx, userId: Id<"users">) {
+  return ctx.db
+    .query("profiles")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .first();
+}
+
+// The name other members see: the profile's display name, else the account name
+export async function getDisplayName(ctx: QueryCtx, userId: Id<"users">) {
+  const profile = await getProfile(ctx, userId);
+  if (profile?.displayName) return profile.displayName;
+  return (await ctx.db.get(userId))?.name;
+}
+
+// Name and avatar for showing a user next to their entries, comments and groups
+export async function getUserSummary(ctx: QueryCtx, userId: Id<"users">) {
+  const user = await ctx.db.get(userId);
+  if (!user) return null;
+
+  const profile = await getProfile(ctx, userId);
+  return {
+    _id: user._id,
+    name: profile?.displayName || user.name,
+    avatarUrl: profile?.avatarId ? await ctx.storage.getUrl(profile.avatarId) : null,
+  };
+}
+
+export async function getTimezone(ctx: QueryCtx, userId: Id<"users">) {
+  return (await getProfile(ctx, userId))?.timezone;
+}
+
+function isValidTimezone(timezone: string) {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function upsertProfile(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  fields: { displayName?: string; bio?: string; language?: string; timezone?: string; avatarId?: Id<"_storage"> }
+) {
+  const profile = await getProfile(ctx, userId);
+  if (profile) {
+    await ctx.db.patch(profile._id, { ...fields, onboardedAt: profile.onboardedAt ?? Date.now() });
+  } else {
+    await ctx.db.insert("profiles", { userId, ...fields, onboardedAt: Date.now() });
+  }
+}
+
+export const getMyProfile = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return null;
+
+    const user = await ctx.db.get(userId);
+    if (!user) return null;
+
+    const profile = await getProfile(ctx, userId);
+    return {
+      displayName: profile?.displayName ?? user.name ?? "",
+      bio: profile?.bio ?? "",
+      language: profile?.language ?? null,
+      timezone: profile?.timezone ?? null,
+      avatarUrl: profile?.avatarId ? await ctx.storage.getUrl(profile.avatarId) : null,
+      email: user.email ?? null,
+      isAnonymous: Boolean(user.isAnonymous),
+      needsOnboarding: !profile?.onboardedAt,
+    };
+  },
+});
+
+export const updateProfile = mutation({
+  args: {
+    displayName: v.string(),
+    bio: v.optional(v.string()),
+    language: v.optional(v.string()),
+    timezone: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    const displayName = args.displayName.trim();
+    if (!displayName) throw new Error("Please enter a display name");
+    if (displayName.length > MAX_DISPLAY_NAME_LENGTH) {
+      throw new Error(`Display names can be at most ${MAX_DISPLAY_NAME_LENGTH} characters`);
+    }
+
+    const bio = args.bio?.trim();
+    if (bio && bio.length > MAX_BIO_LENGTH) {
+      throw new Error(`Bios can be at most ${MAX_BIO_LENGTH} characters`);
+    }
+
+    if (args.language && !/^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$/.test(args.language)) {
+      throw new Error("Unknown language");
+    }
+    if (args.timezone && !isValidTimezone(args.timezone)) {
+      throw new Error("Unknown timezone");
+    }
+
+    await upsertProfile(ctx, userId, {
+      displayName,
+      bio: bio || undefined,
+      language: args.language || undefined,
+      timezone: args.timezone || undefined,
+    });
+  },
+});
+
+// Finish onboarding without filling in a profile; the device's timezone is still kept
+// so quiet hours work
+export const skipOnboarding = mutation({
+  args: {
+    timezone: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    const timezone = args.timezone && isValidTimezone(args.timezone) ? args.timezone : undefined;
+    const profile = await getProfile(ctx, userId);
+    await upsertProfile(ctx, userId, { timezone: profile?.timezone ?? timezone });
+  },
+});
+
+// Use an image uploaded through `entries.generateUploadUrl` and registered with
+// `photos.registerUpload` (without a group) as the avatar, or remove the avatar with null.
+// The previous image is deleted.
+export const setAvatar = mutation({
+  args: {
+    storageId: v.union(v.id("_storage"), v.null()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    if (args.storageId) {
+      // Only the caller's own upload may be used, or deleted when it doesn't fit
+      const upload = await ctx.db
+        .query("pendingUploads")
+        .withIndex("by_storage_id", (q) => q.eq("storageId", args.storageId!))
+        .first();
+      if (!upload || upload.userId !== userId) throw new Error("Upload not found");
+
+      if (!ALLOWED_AVATAR_TYPES.includes(upload.contentType)) {
+        throw new Error("Avatars must be JPEG, PNG, WebP or GIF images");
+      }
+      if (upload.size > MAX_AVATAR_SIZE) {
+        await ctx.storage.delete(upload.storageId);
+        await ctx.db.delete(upload._id);
+        throw new Error("Avatars must be smaller than 5 MB");
+      }
+      await attachFile(ctx, upload.storageId);
+    }
+
+    const profile = await getProfile(ctx, userId);
+    if (profile?.avatarId && profile.avatarId !== args.storageId) {
+      await ctx.storage.delete(profile.avatarId);
+    }
+
+    if (profile) {
+      await ctx.db.patch(profile._id, { avatarId: args.storageId ?? undefined });
+    } else if (args.storageId) {
+      // Uploading an avatar during onboarding doesn't finish it
+      await ctx.db.insert("profiles", { userId, avatarId: args.storageId });
+    }
+  },
+});
+
+// Move the timezone that quiet hours were set in from notificationPreferences into the
+// profile, a batch at a time. Run once after deploying:
+// `npx convex run profiles:migrateNotificationTimezones`. A timezone already in the profile wins.
+export const migrateNotificationTimezones = internalMutation({
+  args: {
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  handler: async (ctx, args) => {
+    const result = await ctx.db
+      .query("notificationPreferences")
+      .paginate({ numItems: MIGRATION_BATCH_SIZE, cursor: args.cursor ?? null });
+
+    let migrated = 0;
+    for (const row of result.page) {
+      if (row.timezone === undefined) continue;
+
+      const profile = await getProfile(ctx, row.userId);
+      if (!profile) {
+        // Not marked as onboarded, so the user still gets to fill in their profile
+        await ctx.db.insert("profiles", { userId: row.userId, timezone: row.timezone });
+      } else if (!profile.timezone) {
+        await ctx.db.patch(profile._id, { timezone: row.timezone });
+      }
+
+      await ctx.db.patch(row._id, { timezone: undefined });
+      migrated++;
+    }
+
+    if (!result.isDone) {
+      await ctx.scheduler.runAfter(0, internal.profiles.migrateNotificationTimezones, {
+        cursor: result.continueCursor,
+      });
+    }
+    return { migrated };
+  },
+});
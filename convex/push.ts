@@ -0,0 +1,198 @@
+import { v } from "convex/values";
+import { query, mutation, internalAction, internalMutation, internalQuery } from "./_generated/server";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { internal } from "./_generated/api";
+import { base64UrlEncode, sendWebPush } from "./webPush";
+import { notificationContentValidator, notificationPath } from "./notifications";
+
+// Push services drop the subscription for good with these statuses
+const GONE_STATUSES = [404, 410];
+
+// VAPID keys come from the VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY and VAPID_SUBJECT
+// environment variables; push is disabled until they are set
+function getVapidKeys() {
+  const publicKey = process.env.VAPID_PUBLIC_KEY;
+  const privateKey = process.env.VAPID_PRIVATE_KEY;
+  if (!publicKey || !privateKey) return null;
+  return { publicKey, privateKey, subject: process.env.VAPID_SUBJECT || "mailto:support@dayshare.app" };
+}
+
+// Public key the browser needs to subscribe, or null when push is not configured
+export const getPublicKey = query({
+  args: {},
+  handler: async () => {
+    return getVapidKeys()?.publicKey ?? null;
+  },
+});
+
+// Save (or move to the current user) this browser's push subscription
+export const subscribe = mutation({
+  args: {
+    endpoint: v.string(),
+    p256dh: v.string(),
+    auth: v.string(),
+    userAgent: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    if (!args.endpoint.startsWith("https://")) {
+      throw new Error("Invalid push endpoint");
+    }
+
+    const existing = await ctx.db
+      .query("pushSubscriptions")
+      .withIndex("by_endpoint", (q) => q.eq("endpoint", args.endpoint))
+      .first();
+    if (existing) {
+      await ctx.db.patch(existing._id, { ...args, userId });
+      return existing._id;
+    }
+
+    return await ctx.db.insert("pushSubscriptions", {
+      ...args,
+      userId,
+      createdAt: Date.now(),
+    });
+  },
+});
+
+export const unsubscribe = mutation({
+  args: {
+    endpoint: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    const existing = await ctx.db
+      .query("pushSubscriptions")
+      .withIndex("by_endpoint", (q) => q.eq("endpoint", args.endpoint))
+      .first();
+    if (existing && existing.userId === userId) {
+      await ctx.db.delete(existing._id);
+    }
+  },
+});
+
+// Whether this browser's subscription is registered for the current user
+export const isSubscribed = query({
+  args: {
+    endpoint: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return false;
+
+    const existing = await ctx.db
+      .query("pushSubscriptions")
+      .withIndex("by_endpoint", (q) => q.eq("endpoint", args.endpoint))
+      .first();
+    return existing?.userId === userId;
+  },
+});
+
+// Send a notification to every device the recipient has subscribed
+export const sendPushNotification = internalAction({
+  args: {
+    notification: notificationContentValidator,
+  },
+  handler: async (ctx, args) => {
+    const vapid = getVapidKeys();
+    if (!vapid) return;
+
+    const { notification } = args;
+    const subscriptions = await ctx.runQuery(internal.push.getSubscriptions, { userId: notification.userId });
+    if (subscriptions.length === 0) return;
+
+    const payload = JSON.stringify({
+      title: notification.title,
+      body: notification.message,
+      // Repeated notifications about the same group replace each other on the device
+      tag: `${notification.type}:${notification.groupId ?? ""}`,
+      url: notificationPath(notification.groupId, notification.entryId),
+    });
+
+    for (const subscription of subscriptions) {
+      try {
+        const status = await sendWebPush(subscription, payload, vapid, {
+          urgency: notification.type === "your_turn" ? "high" : "normal",
+        });
+        if (GONE_STATUSES.includes(status)) {
+          await ctx.runMutation(internal.push.removeSubscription, { subscriptionId: subscription._id });
+        } else if (status >= 400) {
+          console.error(`Push delivery failed with status ${status}`);
+        }
+      } catch (error) {
+        console.error("Push delivery error:", error);
+      }
+    }
+  },
+});
+
+export const getSubscriptions = internalQuery({
+  args: {
+    userId: v.id("users"),
+  },
+  handler: async (ctx, args) => {
+    return ctx.db
+      .query("pushSubscriptions")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .collect();
+  },
+});
+
+export const removeSubscription = internalMutation({
+  args: {
+    subscriptionId: v.id("pushSubscriptions"),
+  },
+  handler: async (ctx, args) => {
+    if (await ctx.db.get(args.subscriptionId)) {
+      await ctx.db.delete(args.subscriptionId);
+    }
+  },
+});
+
+// For testing without a browser: subscribe a user with the mock push endpoint in
+// router.ts, e.g. `npx convex run push:addMockSubscription '{"userId": "..."}'`.
+// Deliveries then show up in the deployment logs. Needs PUSH_MOCK=1.
+export const addMockSubscription = internalAction({
+  args: {
+    userId: v.id("users"),
+    // Makes the mock endpoint answer 410 Gone so subscription cleanup can be tested
+    expired: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    if (process.env.PUSH_MOCK !== "1") {
+      throw new Error("The mock push endpoint is off; set PUSH_MOCK=1 and deploy again");
+    }
+
+    const keys = await crypto.subtle.generateKey({ name: "ECDH", namedCurve: "P-256" }, true, ["deriveBits"]);
+    const publicKey = new Uint8Array(await crypto.subtle.exportKey("raw", keys.publicKey));
+    const id = base64UrlEncode(crypto.getRandomValues(new Uint8Array(12)));
+
+    await ctx.runMutation(internal.push.saveMockSubscription, {
+      userId: args.userId,
+      endpoint: `${process.env.CONVEX_SITE_URL}/push/mock/${args.expired ? "gone" : id}`,
+      p256dh: base64UrlEncode(publicKey),
+      auth: base64UrlEncode(crypto.getRandomValues(new Uint8Array(16))),
+    });
+  },
+});
+
+export const saveMockSubscription = internalMutation({
+  args: {
+    userId: v.id("users"),
+    endpoint: v.string(),
+    p256dh: v.string(),
+    auth: v.string(),
+  },
+  handler: async (ctx, args) => {
+    await ctx.db.insert("pushSubscriptions", {
+      ...args,
+      userAgent: "mock",
+      createdAt: Date.now(),
+    });
+  },
+});
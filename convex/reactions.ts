@@ -0,0 +1,65 @@
+import { v } from "convex/values";
+import { mutation } from "./_generated/server";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { createNotification } from "./notifications";
+import { getDisplayName } from "./profiles";
+import { isMember } from "./memberships";
+
+// Add or remove the current user's reaction on an entry
+export const toggleReaction = mutation({
+  args: {
+    entryId: v.id("entries"),
+    emoji: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    if (!args.emoji || args.emoji.length > 16) {
+      throw new Error("Invalid reaction");
+    }
+
+    const entry = await ctx.db.get(args.entryId);
+    if (!entry || entry.deletedAt) throw new Error("Entry not found");
+
+    const group = await ctx.db.get(entry.groupId);
+    if (!group || !(await isMember(ctx, group._id, userId))) {
+      throw new Error("Not authorized to react in this group");
+    }
+
+    const existingReaction = await ctx.db
+      .query("reactions")
+      .withIndex("by_entry_and_user", (q) =>
+        q.eq("entryId", args.entryId).eq("userId", userId)
+      )
+      .filter((q) => q.eq(q.field("emoji"), args.emoji))
+      .first();
+
+    if (existingReaction) {
+      await ctx.db.delete(existingReaction._id);
+      return { reacted: false };
+    }
+
+    await ctx.db.insert("reactions", {
+      entryId: args.entryId,
+      groupId: entry.groupId,
+      userId,
+      emoji: args.emoji,
+      createdAt: Date.now(),
+    });
+
+    if (entry.authorId !== userId) {
+      const userName = (await getDisplayName(ctx, userId)) || "Someone";
+      await createNotification(ctx, {
+        userId: entry.authorId,
+        type: "entry_reaction",
+        title: "New Reaction",
+        message: `${userName} reacted ${args.emoji} to your entry in ${group.name}`,
+        groupId: group._id,
+        entryId: entry._id,
+      });
+    }
+
+    return { reacted: true };
+  },
+});
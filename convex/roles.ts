@@ -0,0 +1,20 @@
+import { v, Infer } from "convex/values";
+
+export const roleValidator = v.union(
+  v.literal("owner"),
+  v.literal("admin"),
+  v.literal("writer"),
+  v.literal("viewer")
+);
+
+export type GroupRole = Infer<typeof roleValidator>;
+
+// Owners and admins can invite, remove members and moderate entries
+export function canManageGroup(role: GroupRole | null) {
+  return role === "owner" || role === "admin";
+}
+
+// Everyone except viewers takes turns writing
+export function canWrite(role: GroupRole | null) {
+  return role !== null && role !== "viewer";
+}
@@ -1,15 +1,132 @@
 import { httpRouter } from "convex/server";
+import { httpAction } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { Doc } from "./_generated/dataModel";
+import { NOTIFICATION_TYPES } from "./notificationPreferences";
+
+type NotificationType = Doc<"notifications">["type"];
 
 const http = httpRouter();
 
-// Add any custom HTTP endpoints here
-// Example:
-// http.route({
-//   path: "/api/webhook",
-//   method: "POST",
-//   handler: httpAction(async (ctx, req) => {
-//     // Handle webhook
-//   }),
-// });
+// Public invite links: /invite/<code> checks the code and opens the app's join flow
+http.route({
+  pathPrefix: "/invite/",
+  method: "GET",
+  handler: httpAction(async (ctx, req) => {
+    const invalidInvite = () =>
+      new Response("This invitation link is invalid or has expired.", {
+        status: 404,
+        headers: { "Content-Type": "text/plain; charset=utf-8" },
+      });
+
+    let inviteCode: string;
+    try {
+      inviteCode = decodeURIComponent(new URL(req.url).pathname.slice("/invite/".length));
+    } catch {
+      // Malformed percent-encoding, e.g. /invite/%E0
+      return invalidInvite();
+    }
+
+    const invitation = await ctx.runQuery(internal.invitations.getUsableInvitation, {
+      inviteCode,
+    });
+    if (!invitation) return invalidInvite();
+
+    const appUrl = new URL(process.env.SITE_URL ?? "http://localhost:5173");
+    appUrl.searchParams.set("invite", invitation.inviteCode);
+    return new Response(null, {
+      status: 302,
+      headers: { Location: appUrl.toString() },
+    });
+  }),
+});
+
+const EMAIL_KINDS = {
+  invitation: "invitation emails",
+  notification: "these notification emails",
+  weekly_digest: "the weekly digest",
+} as const;
+
+function htmlPage(message: string, form = "") {
+  return new Response(
+    `<!doctype html><html><body style="font-family:sans-serif;max-width:480px;margin:48px auto;padding:0 16px"><p>${message}</p>${form}</body></html>`,
+    { headers: { "Content-Type": "text/html; charset=utf-8" } }
+  );
+}
+
+function readUnsubscribeParams(req: Request) {
+  const url = new URL(req.url);
+  const token = url.searchParams.get("token") ?? "";
+  const kind = url.searchParams.get("kind") ?? "";
+  const type = url.searchParams.get("type") ?? undefined;
+  if (!(kind in EMAIL_KINDS) || (type && !NOTIFICATION_TYPES.includes(type as NotificationType))) return null;
+  return { token, kind: kind as keyof typeof EMAIL_KINDS, type: type as NotificationType | undefined, url };
+}
+
+// Unsubscribe links in emails. GET only shows a confirmation button so that link
+// scanners can't unsubscribe anyone; POST (also used for one-click unsubscribe) opts out.
+http.route({
+  path: "/email/unsubscribe",
+  method: "GET",
+  handler: httpAction(async (_ctx, req) => {
+    const params = readUnsubscribeParams(req);
+    if (!params) return htmlPage("This unsubscribe link is invalid.");
+
+    const action = `${params.url.pathname}${params.url.search}`.replace(/"/g, "&quot;");
+    return htmlPage(
+      `Stop receiving ${EMAIL_KINDS[params.kind]} from DayShare?`,
+      `<form method="POST" action="${action}"><button type="submit">Unsubscribe</button></form>`
+    );
+  }),
+});
+
+http.route({
+  path: "/email/unsubscribe",
+  method: "POST",
+  handler: httpAction(async (ctx, req) => {
+    const params = readUnsubscribeParams(req);
+    const unsubscribed =
+      params && (await ctx.runMutation(internal.emails.unsubscribeWithToken, {
+        token: params.token,
+        kind: params.kind,
+        type: params.type,
+      }));
+    if (!params || !unsubscribed) return htmlPage("This unsubscribe link is invalid.");
+
+    return htmlPage(
+      `You won't receive ${EMAIL_KINDS[params.kind]} any more. You can change this in the app's notification settings.`
+    );
+  }),
+});
+
+// Stand-in push service for testing (see push.addMockSubscription), only registered when
+// PUSH_MOCK=1. Checks that a message looks like real Web Push and logs it; the "gone"
+// endpoint reports an expired subscription.
+if (process.env.PUSH_MOCK === "1") {
+  http.route({
+    pathPrefix: "/push/mock/",
+    method: "POST",
+    handler: httpAction(async (_ctx, req) => {
+      const subscription = new URL(req.url).pathname.slice("/push/mock/".length);
+      if (subscription === "gone") {
+        return new Response("Subscription expired", { status: 410 });
+      }
+
+      const authorization = req.headers.get("Authorization") ?? "";
+      if (!/^vapid t=[\w-]+\.[\w-]+\.[\w-]+, k=[\w-]+$/.test(authorization)) {
+        return new Response("Missing VAPID authorization", { status: 401 });
+      }
+      if (req.headers.get("Content-Encoding") !== "aes128gcm" || !req.headers.get("TTL")) {
+        return new Response("Expected an aes128gcm message with a TTL", { status: 400 });
+      }
+
+      const body = await req.arrayBuffer();
+      console.log(
+        `Mock push to ${subscription}: ${body.byteLength} bytes, urgency ${req.headers.get("Urgency") ?? "normal"}`
+      );
+      return new Response(null, { status: 201 });
+    }),
+  });
+}
 
 export default http;
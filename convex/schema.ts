@@ -1,19 +1,109 @@
 import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
 import { authTables } from "@convex-dev/auth/server";
+import { roleValidator } from "./roles";
+
+// Entries written before Markdown support have no format and are plain text
+export const contentFormatValidator = v.union(v.literal("plain"), v.literal("markdown"));
+
+// Photo order is the order of the `photos` array; captions are keyed by storage id
+export const photoCaptionValidator = v.object({
+  storageId: v.id("_storage"),
+  caption: v.string(),
+});
+
+// A voice memo; `transcript` is filled in later by the transcription job
+export const audioValidator = v.object({
+  storageId: v.id("_storage"),
+  duration: v.number(), // seconds
+  transcript: v.optional(v.string()),
+});
+
+export const notificationTypeValidator = v.union(
+  v.literal("your_turn"),
+  v.literal("journal_passed"),
+  v.literal("new_member"),
+  v.literal("invitation_received"),
+  v.literal("entry_comment"),
+  v.literal("entry_reaction"),
+  v.literal("member_removed")
+);
+
+// Kinds of email. Notification emails are switched on and off per notification type in
+// notificationPreferences; the other kinds can be opted out of here.
+export const emailKindValidator = v.union(
+  v.literal("invitation"),
+  v.literal("notification"),
+  v.literal("weekly_digest")
+);
+
+// What happens to a member's entries and comments in a group when they delete their account
+export const deletedAccountPolicyValidator = v.union(v.literal("anonymize"), v.literal("delete"));
+
+// Every email that can be sent; account emails with sign-in codes can't be opted out of
+export const sentEmailKindValidator = v.union(
+  emailKindValidator,
+  v.literal("password_reset"),
+  v.literal("email_verification")
+);
+
+// Delivery channels for one notification type
+export const notificationChannelsValidator = v.object({
+  type: notificationTypeValidator,
+  inApp: v.boolean(),
+  push: v.boolean(),
+  email: v.boolean(),
+});
 
 const applicationTables = {
+  // How a user appears to others, and their personal settings. Created when the user
+  // finishes (or skips) onboarding.
+  profiles: defineTable({
+    userId: v.id("users"),
+    displayName: v.optional(v.string()),
+    avatarId: v.optional(v.id("_storage")),
+    bio: v.optional(v.string()),
+    language: v.optional(v.string()), // BCP 47 tag, e.g. "en" or "ja"
+    timezone: v.optional(v.string()), // IANA name, e.g. "Asia/Tokyo"
+    onboardedAt: v.optional(v.number()),
+    // Set on the placeholder profile left behind when the account is deleted
+    deletedAt: v.optional(v.number()),
+  }).index("by_user", ["userId"]),
+
   // Groups (Exchange Diary Groups)
   groups: defineTable({
     name: v.string(),
     description: v.optional(v.string()),
     createdBy: v.id("users"),
-    members: v.array(v.id("users")),
+    // Legacy membership lists, moved into groupMembers by memberships.migrateGroupMembers
+    members: v.optional(v.array(v.id("users"))),
+    memberRoles: v.optional(v.array(v.object({
+      userId: v.id("users"),
+      role: roleValidator,
+    }))),
+    // Writers in the order they take turns; viewers are members but never in here
     turnOrder: v.array(v.id("users")),
     currentTurnIndex: v.number(),
     isActive: v.boolean(),
+    turnTimeLimitHours: v.optional(v.number()),
+    turnDeadline: v.optional(v.number()),
+    turnReminderSent: v.optional(v.boolean()),
+    // Unset means "anonymize"
+    deletedAccountPolicy: v.optional(deletedAccountPolicyValidator),
   })
-    .index("by_creator", ["createdBy"]),
+    .index("by_creator", ["createdBy"])
+    .index("by_turn_deadline", ["turnDeadline"]),
+
+  // Who belongs to which group, and with which role
+  groupMembers: defineTable({
+    groupId: v.id("groups"),
+    userId: v.id("users"),
+    role: roleValidator,
+    joinedAt: v.number(),
+  })
+    .index("by_group", ["groupId", "joinedAt"])
+    .index("by_group_and_user", ["groupId", "userId"])
+    .index("by_user", ["userId"]),
 
   // Journal Entries
   entries: defineTable({
@@ -21,40 +111,133 @@ const applicationTables = {
     authorId: v.id("users"),
     title: v.optional(v.string()),
     content: v.string(),
+    contentFormat: v.optional(contentFormatValidator),
     photos: v.optional(v.array(v.id("_storage"))),
+    photoCaptions: v.optional(v.array(photoCaptionValidator)),
+    audio: v.optional(audioValidator),
     entryDate: v.number(),
     turnIndex: v.number(),
     isQuickReflection: v.optional(v.boolean()),
+    isSkipped: v.optional(v.boolean()),
     tags: v.optional(v.array(v.string())),
+    editedAt: v.optional(v.number()),
+    importedAt: v.optional(v.number()),
+    deletedAt: v.optional(v.number()),
+    deletedBy: v.optional(v.id("users")),
   })
     .index("by_group", ["groupId"])
     .index("by_author", ["authorId"])
     .index("by_group_and_date", ["groupId", "entryDate"])
-    .index("by_group_and_turn", ["groupId", "turnIndex"]),
+    .index("by_group_and_turn", ["groupId", "turnIndex"])
+    .index("by_deleted_by", ["deletedBy"])
+    .searchIndex("search_content", {
+      searchField: "content",
+      filterFields: ["groupId", "authorId"],
+    })
+    .searchIndex("search_title", {
+      searchField: "title",
+      filterFields: ["groupId", "authorId"],
+    }),
+
+  // Entry Revisions (previous versions kept on every edit)
+  entryRevisions: defineTable({
+    entryId: v.id("entries"),
+    editedBy: v.id("users"),
+    title: v.optional(v.string()),
+    content: v.string(),
+    contentFormat: v.optional(contentFormatValidator),
+    photos: v.optional(v.array(v.id("_storage"))),
+    photoCaptions: v.optional(v.array(photoCaptionValidator)),
+    audio: v.optional(audioValidator),
+    tags: v.optional(v.array(v.string())),
+    createdAt: v.number(),
+  })
+    .index("by_entry", ["entryId"]),
+
+  // Comments on journal entries
+  comments: defineTable({
+    entryId: v.id("entries"),
+    groupId: v.id("groups"),
+    authorId: v.id("users"),
+    content: v.string(),
+    createdAt: v.number(),
+  })
+    .index("by_entry", ["entryId"])
+    .index("by_author", ["authorId"]),
+
+  // Emoji reactions on journal entries
+  reactions: defineTable({
+    entryId: v.id("entries"),
+    groupId: v.id("groups"),
+    userId: v.id("users"),
+    emoji: v.string(),
+    createdAt: v.number(),
+  })
+    .index("by_entry", ["entryId"])
+    .index("by_entry_and_user", ["entryId", "userId"])
+    .index("by_user", ["userId"]),
 
-  // Drafts
+  // Drafts (several per author and group)
   drafts: defineTable({
     groupId: v.id("groups"),
     authorId: v.id("users"),
+    name: v.optional(v.string()),
     title: v.optional(v.string()),
     content: v.string(),
     photos: v.optional(v.array(v.id("_storage"))),
+    photoCaptions: v.optional(v.array(photoCaptionValidator)),
+    audio: v.optional(audioValidator),
+    tags: v.optional(v.array(v.string())),
     isQuickReflection: v.optional(v.boolean()),
+    // Bumped on every save so concurrent editors can detect each other
+    version: v.optional(v.number()),
+    updatedAt: v.optional(v.number()),
   })
-    .index("by_group_and_author", ["groupId", "authorId"]),
+    .index("by_group_and_author", ["groupId", "authorId"])
+    .index("by_author", ["authorId"]),
+
+  // Validated photo and audio uploads that are not yet part of a published entry.
+  // Rows are removed when an entry claims the photo; stale ones are cleaned up by a cron.
+  pendingUploads: defineTable({
+    storageId: v.id("_storage"),
+    userId: v.id("users"),
+    groupId: v.optional(v.id("groups")), // unset for avatars
+    contentType: v.string(),
+    size: v.number(),
+  })
+    .index("by_storage_id", ["storageId"])
+    .index("by_user", ["userId"]),
+
+  // Uploads claimed by published entries or avatars, whoever they belong to. Kept after the pending upload
+  // is removed, so a claimed file can't be registered again or cleaned up.
+  attachedFiles: defineTable({
+    storageId: v.id("_storage"),
+  })
+    .index("by_storage_id", ["storageId"]),
 
   // Group Invitations
   invitations: defineTable({
     groupId: v.id("groups"),
     invitedBy: v.id("users"),
-    invitedEmail: v.string(),
+    kind: v.optional(v.union(v.literal("email"), v.literal("link"))),
+    invitedEmail: v.optional(v.string()),
     inviteCode: v.string(),
-    status: v.union(v.literal("pending"), v.literal("accepted"), v.literal("declined")),
+    role: v.optional(roleValidator),
+    status: v.union(
+      v.literal("pending"),
+      v.literal("accepted"),
+      v.literal("declined"),
+      v.literal("revoked")
+    ),
     expiresAt: v.number(),
+    maxUses: v.optional(v.number()),
+    useCount: v.optional(v.number()),
+    createdAt: v.optional(v.number()),
   })
     .index("by_code", ["inviteCode"])
     .index("by_email", ["invitedEmail"])
-    .index("by_group", ["groupId"]),
+    .index("by_group", ["groupId"])
+    .index("by_inviter", ["invitedBy"]),
 
   // AI Chat Sessions
   aiChats: defineTable({
@@ -73,20 +256,65 @@ const applicationTables = {
   // Notifications
   notifications: defineTable({
     userId: v.id("users"),
-    type: v.union(
-      v.literal("your_turn"),
-      v.literal("journal_passed"),
-      v.literal("new_member"),
-      v.literal("invitation_received")
-    ),
+    type: notificationTypeValidator,
     title: v.string(),
     message: v.string(),
     groupId: v.optional(v.id("groups")),
+    entryId: v.optional(v.id("entries")),
     isRead: v.boolean(),
     createdAt: v.number(),
   })
     .index("by_user", ["userId"])
     .index("by_user_unread", ["userId", "isRead"]),
+
+  // Web Push subscriptions, one per browser or device
+  pushSubscriptions: defineTable({
+    userId: v.id("users"),
+    endpoint: v.string(),
+    p256dh: v.string(),
+    auth: v.string(),
+    userAgent: v.optional(v.string()),
+    createdAt: v.number(),
+  })
+    .index("by_user", ["userId"])
+    .index("by_endpoint", ["endpoint"]),
+
+  // How each notification type is delivered. The row without a group holds the user's
+  // defaults and quiet hours; group rows override channels for that group only.
+  notificationPreferences: defineTable({
+    userId: v.id("users"),
+    groupId: v.optional(v.id("groups")),
+    channels: v.array(notificationChannelsValidator),
+    // Minutes after midnight in the timezone from the user's profile; push and email
+    // wait until quiet hours end
+    quietHours: v.optional(v.object({
+      start: v.number(),
+      end: v.number(),
+    })),
+    // Where quiet hours used to keep their timezone; moved to profiles by
+    // `profiles:migrateNotificationTimezones`
+    timezone: v.optional(v.string()),
+  }).index("by_user_and_group", ["userId", "groupId"]),
+
+  // Email opt-outs; users without a row get every kind of email
+  emailPreferences: defineTable({
+    userId: v.id("users"),
+    optOuts: v.array(emailKindValidator),
+    // Lets the unsubscribe link in an email work without signing in
+    unsubscribeToken: v.string(),
+  })
+    .index("by_user", ["userId"])
+    .index("by_token", ["unsubscribeToken"]),
+
+  // Emails kept by the "capture" transport instead of being sent
+  capturedEmails: defineTable({
+    kind: sentEmailKindValidator,
+    to: v.string(),
+    subject: v.string(),
+    html: v.string(),
+    text: v.string(),
+    sentAt: v.number(),
+  }).index("by_to", ["to"]),
 };
 
 export default defineSchema({
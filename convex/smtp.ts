@@ -0,0 +1,201 @@
+"use node";
+
+// Small SMTP client for the email transport: implicit TLS or STARTTLS, AUTH PLAIN, and
+// one multipart/alternative message per connection.
+import net from "node:net";
+import tls from "node:tls";
+import { randomBytes } from "node:crypto";
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  // true for implicit TLS (usually port 465); otherwise STARTTLS is used when offered
+  secure: boolean;
+  user?: string;
+  password?: string;
+}
+
+export interface MailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  headers?: Record<string, string>;
+}
+
+const TIMEOUT = 30 * 1000;
+
+// Reads SMTP replies line by line; multi-line replies end with "<code> <text>"
+class SmtpConnection {
+  private buffer = "";
+  private lines: string[] = [];
+  private waiting: { resolve: (line: string) => void; reject: (error: Error) => void }[] = [];
+  private failure: Error | null = null;
+
+  constructor(private socket: net.Socket) {
+    this.listen(socket);
+  }
+
+  private listen(socket: net.Socket) {
+    socket.setEncoding("utf8");
+    socket.setTimeout(TIMEOUT, () => socket.destroy(new Error("SMTP connection timed out")));
+    socket.on("data", (chunk: string) => {
+      this.buffer += chunk;
+      let index;
+      while ((index = this.buffer.indexOf("\r\n")) >= 0) {
+        const line = this.buffer.slice(0, index);
+        this.buffer = this.buffer.slice(index + 2);
+        const waiter = this.waiting.shift();
+        if (waiter) waiter.resolve(line);
+        else this.lines.push(line);
+      }
+    });
+    socket.on("error", (error) => this.fail(error));
+    socket.on("close", () => this.fail(new Error("SMTP connection closed")));
+  }
+
+  private fail(error: Error) {
+    this.failure ??= error;
+    for (const waiter of this.waiting.splice(0)) waiter.reject(this.failure);
+  }
+
+  private readLine() {
+    const line = this.lines.shift();
+    if (line !== undefined) return Promise.resolve(line);
+    if (this.failure) return Promise.reject(this.failure);
+    return new Promise<string>((resolve, reject) => this.waiting.push({ resolve, reject }));
+  }
+
+  async read(expected: number) {
+    const lines: string[] = [];
+    let line;
+    do {
+      line = await this.readLine();
+      lines.push(line.slice(4));
+    } while (line[3] === "-");
+
+    const code = Number(line.slice(0, 3));
+    if (code !== expected) {
+      throw new Error(`SMTP error ${code}: ${lines.join(" ")}`);
+    }
+    return lines;
+  }
+
+  async command(line: string, expected: number) {
+    this.socket.write(`${line}\r\n`);
+    return this.read(expected);
+  }
+
+  async startTls(host: string) {
+    // From here on the plain socket carries encrypted bytes, so stop reading it directly
+    this.socket.removeAllListeners("data");
+    this.socket.removeAllListeners("error");
+    this.socket.removeAllListeners("close");
+    this.socket.setTimeout(0);
+    const secureSocket = tls.connect({ socket: this.socket, servername: host });
+    await new Promise<void>((resolve, reject) => {
+      secureSocket.once("secureConnect", resolve);
+      secureSocket.once("error", reject);
+    });
+    this.socket = secureSocket;
+    this.buffer = "";
+    this.listen(secureSocket);
+  }
+
+  close() {
+    this.socket.end();
+  }
+}
+
+function connect(config: SmtpConfig) {
+  return new Promise<net.Socket>((resolve, reject) => {
+    const socket = config.secure
+      ? tls.connect({ host: config.host, port: config.port, servername: config.host }, () => resolve(socket))
+      : net.connect({ host: config.host, port: config.port }, () => resolve(socket));
+    socket.once("error", reject);
+  });
+}
+
+// RFC 2047 encoded word for headers that contain non-ASCII text
+function encodeHeader(value: string) {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString("base64")}?=`;
+}
+
+function encodeBody(value: string) {
+  return Buffer.from(value).toString("base64").replace(/.{76}/g, "$&\r\n");
+}
+
+// A line break would end the header or SMTP command and let the rest through as new ones
+function singleLine(value: string) {
+  if (/[\r\n]/.test(value)) throw new Error("Email headers and addresses can't contain line breaks");
+  return value;
+}
+
+function emailAddress(value: string) {
+  return singleLine(value.match(/<([^>]+)>/)?.[1] ?? value);
+}
+
+function buildMessage(message: MailMessage, domain: string) {
+  const boundary = `dayshare-${randomBytes(12).toString("hex")}`;
+  const headers: Record<string, string> = {
+    "From": message.from,
+    "To": message.to,
+    "Subject": encodeHeader(message.subject),
+    "Date": new Date().toUTCString(),
+    "Message-ID": `<${randomBytes(16).toString("hex")}@${domain}>`,
+    "MIME-Version": "1.0",
+    "Content-Type": `multipart/alternative; boundary="${boundary}"`,
+    ...message.headers,
+  };
+
+  // Base64 parts never contain lines starting with ".", so no dot-stuffing is needed
+  return [
+    ...Object.entries(headers).map(([name, value]) => `${singleLine(name)}: ${singleLine(value)}`),
+    "",
+    `--${boundary}`,
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    encodeBody(message.text),
+    `--${boundary}`,
+    "Content-Type: text/html; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    encodeBody(message.html),
+    `--${boundary}--`,
+    "",
+  ].join("\r\n");
+}
+
+export async function sendSmtp(config: SmtpConfig, message: MailMessage) {
+  const connection = new SmtpConnection(await connect(config));
+  const domain = emailAddress(message.from).split("@")[1] ?? "localhost";
+
+  try {
+    await connection.read(220);
+    let capabilities = await connection.command(`EHLO ${domain}`, 250);
+
+    if (!config.secure && capabilities.some((line) => line.toUpperCase() === "STARTTLS")) {
+      await connection.command("STARTTLS", 220);
+      await connection.startTls(config.host);
+      capabilities = await connection.command(`EHLO ${domain}`, 250);
+    }
+
+    if (config.user) {
+      if (!capabilities.some((line) => line.toUpperCase().startsWith("AUTH"))) {
+        throw new Error("SMTP server does not support authentication");
+      }
+      const credentials = Buffer.from(`\0${config.user}\0${config.password ?? ""}`).toString("base64");
+      await connection.command(`AUTH PLAIN ${credentials}`, 235);
+    }
+
+    await connection.command(`MAIL FROM:<${emailAddress(message.from)}>`, 250);
+    await connection.command(`RCPT TO:<${emailAddress(message.to)}>`, 250);
+    await connection.command("DATA", 354);
+    await connection.command(`${buildMessage(message, domain)}\r\n.`, 250);
+    await connection.command("QUIT", 221);
+  } finally {
+    connection.close();
+  }
+}
@@ -0,0 +1,100 @@
+import { v } from "convex/values";
+import { internalAction, internalMutation, internalQuery } from "./_generated/server";
+import { internal } from "./_generated/api";
+
+// Turns a recording into text, or returns null when nothing could be transcribed
+type Transcriber = (audio: Blob) => Promise<string | null>;
+
+// Available transcription backends, picked with the TRANSCRIPTION_PROVIDER environment
+// variable. Add new providers here; "none" keeps voice memos audio-only.
+const transcribers: Record<string, Transcriber> = {
+  none: async () => null,
+
+  // Whisper through the same OpenAI-compatible endpoint the AI assistant uses
+  openai: async (audio) => {
+    const form = new FormData();
+    const extension = audio.type.split("/")[1]?.split(";")[0] || "webm";
+    form.append("file", audio, `memo.${extension}`);
+    form.append("model", "whisper-1");
+
+    const response = await fetch(`${process.env.CONVEX_OPENAI_BASE_URL}/audio/transcriptions`, {
+      method: "POST",
+      headers: { "Authorization": `Bearer ${process.env.CONVEX_OPENAI_API_KEY}` },
+      body: form,
+    });
+
+    if (!response.ok) {
+      throw new Error(`Transcription API error: ${response.status}`);
+    }
+
+    const data: { text?: string } = await response.json();
+    return data.text?.trim() || null;
+  },
+};
+
+function getTranscriber(): Transcriber {
+  const provider = process.env.TRANSCRIPTION_PROVIDER || "none";
+  const transcriber = transcribers[provider];
+  if (!transcriber) {
+    console.warn(`Unknown transcription provider "${provider}", skipping transcription`);
+    return transcribers.none;
+  }
+  return transcriber;
+}
+
+// Transcribe an entry's voice memo and save the text with it
+export const transcribeEntryAudio = internalAction({
+  args: {
+    entryId: v.id("entries"),
+  },
+  handler: async (ctx, args) => {
+    const audio = await ctx.runQuery(internal.transcription.getEntryAudio, { entryId: args.entryId });
+    if (!audio) return;
+
+    const blob = await ctx.storage.get(audio.storageId);
+    if (!blob) return;
+
+    try {
+      const transcript = await getTranscriber()(blob);
+      if (!transcript) return;
+
+      await ctx.runMutation(internal.transcription.saveTranscript, {
+        entryId: args.entryId,
+        storageId: audio.storageId,
+        transcript,
+      });
+    } catch (error) {
+      console.error("Transcription error:", error);
+    }
+  },
+});
+
+export const getEntryAudio = internalQuery({
+  args: {
+    entryId: v.id("entries"),
+  },
+  handler: async (ctx, args) => {
+    const entry = await ctx.db.get(args.entryId);
+    return entry && !entry.deletedAt ? entry.audio ?? null : null;
+  },
+});
+
+// Store the transcript, and use it as the entry text when nothing was typed so the
+// memo shows up in search
+export const saveTranscript = internalMutation({
+  args: {
+    entryId: v.id("entries"),
+    storageId: v.id("_storage"),
+    transcript: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const entry = await ctx.db.get(args.entryId);
+    // The recording may have been replaced while it was being transcribed
+    if (!entry?.audio || entry.audio.storageId !== args.storageId) return;
+
+    await ctx.db.patch(args.entryId, {
+      audio: { ...entry.audio, transcript: args.transcript },
+      ...(entry.content.trim() ? {} : { content: args.transcript, contentFormat: "plain" as const }),
+    });
+  },
+});
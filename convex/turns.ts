@@ -0,0 +1,145 @@
+import { internalMutation, MutationCtx } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { createNotification } from "./notifications";
+import { getDisplayName } from "./profiles";
+
+const HOUR = 60 * 60 * 1000;
+
+// Reminders go out when a quarter of the turn is left, but never more than a day early
+const MAX_REMINDER_LEAD = 24 * HOUR;
+
+// Get the deadline for a turn starting at `startedAt`, if the group has a time limit
+export function getTurnDeadline(group: Doc<"groups">, startedAt = Date.now()) {
+  return group.turnTimeLimitHours
+    ? startedAt + group.turnTimeLimitHours * HOUR
+    : undefined;
+}
+
+// Move the journal to the next person in turn order and restart the turn clock
+export async function advanceTurn(ctx: MutationCtx, group: Doc<"groups">) {
+  const nextTurnIndex = (group.currentTurnIndex + 1) % group.turnOrder.length;
+  const nextUserId = group.turnOrder[nextTurnIndex];
+
+  await ctx.db.patch(group._id, {
+    currentTurnIndex: nextTurnIndex,
+    turnDeadline: getTurnDeadline(group),
+    turnReminderSent: false,
+  });
+
+  return { nextTurnIndex, nextUserId };
+}
+
+// Take a user out of the turn order, keeping the current turn pointed at the right person.
+// If the user held the turn, it moves on to whoever was next in line.
+export async function removeFromTurnOrder(
+  ctx: MutationCtx,
+  group: Doc<"groups">,
+  userId: Id<"users">
+) {
+  const removedIndex = group.turnOrder.indexOf(userId);
+  const turnOrder = group.turnOrder.filter((id) => id !== userId);
+
+  let currentTurnIndex = group.currentTurnIndex;
+  if (removedIndex !== -1 && removedIndex < group.currentTurnIndex) {
+    currentTurnIndex--;
+  }
+  if (currentTurnIndex >= turnOrder.length) {
+    currentTurnIndex = 0;
+  }
+  const heldTurn = removedIndex !== -1 && removedIndex === group.currentTurnIndex;
+
+  await ctx.db.patch(group._id, {
+    turnOrder,
+    currentTurnIndex,
+    ...(heldTurn && {
+      turnDeadline: getTurnDeadline(group),
+      turnReminderSent: false,
+    }),
+  });
+
+  return {
+    newTurnHolder: heldTurn && turnOrder.length > 0 ? turnOrder[currentTurnIndex] : null,
+  };
+}
+
+// Send reminders for turns about to expire and skip the ones that have expired
+export const processTurnDeadlines = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const now = Date.now();
+
+    const expiringGroups = await ctx.db
+      .query("groups")
+      .withIndex("by_turn_deadline", (q) =>
+        q.gt("turnDeadline", now).lte("turnDeadline", now + MAX_REMINDER_LEAD)
+      )
+      .filter((q) => q.neq(q.field("turnReminderSent"), true))
+      .take(100);
+
+    for (const group of expiringGroups) {
+      if (!group.isActive || !group.turnTimeLimitHours || !group.turnDeadline) continue;
+
+      const lead = Math.min((group.turnTimeLimitHours * HOUR) / 4, MAX_REMINDER_LEAD);
+      if (group.turnDeadline - lead > now) continue;
+
+      const hoursLeft = Math.max(1, Math.round((group.turnDeadline - now) / HOUR));
+      await createNotification(ctx, {
+        userId: group.turnOrder[group.currentTurnIndex],
+        type: "your_turn",
+        title: "Your Turn Is Ending Soon",
+        message: `About ${hoursLeft}h left to write in ${group.name} before the journal moves on`,
+        groupId: group._id,
+      });
+      await ctx.db.patch(group._id, { turnReminderSent: true });
+    }
+
+    const expiredGroups = await ctx.db
+      .query("groups")
+      .withIndex("by_turn_deadline", (q) =>
+        q.gte("turnDeadline", 0).lte("turnDeadline", now)
+      )
+      .take(100);
+
+    for (const group of expiredGroups) {
+      if (!group.isActive || group.turnOrder.length < 2) {
+        // Nobody to hand the journal to, so just restart the clock
+        await ctx.db.patch(group._id, {
+          turnDeadline: getTurnDeadline(group, now),
+          turnReminderSent: false,
+        });
+        continue;
+      }
+
+      const skippedUserId = group.turnOrder[group.currentTurnIndex];
+
+      // Leave a marker in the timeline so the group can see the turn was skipped
+      await ctx.db.insert("entries", {
+        groupId: group._id,
+        authorId: skippedUserId,
+        content: "",
+        entryDate: now,
+        turnIndex: group.currentTurnIndex,
+        isSkipped: true,
+      });
+
+      const { nextUserId } = await advanceTurn(ctx, group);
+
+      await createNotification(ctx, {
+        userId: skippedUserId,
+        type: "journal_passed",
+        title: "Your Turn Was Skipped",
+        message: `Time ran out for your turn in ${group.name}, so the journal moved on`,
+        groupId: group._id,
+      });
+
+      const skippedUserName = (await getDisplayName(ctx, skippedUserId)) || "Someone";
+      await createNotification(ctx, {
+        userId: nextUserId,
+        type: "your_turn",
+        title: "Your Turn to Write",
+        message: `${skippedUserName}'s turn ran out in ${group.name}, so it's your turn now`,
+        groupId: group._id,
+      });
+    }
+  },
+});
@@ -0,0 +1,138 @@
+// Minimal Web Push sender built on Web Crypto: VAPID authentication (RFC 8292) and
+// aes128gcm payload encryption (RFC 8291), so no Node runtime is needed.
+
+export interface PushTarget {
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+}
+
+export interface VapidKeys {
+  publicKey: string;
+  privateKey: string;
+  subject: string;
+}
+
+const encoder = new TextEncoder();
+
+export function base64UrlEncode(bytes: Uint8Array) {
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+export function base64UrlDecode(value: string) {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64 + "=".repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+function concat(...parts: Uint8Array[]) {
+  const result = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+async function hkdf(salt: Uint8Array, ikm: Uint8Array, info: Uint8Array, length: number) {
+  const key = await crypto.subtle.importKey("raw", ikm, "HKDF", false, ["deriveBits"]);
+  const bits = await crypto.subtle.deriveBits({ name: "HKDF", hash: "SHA-256", salt, info }, key, length * 8);
+  return new Uint8Array(bits);
+}
+
+// Signed JWT proving to the push service that this server owns the VAPID key pair
+async function createVapidToken(endpoint: string, vapid: VapidKeys) {
+  const publicKey = base64UrlDecode(vapid.publicKey);
+  const signingKey = await crypto.subtle.importKey(
+    "jwk",
+    {
+      kty: "EC",
+      crv: "P-256",
+      d: vapid.privateKey,
+      x: base64UrlEncode(publicKey.slice(1, 33)),
+      y: base64UrlEncode(publicKey.slice(33, 65)),
+    },
+    { name: "ECDSA", namedCurve: "P-256" },
+    false,
+    ["sign"]
+  );
+
+  const header = base64UrlEncode(encoder.encode(JSON.stringify({ typ: "JWT", alg: "ES256" })));
+  const claims = base64UrlEncode(
+    encoder.encode(
+      JSON.stringify({
+        aud: new URL(endpoint).origin,
+        exp: Math.floor(Date.now() / 1000) + 12 * 60 * 60,
+        sub: vapid.subject,
+      })
+    )
+  );
+  const signature = await crypto.subtle.sign(
+    { name: "ECDSA", hash: "SHA-256" },
+    signingKey,
+    encoder.encode(`${header}.${claims}`)
+  );
+  return `${header}.${claims}.${base64UrlEncode(new Uint8Array(signature))}`;
+}
+
+// Encrypt a payload for one subscription as a single aes128gcm record
+async function encryptPayload(target: PushTarget, payload: string) {
+  const clientPublicKey = base64UrlDecode(target.p256dh);
+  const authSecret = base64UrlDecode(target.auth);
+
+  const serverKeys = await crypto.subtle.generateKey({ name: "ECDH", namedCurve: "P-256" }, true, ["deriveBits"]);
+  const serverPublicKey = new Uint8Array(await crypto.subtle.exportKey("raw", serverKeys.publicKey));
+  const clientKey = await crypto.subtle.importKey(
+    "raw",
+    clientPublicKey,
+    { name: "ECDH", namedCurve: "P-256" },
+    false,
+    []
+  );
+  const sharedSecret = new Uint8Array(
+    await crypto.subtle.deriveBits({ name: "ECDH", public: clientKey }, serverKeys.privateKey, 256)
+  );
+
+  const keyInfo = concat(encoder.encode("WebPush: info\0"), clientPublicKey, serverPublicKey);
+  const ikm = await hkdf(authSecret, sharedSecret, keyInfo, 32);
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const contentKey = await hkdf(salt, ikm, encoder.encode("Content-Encoding: aes128gcm\0"), 16);
+  const nonce = await hkdf(salt, ikm, encoder.encode("Content-Encoding: nonce\0"), 12);
+
+  const key = await crypto.subtle.importKey("raw", contentKey, "AES-GCM", false, ["encrypt"]);
+  // 0x02 marks the last (and only) record
+  const plaintext = concat(encoder.encode(payload), new Uint8Array([2]));
+  const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: "AES-GCM", iv: nonce }, key, plaintext));
+
+  const recordSize = new Uint8Array(4);
+  new DataView(recordSize.buffer).setUint32(0, 4096);
+  return concat(salt, recordSize, new Uint8Array([serverPublicKey.length]), serverPublicKey, ciphertext);
+}
+
+// Deliver one push message. Returns the push service's HTTP status; 404 and 410 mean the
+// subscription is gone for good.
+export async function sendWebPush(
+  target: PushTarget,
+  payload: string,
+  vapid: VapidKeys,
+  options: { ttl?: number; urgency?: "low" | "normal" | "high" } = {}
+) {
+  const body = await encryptPayload(target, payload);
+  const token = await createVapidToken(target.endpoint, vapid);
+
+  const response = await fetch(target.endpoint, {
+    method: "POST",
+    headers: {
+      "Authorization": `vapid t=${token}, k=${vapid.publicKey}`,
+      "Content-Encoding": "aes128gcm",
+      "Content-Type": "application/octet-stream",
+      "TTL": String(options.ttl ?? 24 * 60 * 60),
+      "Urgency": options.urgency ?? "normal",
+    },
+    body,
+  });
+  return response.status;
+}
@@ -4,6 +4,8 @@ import { SignInForm } from "./SignInForm";
 import { SignOutButton } from "./SignOutButton";
 import { Toaster } from "sonner";
 import { Dashboard } from "./components/Dashboard";
+import { OfflineSync } from "./components/OfflineSync";
+import { Onboarding } from "./components/Onboarding";
 import { useState } from "react";
 
 export default function App() {
@@ -21,7 +23,18 @@ export default function App() {
 }
 
 function AuthenticatedApp() {
-  return <Dashboard />;
+  const profile = useQuery(api.profiles.getMyProfile);
+
+  if (profile?.needsOnboarding) {
+    return <Onboarding />;
+  }
+
+  return (
+    <>
+      <Dashboard />
+      <OfflineSync />
+    </>
+  );
 }
 
 function UnauthenticatedApp() {
@@ -0,0 +1,111 @@
+"use client";
+import { useAuthActions } from "@convex-dev/auth/react";
+import { useState } from "react";
+import { toast } from "sonner";
+
+interface ResetPasswordFormProps {
+  onCancel: () => void;
+}
+
+// Emails a code, then signs in with the code and a new password
+export function ResetPasswordForm({ onCancel }: ResetPasswordFormProps) {
+  const { signIn } = useAuthActions();
+  const [email, setEmail] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  return (
+    <div className="w-full">
+      {email === null ? (
+        <form
+          className="flex flex-col gap-form-field"
+          onSubmit={(e) => {
+            e.preventDefault();
+            setSubmitting(true);
+            const formData = new FormData(e.target as HTMLFormElement);
+            formData.set("flow", "reset");
+            signIn("password", formData)
+              .then(() => {
+                setEmail(formData.get("email") as string);
+              })
+              .catch(() => {
+                toast.error("Could not send a reset code. Check the email address and try again.");
+              })
+              .finally(() => setSubmitting(false));
+          }}
+        >
+          <p className="text-sm text-secondary">
+            Enter the email you signed up with and we'll send you a code to choose a new password.
+          </p>
+          <input
+            className="auth-input-field"
+            type="email"
+            name="email"
+            placeholder="Email"
+            required
+          />
+          <button className="auth-button" type="submit" disabled={submitting}>
+            Send code
+          </button>
+          <button
+            type="button"
+            className="text-sm text-secondary hover:underline cursor-pointer"
+            onClick={onCancel}
+          >
+            Back to sign in
+          </button>
+        </form>
+      ) : (
+        <form
+          className="flex flex-col gap-form-field"
+          onSubmit={(e) => {
+            e.preventDefault();
+            setSubmitting(true);
+            const formData = new FormData(e.target as HTMLFormElement);
+            formData.set("email", email);
+            formData.set("flow", "reset-verification");
+            void signIn("password", formData).catch((error) => {
+              toast.error(
+                error.message.includes("Invalid password")
+                  ? "Passwords need at least 8 characters."
+                  : "That code didn't work. Check it or request a new one."
+              );
+              setSubmitting(false);
+            });
+          }}
+        >
+          <p className="text-sm text-secondary">
+            We sent a code to <strong>{email}</strong>.
+          </p>
+          <input
+            className="auth-input-field"
+            type="text"
+            name="code"
+            placeholder="Code"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            required
+          />
+          <input
+            className="auth-input-field"
+            type="password"
+            name="newPassword"
+            placeholder="New password"
+            autoComplete="new-password"
+            minLength={8}
+            required
+          />
+          <button className="auth-button" type="submit" disabled={submitting}>
+            Set new password
+          </button>
+          <button
+            type="button"
+            className="text-sm text-secondary hover:underline cursor-pointer"
+            onClick={() => setEmail(null)}
+          >
+            Send a new code
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -2,11 +2,23 @@
 import { useAuthActions } from "@convex-dev/auth/react";
 import { useState } from "react";
 import { toast } from "sonner";
+import { ResetPasswordForm } from "./ResetPasswordForm";
+import { VerifyEmailForm } from "./VerifyEmailForm";
 
 export function SignInForm() {
   const { signIn } = useAuthActions();
   const [flow, setFlow] = useState<"signIn" | "signUp">("signIn");
   const [submitting, setSubmitting] = useState(false);
+  const [resetting, setResetting] = useState(false);
+  // Set when the password was accepted but the email still needs its code
+  const [unverifiedEmail, setUnverifiedEmail] = useState<string | null>(null);
+
+  if (resetting) {
+    return <ResetPasswordForm onCancel={() => setResetting(false)} />;
+  }
+  if (unverifiedEmail !== null) {
+    return <VerifyEmailForm email={unverifiedEmail} onCancel={() => setUnverifiedEmail(null)} />;
+  }
 
   return (
     <div className="w-full">
@@ -17,19 +29,26 @@ export function SignInForm() {
           setSubmitting(true);
           const formData = new FormData(e.target as HTMLFormElement);
           formData.set("flow", flow);
-          void signIn("password", formData).catch((error) => {
-            let toastTitle = "";
-            if (error.message.includes("Invalid password")) {
-              toastTitle = "Invalid password. Please try again.";
-            } else {
-              toastTitle =
-                flow === "signIn"
-                  ? "Could not sign in, did you mean to sign up?"
-                  : "Could not sign up, did you mean to sign in?";
-            }
-            toast.error(toastTitle);
-            setSubmitting(false);
-          });
+          void signIn("password", formData)
+            .then(({ signingIn }) => {
+              if (!signingIn) {
+                setUnverifiedEmail(formData.get("email") as string);
+                setSubmitting(false);
+              }
+            })
+            .catch((error) => {
+              let toastTitle = "";
+              if (error.message.includes("Invalid password")) {
+                toastTitle = "Invalid password. Please try again.";
+              } else {
+                toastTitle =
+                  flow === "signIn"
+                    ? "Could not sign in, did you mean to sign up?"
+                    : "Could not sign up, did you mean to sign in?";
+              }
+              toast.error(toastTitle);
+              setSubmitting(false);
+            });
         }}
       >
         <input
@@ -46,6 +65,15 @@ export function SignInForm() {
           placeholder="Password"
           required
         />
+        {flow === "signIn" && (
+          <button
+            type="button"
+            className="self-end text-sm text-primary hover:text-primary-hover hover:underline cursor-pointer"
+            onClick={() => setResetting(true)}
+          >
+            Forgot password?
+          </button>
+        )}
         <button className="auth-button" type="submit" disabled={submitting}>
           {flow === "signIn" ? "Sign in" : "Sign up"}
         </button>
@@ -0,0 +1,66 @@
+"use client";
+import { useAuthActions } from "@convex-dev/auth/react";
+import { useState } from "react";
+import { toast } from "sonner";
+
+interface VerifyEmailFormProps {
+  email: string;
+  onCancel: () => void;
+  cancelLabel?: string;
+  onVerified?: () => void;
+}
+
+// Shown after signing up or in with an address that hasn't been confirmed yet
+export function VerifyEmailForm({
+  email,
+  onCancel,
+  cancelLabel = "Back to sign in",
+  onVerified,
+}: VerifyEmailFormProps) {
+  const { signIn } = useAuthActions();
+  const [submitting, setSubmitting] = useState(false);
+
+  return (
+    <div className="w-full">
+      <p className="text-sm text-secondary mb-4">
+        We sent a code to <strong>{email}</strong>. Enter it to confirm your email address.
+      </p>
+      <form
+        className="flex flex-col gap-form-field"
+        onSubmit={(e) => {
+          e.preventDefault();
+          setSubmitting(true);
+          const formData = new FormData(e.target as HTMLFormElement);
+          formData.set("email", email);
+          formData.set("flow", "email-verification");
+          void signIn("password", formData)
+            .then(() => onVerified?.())
+            .catch(() => {
+              toast.error("That code didn't work. Check it or sign in again for a new one.");
+              setSubmitting(false);
+            });
+        }}
+      >
+        <input
+          className="auth-input-field"
+          type="text"
+          name="code"
+          placeholder="Code"
+          inputMode="numeric"
+          autoComplete="one-time-code"
+          required
+        />
+        <button className="auth-button" type="submit" disabled={submitting}>
+          Confirm email
+        </button>
+        <button
+          type="button"
+          className="text-sm text-secondary hover:underline cursor-pointer"
+          onClick={onCancel}
+        >
+          {cancelLabel}
+        </button>
+      </form>
+    </div>
+  );
+}
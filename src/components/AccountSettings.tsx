@@ -0,0 +1,249 @@
+import { useState } from "react";
+import { useAction, useMutation } from "convex/react";
+import { useAuthActions } from "@convex-dev/auth/react";
+import { api } from "../../convex/_generated/api";
+import { toast } from "sonner";
+import { downloadFile } from "../lib/utils";
+import { VerifyEmailForm } from "../VerifyEmailForm";
+
+interface AccountSettingsProps {
+  isAnonymous: boolean;
+}
+
+// Typed to confirm, so the account isn't deleted by a stray click
+const DELETE_CONFIRMATION = "DELETE";
+
+// Logins, merging, data download and account deletion
+export function AccountSettings({ isAnonymous }: AccountSettingsProps) {
+  const mergeAccount = useAction(api.accounts.mergeAccount);
+  const exportMyData = useAction(api.exports.exportMyData);
+  const deleteAccount = useMutation(api.accounts.deleteAccount);
+  const { signIn, signOut } = useAuthActions();
+
+  const [loginEmail, setLoginEmail] = useState("");
+  const [loginPassword, setLoginPassword] = useState("");
+  const [isUpgrading, setIsUpgrading] = useState(false);
+  // Set once the login is added and its email is waiting for the code
+  const [upgradeEmail, setUpgradeEmail] = useState<string | null>(null);
+
+  const [mergeEmail, setMergeEmail] = useState("");
+  const [mergePassword, setMergePassword] = useState("");
+  const [isMerging, setIsMerging] = useState(false);
+
+  const [isExporting, setIsExporting] = useState(false);
+  const [deleteConfirmation, setDeleteConfirmation] = useState("");
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const handleUpgrade = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsUpgrading(true);
+    try {
+      // The normal sign-up flow; auth.ts attaches the login to this guest account and the
+      // email is confirmed with a code before it is trusted
+      const email = loginEmail.trim().toLowerCase();
+      await signIn("password", { email, password: loginPassword, flow: "signUp" });
+      setUpgradeEmail(email);
+      setLoginEmail("");
+      setLoginPassword("");
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "";
+      toast.error(
+        message.includes("already exists")
+          ? "There is already an account with this email. Merge it into this one instead."
+          : message.includes("Invalid password")
+            ? "Passwords need at least 8 characters."
+            : "Failed to add a login"
+      );
+    } finally {
+      setIsUpgrading(false);
+    }
+  };
+
+  const handleMerge = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (
+      !window.confirm(
+        `Move everything from ${mergeEmail.trim()} into this account? The other account will be deleted and its login will sign in here.`
+      )
+    ) {
+      return;
+    }
+
+    setIsMerging(true);
+    try {
+      const result = await mergeAccount({ email: mergeEmail, password: mergePassword });
+      setMergeEmail("");
+      setMergePassword("");
+      toast.success(
+        `Accounts merged: ${result.entries} ${result.entries === 1 ? "entry" : "entries"} and ${result.groups} ${
+          result.groups === 1 ? "journal" : "journals"
+        } moved`
+      );
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to merge accounts");
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const { url, fileName } = await exportMyData();
+      await downloadFile(url, fileName);
+      toast.success("Your data is ready");
+    } catch (error) {
+      toast.error("Failed to export your data");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleDelete = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (deleteConfirmation !== DELETE_CONFIRMATION) return;
+
+    setIsDeleting(true);
+    try {
+      await deleteAccount();
+      toast.success("Your account was deleted");
+      await signOut();
+    } catch (error) {
+      toast.error("Failed to delete your account");
+      setIsDeleting(false);
+    }
+  };
+
+  const inputClassName =
+    "w-full px-4 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-orange-400 focus:border-transparent outline-none";
+
+  return (
+    <div className="space-y-6">
+      {upgradeEmail !== null && (
+        <div className="space-y-3">
+          <h3 className="font-semibold text-gray-800">Confirm your email</h3>
+          <VerifyEmailForm
+            email={upgradeEmail}
+            onCancel={() => setUpgradeEmail(null)}
+            cancelLabel="Later"
+            onVerified={() => {
+              setUpgradeEmail(null);
+              toast.success("Login added. Sign in with your email and password from now on.");
+            }}
+          />
+        </div>
+      )}
+
+      {isAnonymous && upgradeEmail === null && (
+        <form onSubmit={handleUpgrade} className="space-y-3">
+          <div>
+            <h3 className="font-semibold text-gray-800">Keep your journals</h3>
+            <p className="text-sm text-gray-500">
+              You're signed in as a guest. Add an email and password so you can sign in again from any device.
+            </p>
+          </div>
+          <input
+            type="email"
+            value={loginEmail}
+            onChange={(e) => setLoginEmail(e.target.value)}
+            placeholder="Email"
+            required
+            className={inputClassName}
+          />
+          <input
+            type="password"
+            value={loginPassword}
+            onChange={(e) => setLoginPassword(e.target.value)}
+            placeholder="Password (at least 8 characters)"
+            minLength={8}
+            required
+            className={inputClassName}
+          />
+          <button
+            type="submit"
+            disabled={isUpgrading}
+            className="w-full px-4 py-3 bg-gradient-to-r from-orange-400 to-pink-400 text-white rounded-lg hover:from-orange-500 hover:to-pink-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isUpgrading ? "Saving..." : "Add login"}
+          </button>
+        </form>
+      )}
+
+      <form onSubmit={handleMerge} className="space-y-3">
+        <div>
+          <h3 className="font-semibold text-gray-800">Merge another account</h3>
+          <p className="text-sm text-gray-500">
+            Created a second account by mistake? Sign in to it here to move its entries, journals and notifications into
+            this one.
+          </p>
+        </div>
+        <input
+          type="email"
+          value={mergeEmail}
+          onChange={(e) => setMergeEmail(e.target.value)}
+          placeholder="Other account's email"
+          required
+          className={inputClassName}
+        />
+        <input
+          type="password"
+          value={mergePassword}
+          onChange={(e) => setMergePassword(e.target.value)}
+          placeholder="Other account's password"
+          required
+          className={inputClassName}
+        />
+        <button
+          type="submit"
+          disabled={isMerging}
+          className="w-full px-4 py-3 border border-orange-300 text-orange-700 rounded-lg hover:bg-orange-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isMerging ? "Merging..." : "Merge into this account"}
+        </button>
+      </form>
+
+      <div className="space-y-3">
+        <div>
+          <h3 className="font-semibold text-gray-800">Download your data</h3>
+          <p className="text-sm text-gray-500">
+            A JSON file with your profile, entries and their history, drafts, comments, reactions, invitations
+            you sent, unpublished uploads, AI chats, notifications and settings, with your photos and voice memos
+            included.
+          </p>
+        </div>
+        <button
+          onClick={handleExport}
+          disabled={isExporting}
+          className="w-full px-4 py-3 border border-orange-300 text-orange-700 rounded-lg hover:bg-orange-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isExporting ? "Preparing..." : "Download my data"}
+        </button>
+      </div>
+
+      <form onSubmit={handleDelete} className="space-y-3">
+        <div>
+          <h3 className="font-semibold text-red-700">Delete account</h3>
+          <p className="text-sm text-gray-500">
+            You'll leave all your journals, and your drafts, AI chats, notifications and settings will be deleted.
+            Each journal decides whether your entries and comments stay there as "Deleted account" or are removed. This
+            can't be undone.
+          </p>
+        </div>
+        <input
+          type="text"
+          value={deleteConfirmation}
+          onChange={(e) => setDeleteConfirmation(e.target.value)}
+          placeholder={`Type ${DELETE_CONFIRMATION} to confirm`}
+          className={inputClassName}
+        />
+        <button
+          type="submit"
+          disabled={isDeleting || deleteConfirmation !== DELETE_CONFIRMATION}
+          className="w-full px-4 py-3 border border-red-200 text-red-600 rounded-lg hover:bg-red-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isDeleting ? "Deleting..." : "Delete my account"}
+        </button>
+      </form>
+    </div>
+  );
+}
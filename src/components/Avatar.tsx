@@ -0,0 +1,35 @@
+interface AvatarProps {
+  name?: string | null;
+  avatarUrl?: string | null;
+  // Size, border and the background behind the initial
+  className?: string;
+  title?: string;
+}
+
+// A user's avatar image, or the first letter of their name when they have none
+export function Avatar({
+  name,
+  avatarUrl,
+  className = "w-8 h-8 text-sm bg-gradient-to-br from-orange-200 to-pink-200 text-gray-700",
+  title,
+}: AvatarProps) {
+  if (avatarUrl) {
+    return (
+      <img
+        src={avatarUrl}
+        alt={name || "Avatar"}
+        title={title}
+        className={`${className} rounded-full object-cover flex-shrink-0`}
+      />
+    );
+  }
+
+  return (
+    <div
+      title={title}
+      className={`${className} rounded-full flex items-center justify-center font-medium flex-shrink-0`}
+    >
+      {(name || "?")[0].toUpperCase()}
+    </div>
+  );
+}
@@ -2,13 +2,15 @@ import { useQuery } from "convex/react";
 import { api } from "../../convex/_generated/api";
 import { useState } from "react";
 import { Id } from "../../convex/_generated/dataModel";
+import { toPlainText } from "../../convex/markdown";
 
 interface CalendarViewProps {
   groupId: Id<"groups">;
   onBack: () => void;
+  onSelectDate: (date: Date) => void;
 }
 
-export function CalendarView({ groupId, onBack }: CalendarViewProps) {
+export function CalendarView({ groupId, onBack, onSelectDate }: CalendarViewProps) {
   const [currentDate, setCurrentDate] = useState(new Date());
   const year = currentDate.getFullYear();
   const month = currentDate.getMonth() + 1;
@@ -122,9 +124,13 @@ export function CalendarView({ groupId, onBack }: CalendarViewProps) {
             return (
               <div
                 key={day}
+                onClick={() => hasEntries && onSelectDate(new Date(year, month - 1, day))}
                 className={`h-24 p-1 border border-gray-100 rounded-lg ${
-                  hasEntries ? "bg-gradient-to-br from-orange-50 to-pink-50" : "bg-gray-50"
+                  hasEntries
+                    ? "bg-gradient-to-br from-orange-50 to-pink-50 cursor-pointer hover:border-orange-300"
+                    : "bg-gray-50"
                 }`}
+                title={hasEntries ? "Show in timeline" : undefined}
               >
                 <div className="h-full flex flex-col">
                   <div className={`text-sm font-medium mb-1 ${
@@ -139,9 +145,12 @@ export function CalendarView({ groupId, onBack }: CalendarViewProps) {
                         <div
                           key={entry._id}
                           className="text-xs bg-white/70 rounded px-1 py-0.5 truncate"
-                          title={entry.title || entry.content.slice(0, 50)}
+                          title={entry.title || toPlainText(entry).slice(0, 50)}
                         >
                           <span className="font-medium">{entry.author?.name}</span>
+                          {entry.isSkipped && (
+                            <span className="text-gray-400"> (skipped)</span>
+                          )}
                           {entry.title && (
                             <span className="text-gray-600">: {entry.title}</span>
                           )}
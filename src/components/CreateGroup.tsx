@@ -11,6 +11,7 @@ interface CreateGroupProps {
 export function CreateGroup({ onBack, onSuccess }: CreateGroupProps) {
   const [name, setName] = useState("");
   const [description, setDescription] = useState("");
+  const [turnTimeLimitHours, setTurnTimeLimitHours] = useState(0);
   const [isLoading, setIsLoading] = useState(false);
 
   const createGroup = useMutation(api.groups.createGroup);
@@ -28,6 +29,7 @@ export function CreateGroup({ onBack, onSuccess }: CreateGroupProps) {
       await createGroup({
         name: name.trim(),
         description: description.trim() || undefined,
+        turnTimeLimitHours: turnTimeLimitHours || undefined,
       });
       toast.success("Journal created successfully!");
       onSuccess();
@@ -86,6 +88,27 @@ export function CreateGroup({ onBack, onSuccess }: CreateGroupProps) {
             />
           </div>
 
+          {/* Turn Time Limit */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Time limit per turn
+            </label>
+            <select
+              value={turnTimeLimitHours}
+              onChange={(e) => setTurnTimeLimitHours(Number(e.target.value))}
+              className="w-full px-4 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-orange-400 focus:border-transparent outline-none bg-white"
+            >
+              <option value={0}>No limit</option>
+              <option value={24}>1 day</option>
+              <option value={48}>2 days</option>
+              <option value={72}>3 days</option>
+              <option value={168}>1 week</option>
+            </select>
+            <p className="text-xs text-gray-500 mt-1">
+              Writers get a reminder before time runs out, then the journal moves on automatically.
+            </p>
+          </div>
+
           {/* Info Box */}
           <div className="bg-orange-50 border border-orange-200 rounded-lg p-4">
             <h4 className="font-medium text-orange-800 mb-2">How it works:</h4>
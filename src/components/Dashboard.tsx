@@ -1,31 +1,98 @@
-import { useState } from "react";
-import { useQuery } from "convex/react";
+import { useState, useEffect, useRef } from "react";
+import { useQuery, useMutation } from "convex/react";
+import { toast } from "sonner";
 import { api } from "../../convex/_generated/api";
 import { SignOutButton } from "../SignOutButton";
 import { GroupList } from "./GroupList";
 import { JournalView } from "./JournalView";
 import { CreateGroup } from "./CreateGroup";
 import { AIChat } from "./AIChat";
+import { SearchEntries } from "./SearchEntries";
 import { NotificationBell } from "./NotificationBell";
+import { NotificationCenter } from "./NotificationCenter";
+import { NotificationLink } from "./NotificationItem";
+import { NotificationSettings } from "./NotificationSettings";
+import { ProfileSettings } from "./ProfileSettings";
+import { Avatar } from "./Avatar";
 import { Id } from "../../convex/_generated/dataModel";
+import { takePendingInviteCode } from "../lib/invite";
+import { DeepLink, onDeepLinkMessage, takePendingDeepLink } from "../lib/deepLink";
 
-type View = "groups" | "journal" | "create-group" | "ai-chat";
+type View = "groups" | "journal" | "create-group" | "ai-chat" | "search" | "settings" | "notifications" | "profile";
 
 export function Dashboard() {
   const [currentView, setCurrentView] = useState<View>("groups");
   const [selectedGroupId, setSelectedGroupId] = useState<Id<"groups"> | null>(null);
-  const user = useQuery(api.auth.loggedInUser);
+  const [focusEntry, setFocusEntry] = useState<{ entryId: Id<"entries">; entryDate: number } | null>(null);
+  const [searchInput, setSearchInput] = useState("");
+  const [searchQuery, setSearchQuery] = useState("");
+  const [pendingLink, setPendingLink] = useState<DeepLink | null>(null);
+  const profile = useQuery(api.profiles.getMyProfile);
+  const joinGroup = useMutation(api.groups.joinGroupWithCode);
+  const linkTarget = useQuery(api.notifications.getLinkTarget, pendingLink ?? "skip");
+  const inviteHandled = useRef(false);
+
+  // Join straight away when the app was opened from an invite link
+  useEffect(() => {
+    if (inviteHandled.current) return;
+    inviteHandled.current = true;
+
+    const inviteCode = takePendingInviteCode();
+    if (!inviteCode) return;
+
+    joinGroup({ inviteCode })
+      .then((result) => {
+        toast.success(result.alreadyMember ? "You're already in this journal" : "Successfully joined the group!");
+        setSelectedGroupId(result.groupId);
+        setCurrentView("journal");
+      })
+      .catch(() => {
+        toast.error("This invite link is invalid, expired or meant for someone else.");
+      });
+  }, [joinGroup]);
 
   const handleGroupSelect = (groupId: Id<"groups">) => {
     setSelectedGroupId(groupId);
+    setFocusEntry(null);
+    setCurrentView("journal");
+  };
+
+  const handleOpenEntry = (groupId: Id<"groups">, entryId: Id<"entries">, entryDate: number) => {
+    setSelectedGroupId(groupId);
+    setFocusEntry({ entryId, entryDate });
     setCurrentView("journal");
   };
 
+  const handleOpenLink = (link: NotificationLink) => {
+    if (link.entry) {
+      handleOpenEntry(link.groupId, link.entry.entryId, link.entry.entryDate);
+    } else {
+      handleGroupSelect(link.groupId);
+    }
+  };
+
   const handleBackToGroups = () => {
     setCurrentView("groups");
     setSelectedGroupId(null);
   };
 
+  // Open the group or entry from a notification link once it has been looked up
+  useEffect(() => {
+    const link = takePendingDeepLink();
+    if (link) setPendingLink(link);
+    return onDeepLinkMessage(setPendingLink);
+  }, []);
+
+  useEffect(() => {
+    if (!pendingLink || linkTarget === undefined) return;
+    setPendingLink(null);
+    if (linkTarget) {
+      handleOpenLink(linkTarget);
+    } else {
+      toast.error("This journal is no longer available");
+    }
+  }, [pendingLink, linkTarget]);
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-orange-50 via-pink-50 to-purple-50">
       {/* Header */}
@@ -46,7 +113,48 @@ export function Dashboard() {
           </div>
 
           <div className="flex items-center gap-4">
-            <NotificationBell />
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                if (!searchInput.trim()) return;
+                setSearchQuery(searchInput.trim());
+                setCurrentView("search");
+              }}
+              className="hidden md:block"
+            >
+              <input
+                type="search"
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+                placeholder="🔍 Search journals..."
+                className="w-56 px-3 py-1.5 text-sm border border-gray-200 rounded-lg focus:ring-2 focus:ring-orange-400 focus:border-transparent outline-none bg-white/80"
+              />
+            </form>
+            <button
+              onClick={() => {
+                setSearchQuery(searchInput.trim());
+                setCurrentView("search");
+              }}
+              className="md:hidden p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+              title="Search"
+            >
+              <span className="text-lg">🔍</span>
+            </button>
+            <NotificationBell
+              onOpenLink={handleOpenLink}
+              onViewAll={() => setCurrentView("notifications")}
+            />
+            <button
+              onClick={() => setCurrentView("settings")}
+              className={`p-2 rounded-lg transition-colors ${
+                currentView === "settings"
+                  ? "bg-orange-100 text-orange-600"
+                  : "text-gray-600 hover:bg-gray-100"
+              }`}
+              title="Notification Settings"
+            >
+              <span className="text-lg">⚙️</span>
+            </button>
             <button
               onClick={() => setCurrentView("ai-chat")}
               className={`p-2 rounded-lg transition-colors ${
@@ -58,9 +166,14 @@ export function Dashboard() {
             >
               <span className="text-lg">🤖</span>
             </button>
-            <div className="flex items-center gap-2 text-sm text-gray-600">
-              <span>Hello, {user?.name || user?.email || "friend"}!</span>
-            </div>
+            <button
+              onClick={() => setCurrentView("profile")}
+              className="flex items-center gap-2 text-sm text-gray-600 hover:opacity-80 transition-opacity"
+              title="Your Profile"
+            >
+              <Avatar name={profile?.displayName || profile?.email} avatarUrl={profile?.avatarUrl} />
+              <span className="hidden sm:inline">Hello, {profile?.displayName || profile?.email || "friend"}!</span>
+            </button>
             <SignOutButton />
           </div>
         </div>
@@ -77,7 +190,9 @@ export function Dashboard() {
 
         {currentView === "journal" && selectedGroupId && (
           <JournalView
+            key={`${selectedGroupId}-${focusEntry?.entryId}`}
             groupId={selectedGroupId}
+            focusEntry={focusEntry}
             onBack={handleBackToGroups}
           />
         )}
@@ -89,12 +204,40 @@ export function Dashboard() {
           />
         )}
 
+        {currentView === "search" && (
+          <SearchEntries
+            key={searchQuery}
+            initialQuery={searchQuery}
+            onBack={handleBackToGroups}
+            onOpenEntry={handleOpenEntry}
+          />
+        )}
+
         {currentView === "ai-chat" && (
           <AIChat
             groupId={selectedGroupId}
             onBack={() => setCurrentView(selectedGroupId ? "journal" : "groups")}
           />
         )}
+
+        {currentView === "notifications" && (
+          <NotificationCenter
+            onBack={() => setCurrentView(selectedGroupId ? "journal" : "groups")}
+            onOpenLink={handleOpenLink}
+            onOpenSettings={() => setCurrentView("settings")}
+          />
+        )}
+
+        {currentView === "profile" && (
+          <ProfileSettings onBack={() => setCurrentView(selectedGroupId ? "journal" : "groups")} />
+        )}
+
+        {currentView === "settings" && (
+          <NotificationSettings
+            onBack={() => setCurrentView(selectedGroupId ? "journal" : "groups")}
+            onOpenProfile={() => setCurrentView("profile")}
+          />
+        )}
       </main>
     </div>
   );
@@ -0,0 +1,97 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { toast } from "sonner";
+import { Id } from "../../convex/_generated/dataModel";
+
+interface DraftPickerProps {
+  groupId: Id<"groups">;
+  currentDraftId: Id<"drafts"> | null;
+  onOpen: (draftId: Id<"drafts">) => void;
+  onNew: () => void;
+  onDeleted: (draftId: Id<"drafts">) => void;
+}
+
+export function DraftPicker({ groupId, currentDraftId, onOpen, onNew, onDeleted }: DraftPickerProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const drafts = useQuery(api.entries.getDrafts, { groupId });
+  const deleteDraft = useMutation(api.entries.deleteDraft);
+
+  const handleDelete = async (draftId: Id<"drafts">) => {
+    if (!window.confirm("Delete this draft?")) return;
+    try {
+      await deleteDraft({ draftId });
+      onDeleted(draftId);
+    } catch (error) {
+      toast.error("Failed to delete draft");
+    }
+  };
+
+  const formatUpdated = (timestamp: number) => {
+    return new Date(timestamp).toLocaleString("en-US", {
+      month: "short",
+      day: "numeric",
+      hour: "numeric",
+      minute: "2-digit",
+    });
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors"
+      >
+        📝 Drafts{drafts && drafts.length > 0 ? ` (${drafts.length})` : ""}
+      </button>
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-10" onClick={() => setIsOpen(false)} />
+          <div className="absolute right-0 top-full mt-2 w-72 bg-white rounded-lg shadow-lg border border-gray-200 z-20 overflow-hidden">
+            <button
+              onClick={() => {
+                setIsOpen(false);
+                onNew();
+              }}
+              className="w-full text-left px-4 py-3 text-sm text-orange-600 hover:bg-gray-50"
+            >
+              ✏️ Start a new draft
+            </button>
+            {drafts?.map((draft) => (
+              <div
+                key={draft._id}
+                className={`flex items-start gap-2 px-4 py-3 border-t border-gray-100 hover:bg-gray-50 ${
+                  draft._id === currentDraftId ? "bg-orange-50" : ""
+                }`}
+              >
+                <button
+                  onClick={() => {
+                    setIsOpen(false);
+                    onOpen(draft._id);
+                  }}
+                  className="flex-1 text-left min-w-0"
+                >
+                  <p className="text-sm font-medium text-gray-800 truncate">
+                    {draft.name || draft.title || draft.preview || "Untitled draft"}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {formatUpdated(draft.updatedAt)}
+                    {draft.photoCount > 0 && ` · 📷 ${draft.photoCount}`}
+                    {draft.hasAudio && " · 🎙️"}
+                  </p>
+                </button>
+                <button
+                  onClick={() => handleDelete(draft._id)}
+                  className="text-gray-400 hover:text-red-500 text-sm"
+                  title="Delete draft"
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,183 @@
+import { useState } from "react";
+import { useMutation } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { toast } from "sonner";
+import { Id } from "../../convex/_generated/dataModel";
+import { MarkdownEditor } from "./MarkdownEditor";
+import { EditablePhoto, PhotoEditor } from "./PhotoEditor";
+import { EditableAudio, VoiceRecorder } from "./VoiceRecorder";
+
+interface EditEntryProps {
+  entry: {
+    _id: Id<"entries">;
+    groupId: Id<"groups">;
+    title?: string;
+    content: string;
+    photos: EditablePhoto[];
+    audio: EditableAudio | null;
+    tags?: string[];
+  };
+  onBack: () => void;
+  onSuccess: () => void;
+}
+
+export function EditEntry({ entry, onBack, onSuccess }: EditEntryProps) {
+  const [title, setTitle] = useState(entry.title || "");
+  const [content, setContent] = useState(entry.content);
+  const [tags, setTags] = useState<string[]>(entry.tags || []);
+  const [tagInput, setTagInput] = useState("");
+  const [photos, setPhotos] = useState(entry.photos);
+  const [audio, setAudio] = useState(entry.audio);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const updateEntry = useMutation(api.entries.updateEntry);
+
+  const handleSave = async () => {
+    if (!content.trim() && !audio) {
+      toast.error("Entry content cannot be empty");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await updateEntry({
+        entryId: entry._id,
+        title: title.trim() || undefined,
+        content: content.trim(),
+        contentFormat: "markdown",
+        photos: photos.length > 0 ? photos.map((photo) => photo.id) : undefined,
+        photoCaptions: photos.length > 0
+          ? photos.map((photo) => ({ storageId: photo.id, caption: photo.caption }))
+          : undefined,
+        audio: audio ? { storageId: audio.storageId, duration: audio.duration } : undefined,
+        tags: tags.length > 0 ? tags : undefined,
+      });
+      onSuccess();
+    } catch (error) {
+      toast.error("Failed to update entry");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAddTag = () => {
+    const tag = tagInput.trim();
+    if (tag && !tags.includes(tag)) {
+      setTags([...tags, tag]);
+      setTagInput("");
+    }
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      {/* Header */}
+      <div className="flex items-center gap-4">
+        <button
+          onClick={onBack}
+          className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+        >
+          ← Back
+        </button>
+        <h2 className="text-2xl font-bold text-gray-800">Edit Entry</h2>
+      </div>
+
+      <div className="bg-white/70 backdrop-blur-sm rounded-2xl p-6 border border-orange-200 shadow-sm">
+        {/* Title Input */}
+        <div className="mb-6">
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Title (optional)
+          </label>
+          <input
+            type="text"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            className="w-full px-4 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-orange-400 focus:border-transparent outline-none"
+          />
+        </div>
+
+        {/* Content Textarea */}
+        <div className="mb-6">
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Your thoughts *
+          </label>
+          <MarkdownEditor value={content} onChange={setContent} />
+        </div>
+
+        {/* Voice Memo */}
+        <div className="mb-6">
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Voice memo
+          </label>
+          <VoiceRecorder groupId={entry.groupId} audio={audio} onChange={setAudio} />
+        </div>
+
+        {/* Photos */}
+        <div className="mb-6">
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Photos
+          </label>
+          <PhotoEditor groupId={entry.groupId} photos={photos} onChange={setPhotos} />
+        </div>
+
+        {/* Tags */}
+        <div className="mb-6">
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Tags (optional)
+          </label>
+          <div className="flex gap-2 mb-3">
+            <input
+              type="text"
+              value={tagInput}
+              onChange={(e) => setTagInput(e.target.value)}
+              onKeyPress={(e) => e.key === "Enter" && handleAddTag()}
+              placeholder="Add a tag..."
+              className="flex-1 px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-orange-400 focus:border-transparent outline-none"
+            />
+            <button
+              onClick={handleAddTag}
+              className="px-4 py-2 bg-orange-100 text-orange-600 rounded-lg hover:bg-orange-200 transition-colors"
+            >
+              Add
+            </button>
+          </div>
+
+          {tags.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {tags.map((tag) => (
+                <span
+                  key={tag}
+                  className="bg-orange-100 text-orange-600 text-sm px-3 py-1 rounded-full flex items-center gap-2"
+                >
+                  #{tag}
+                  <button
+                    onClick={() => setTags(tags.filter((t) => t !== tag))}
+                    className="text-orange-400 hover:text-orange-600"
+                  >
+                    ×
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Save Button */}
+        <div className="flex justify-end gap-3">
+          <button
+            onClick={onBack}
+            className="px-6 py-3 border border-gray-200 text-gray-600 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving || (!content.trim() && !audio)}
+            className="px-6 py-3 bg-gradient-to-r from-orange-400 to-pink-400 text-white rounded-lg hover:from-orange-500 hover:to-pink-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSaving ? "Saving..." : "Save Changes"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+import { useQuery, useMutation } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { useState } from "react";
+import { toast } from "sonner";
+import { Id } from "../../convex/_generated/dataModel";
+import { Avatar } from "./Avatar";
+
+interface EntryCommentsProps {
+  entryId: Id<"entries">;
+  currentUserId?: Id<"users">;
+}
+
+export function EntryComments({ entryId, currentUserId }: EntryCommentsProps) {
+  const [content, setContent] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const comments = useQuery(api.comments.getComments, { entryId });
+  const addComment = useMutation(api.comments.addComment);
+  const deleteComment = useMutation(api.comments.deleteComment);
+
+  const handleSubmit = async () => {
+    if (!content.trim() || isSubmitting) return;
+
+    setIsSubmitting(true);
+    try {
+      await addComment({ entryId, content: content.trim() });
+      setContent("");
+    } catch (error) {
+      toast.error("Failed to add comment");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (commentId: Id<"comments">) => {
+    try {
+      await deleteComment({ commentId });
+    } catch (error) {
+      toast.error("Failed to delete comment");
+    }
+  };
+
+  const formatTime = (timestamp: number) => {
+    return new Date(timestamp).toLocaleString("en-US", {
+      month: "short",
+      day: "numeric",
+      hour: "numeric",
+      minute: "2-digit",
+    });
+  };
+
+  return (
+    <div className="mt-4 pt-4 border-t border-orange-100 space-y-3">
+      {comments?.map((comment) => (
+        <div key={comment._id} className="flex items-start gap-3">
+          <Avatar
+            name={comment.author?.name}
+            avatarUrl={comment.author?.avatarUrl}
+            className="w-7 h-7 bg-gradient-to-br from-orange-200 to-pink-200 text-xs text-gray-700"
+          />
+          <div className="flex-1 min-w-0 bg-white/80 rounded-lg px-3 py-2">
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-sm font-medium text-gray-800">
+                {comment.author?.name || "Unknown"}
+                <span className="ml-2 text-xs font-normal text-gray-400">
+                  {formatTime(comment.createdAt)}
+                </span>
+              </p>
+              {comment.authorId === currentUserId && (
+                <button
+                  onClick={() => handleDelete(comment._id)}
+                  className="text-xs text-gray-400 hover:text-red-500"
+                >
+                  Delete
+                </button>
+              )}
+            </div>
+            <p className="text-sm text-gray-700 whitespace-pre-wrap">{comment.content}</p>
+          </div>
+        </div>
+      ))}
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={content}
+          onChange={(e) => setContent(e.target.value)}
+          onKeyPress={(e) => e.key === "Enter" && handleSubmit()}
+          placeholder="Write a comment..."
+          className="flex-1 px-3 py-2 text-sm border border-gray-200 rounded-lg focus:ring-2 focus:ring-orange-400 focus:border-transparent outline-none"
+        />
+        <button
+          onClick={handleSubmit}
+          disabled={!content.trim() || isSubmitting}
+          className="px-4 py-2 text-sm bg-orange-100 text-orange-600 rounded-lg hover:bg-orange-200 transition-colors disabled:opacity-50"
+        >
+          Send
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+import { useMutation } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { useState } from "react";
+import { toast } from "sonner";
+import { Id } from "../../convex/_generated/dataModel";
+
+const REACTION_EMOJIS = ["❤️", "😂", "😮", "😢", "👏", "🙏"];
+
+interface EntryReactionsProps {
+  entryId: Id<"entries">;
+  reactions: { emoji: string; count: number; reactedByMe: boolean }[];
+}
+
+export function EntryReactions({ entryId, reactions }: EntryReactionsProps) {
+  const [showPicker, setShowPicker] = useState(false);
+  const toggleReaction = useMutation(api.reactions.toggleReaction);
+
+  const handleToggle = async (emoji: string) => {
+    setShowPicker(false);
+    try {
+      await toggleReaction({ entryId, emoji });
+    } catch (error) {
+      toast.error("Failed to update reaction");
+    }
+  };
+
+  return (
+    <div className="relative flex flex-wrap items-center gap-2">
+      {reactions.map((reaction) => (
+        <button
+          key={reaction.emoji}
+          onClick={() => handleToggle(reaction.emoji)}
+          className={`text-sm px-2 py-1 rounded-full border transition-colors ${
+            reaction.reactedByMe
+              ? "bg-orange-100 border-orange-300 text-orange-700"
+              : "bg-white border-gray-200 text-gray-600 hover:bg-gray-50"
+          }`}
+        >
+          {reaction.emoji} {reaction.count}
+        </button>
+      ))}
+      <button
+        onClick={() => setShowPicker(!showPicker)}
+        className="text-sm px-2 py-1 rounded-full border border-dashed border-gray-300 text-gray-500 hover:bg-gray-50 transition-colors"
+        title="Add reaction"
+      >
+        + 😊
+      </button>
+
+      {showPicker && (
+        <div className="absolute left-0 bottom-full mb-2 bg-white rounded-full shadow-lg border border-gray-200 px-2 py-1 flex gap-1 z-10">
+          {REACTION_EMOJIS.map((emoji) => (
+            <button
+              key={emoji}
+              onClick={() => handleToggle(emoji)}
+              className="text-lg p-1 hover:scale-125 transition-transform"
+            >
+              {emoji}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
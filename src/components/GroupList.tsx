@@ -3,6 +3,7 @@ import { api } from "../../convex/_generated/api";
 import { useState } from "react";
 import { toast } from "sonner";
 import { Id } from "../../convex/_generated/dataModel";
+import { Avatar } from "./Avatar";
 
 interface GroupListProps {
   onGroupSelect: (groupId: Id<"groups">) => void;
@@ -19,10 +20,11 @@ export function GroupList({ onGroupSelect, onCreateGroup }: GroupListProps) {
     if (!inviteCode.trim()) return;
 
     try {
-      await joinGroup({ inviteCode: inviteCode.trim() });
-      toast.success("Successfully joined the group!");
+      const result = await joinGroup({ inviteCode: inviteCode.trim() });
+      toast.success(result.alreadyMember ? "You're already in this journal" : "Successfully joined the group!");
       setShowInviteModal(false);
       setInviteCode("");
+      onGroupSelect(result.groupId);
     } catch (error) {
       toast.error("Failed to join group. Please check the invite code.");
     }
@@ -126,13 +128,13 @@ export function GroupList({ onGroupSelect, onCreateGroup }: GroupListProps) {
                 <div className="flex -space-x-1">
                   {group.members.slice(0, 4).map((member, index) => 
                     member ? (
-                      <div
+                      <Avatar
                         key={member._id}
-                        className="w-6 h-6 bg-gradient-to-br from-orange-300 to-pink-300 rounded-full border-2 border-white flex items-center justify-center text-xs text-white font-medium"
+                        name={member.name || member.email}
+                        avatarUrl={member.avatarUrl}
                         title={member.name || member.email}
-                      >
-                        {(member.name || member.email || "?")[0].toUpperCase()}
-                      </div>
+                        className="w-6 h-6 bg-gradient-to-br from-orange-300 to-pink-300 border-2 border-white text-xs text-white"
+                      />
                     ) : null
                   )}
                   {group.members.length > 4 && (
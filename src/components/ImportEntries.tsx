@@ -0,0 +1,208 @@
+import { useMutation } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { useState } from "react";
+import { toast } from "sonner";
+import { Id } from "../../convex/_generated/dataModel";
+import { ImportedEntry, ImportedPhoto, parseImportFile } from "../lib/importParsers";
+import { prepareImage } from "../lib/images";
+
+const BATCH_SIZE = 50;
+
+interface ImportEntriesProps {
+  groupId: Id<"groups">;
+  members: ({ _id: Id<"users">; name?: string; email?: string } | null)[];
+  currentUserId?: Id<"users">;
+  onBack: () => void;
+  onSuccess: () => void;
+}
+
+export function ImportEntries({ groupId, members, currentUserId, onBack, onSuccess }: ImportEntriesProps) {
+  const [entries, setEntries] = useState<ImportedEntry[]>([]);
+  const [authorMap, setAuthorMap] = useState<Record<string, Id<"users">>>({});
+  const [progress, setProgress] = useState<number | null>(null);
+
+  const importEntries = useMutation(api.imports.importEntries);
+  const generateUploadUrl = useMutation(api.entries.generateUploadUrl);
+  const registerUpload = useMutation(api.photos.registerUpload);
+
+  const groupMembers = members.filter((member) => member !== null);
+  const authorKeys = Array.from(new Set(entries.map((entry) => entry.authorKey)));
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const parsed = parseImportFile(file.name, await file.text());
+      if (parsed.length === 0) {
+        toast.error("No entries found in this file");
+        return;
+      }
+
+      // Match authors to members by email or name, falling back to the importer
+      const map: Record<string, Id<"users">> = {};
+      for (const key of new Set(parsed.map((entry) => entry.authorKey))) {
+        const match = groupMembers.find(
+          (member) =>
+            member.email?.toLowerCase() === key.toLowerCase() ||
+            member.name?.toLowerCase() === key.toLowerCase()
+        );
+        const fallback = currentUserId ?? groupMembers[0]?._id;
+        if (match || fallback) map[key] = match?._id ?? fallback!;
+      }
+
+      setEntries(parsed.sort((a, b) => a.entryDate - b.entryDate));
+      setAuthorMap(map);
+    } catch (error) {
+      toast.error("Could not read this file");
+    }
+  };
+
+  const uploadPhoto = async (photo: ImportedPhoto) => {
+    const bytes = Uint8Array.from(atob(photo.data), (char) => char.charCodeAt(0));
+    const image = await prepareImage(new Blob([bytes], { type: photo.contentType }));
+    const uploadUrl = await generateUploadUrl();
+    const result = await fetch(uploadUrl, {
+      method: "POST",
+      headers: { "Content-Type": image.type },
+      body: image,
+    });
+
+    if (!result.ok) {
+      throw new Error("Upload failed");
+    }
+
+    const { storageId } = await result.json();
+    await registerUpload({ groupId, storageId });
+    return { storageId: storageId as Id<"_storage">, caption: photo.caption ?? "" };
+  };
+
+  const handleImport = async () => {
+    setProgress(0);
+    try {
+      for (let start = 0; start < entries.length; start += BATCH_SIZE) {
+        const batch = await Promise.all(
+          entries.slice(start, start + BATCH_SIZE).map(async (entry) => {
+            const photos = await Promise.all(entry.photos.map(uploadPhoto));
+            return {
+              authorId: authorMap[entry.authorKey],
+              title: entry.title,
+              content: entry.content,
+              contentFormat: entry.contentFormat,
+              entryDate: entry.entryDate,
+              tags: entry.tags.length > 0 ? entry.tags : undefined,
+              photos: photos.length > 0 ? photos.map((photo) => photo.storageId) : undefined,
+              photoCaptions: photos.length > 0 ? photos : undefined,
+              isQuickReflection: entry.isQuickReflection,
+            };
+          })
+        );
+        await importEntries({ groupId, entries: batch });
+        setProgress(Math.min(start + BATCH_SIZE, entries.length));
+      }
+      toast.success(`Imported ${entries.length} entries`);
+      onSuccess();
+    } catch (error) {
+      toast.error("Import stopped partway through. Already imported entries were kept.");
+      setProgress(null);
+    }
+  };
+
+  const formatDate = (timestamp: number) => {
+    return new Date(timestamp).toLocaleDateString("en-US", {
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+    });
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      {/* Header */}
+      <div className="flex items-center gap-4">
+        <button
+          onClick={onBack}
+          className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+        >
+          ← Back
+        </button>
+        <h2 className="text-2xl font-bold text-gray-800">Import Entries</h2>
+      </div>
+
+      <div className="bg-white/70 backdrop-blur-sm rounded-2xl p-6 border border-orange-200 shadow-sm space-y-6">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Archive file
+          </label>
+          <input
+            type="file"
+            accept=".json,.md,.markdown,.txt"
+            onChange={handleFile}
+            className="block w-full text-sm text-gray-600 file:mr-4 file:px-4 file:py-2 file:rounded-lg file:border-0 file:bg-orange-100 file:text-orange-600 hover:file:bg-orange-200"
+          />
+          <p className="text-xs text-gray-500 mt-2">
+            DayShare JSON archives, JSON lists of entries, or Markdown with one "## YYYY-MM-DD Title" heading per entry
+            and an optional "Author: name" line.
+          </p>
+        </div>
+
+        {entries.length > 0 && (
+          <>
+            {/* Author Mapping */}
+            <div>
+              <p className="text-sm font-medium text-gray-700 mb-2">Match authors to members</p>
+              <div className="space-y-2">
+                {authorKeys.map((key) => (
+                  <div key={key} className="flex items-center gap-3">
+                    <span className="flex-1 text-sm text-gray-700 truncate">{key}</span>
+                    <span className="text-gray-400">→</span>
+                    <select
+                      value={authorMap[key]}
+                      onChange={(e) => setAuthorMap({ ...authorMap, [key]: e.target.value as Id<"users"> })}
+                      className="flex-1 px-3 py-2 border border-gray-200 rounded-lg outline-none bg-white text-sm"
+                    >
+                      {groupMembers.map((member) => (
+                        <option key={member._id} value={member._id}>
+                          {member.name || member.email}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* Preview */}
+            <div>
+              <p className="text-sm font-medium text-gray-700 mb-2">
+                {entries.length} entries from {formatDate(entries[0].entryDate)} to{" "}
+                {formatDate(entries[entries.length - 1].entryDate)}
+              </p>
+              <div className="max-h-64 overflow-y-auto space-y-2">
+                {entries.map((entry, index) => (
+                  <div key={index} className="text-sm border border-gray-100 rounded-lg px-3 py-2 bg-white/80">
+                    <p className="text-xs text-gray-500">
+                      {formatDate(entry.entryDate)} · {entry.authorKey}
+                      {entry.photos.length > 0 && ` · 📷 ${entry.photos.length}`}
+                    </p>
+                    <p className="text-gray-700 truncate">{entry.title || entry.content}</p>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex justify-end">
+              <button
+                onClick={handleImport}
+                disabled={progress !== null}
+                className="px-6 py-3 bg-gradient-to-r from-orange-400 to-pink-400 text-white rounded-lg hover:from-orange-500 hover:to-pink-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {progress !== null ? `Importing ${progress}/${entries.length}...` : `Import ${entries.length} Entries`}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
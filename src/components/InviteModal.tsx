@@ -0,0 +1,261 @@
+import { useQuery, useMutation } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { useState } from "react";
+import { toast } from "sonner";
+import { Id } from "../../convex/_generated/dataModel";
+import { buildInviteLink } from "../lib/invite";
+
+type InviteRole = "admin" | "writer" | "viewer";
+
+interface InviteModalProps {
+  groupId: Id<"groups">;
+  isOwner: boolean;
+  onClose: () => void;
+}
+
+export function InviteModal({ groupId, isOwner, onClose }: InviteModalProps) {
+  const [mode, setMode] = useState<"email" | "link">("link");
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<InviteRole>("writer");
+  const [maxUses, setMaxUses] = useState("");
+  const [expiresInDays, setExpiresInDays] = useState(7);
+  const [generatedCode, setGeneratedCode] = useState("");
+
+  const invitations = useQuery(api.invitations.getGroupInvitations, { groupId });
+  const generateInvite = useMutation(api.groups.generateInviteCode);
+  const createInviteLink = useMutation(api.invitations.createInviteLink);
+  const revokeInvitation = useMutation(api.invitations.revokeInvitation);
+
+  const activeInvitations = invitations?.filter((invitation) => invitation.isActive) ?? [];
+
+  const handleGenerate = async () => {
+    try {
+      if (mode === "email") {
+        if (!inviteEmail.trim()) {
+          toast.error("Please enter an email address");
+          return;
+        }
+        const result = await generateInvite({
+          groupId,
+          invitedEmail: inviteEmail.trim(),
+          role: inviteRole,
+        });
+        setGeneratedCode(result.inviteCode);
+      } else {
+        const result = await createInviteLink({
+          groupId,
+          role: inviteRole,
+          maxUses: maxUses ? Number(maxUses) : undefined,
+          expiresInDays,
+        });
+        setGeneratedCode(result.inviteCode);
+      }
+      toast.success(mode === "email" ? "Invitation sent!" : "Invite created!");
+    } catch (error) {
+      toast.error("Failed to create invite");
+    }
+  };
+
+  const handleRevoke = async (invitationId: Id<"invitations">) => {
+    try {
+      await revokeInvitation({ invitationId });
+      toast.success("Invite revoked");
+    } catch (error) {
+      toast.error("Failed to revoke invite");
+    }
+  };
+
+  const copyToClipboard = (text: string, label: string) => {
+    void navigator.clipboard.writeText(text);
+    toast.success(`${label} copied to clipboard!`);
+  };
+
+  const formatDate = (timestamp: number) => {
+    return new Date(timestamp).toLocaleDateString("en-US", {
+      month: "short",
+      day: "numeric",
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl p-6 w-full max-w-md max-h-[85vh] overflow-y-auto">
+        <h3 className="text-xl font-semibold mb-4">Invite to Journal</h3>
+
+        {!generatedCode ? (
+          <>
+            {/* Mode Tabs */}
+            <div className="flex gap-2 mb-4">
+              {(["link", "email"] as const).map((option) => (
+                <button
+                  key={option}
+                  onClick={() => setMode(option)}
+                  className={`flex-1 px-3 py-2 rounded-lg text-sm transition-colors ${
+                    mode === option
+                      ? "bg-orange-100 text-orange-700 font-medium"
+                      : "text-gray-600 hover:bg-gray-100"
+                  }`}
+                >
+                  {option === "link" ? "🔗 Share a link" : "✉️ Invite by email"}
+                </button>
+              ))}
+            </div>
+
+            {mode === "email" ? (
+              <>
+                <p className="text-gray-600 mb-4">
+                  We'll email them an invitation. Only the person signed in with this address can use it.
+                </p>
+                <input
+                  type="email"
+                  value={inviteEmail}
+                  onChange={(e) => setInviteEmail(e.target.value)}
+                  placeholder="friend@example.com"
+                  className="w-full px-4 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-orange-400 focus:border-transparent outline-none mb-4"
+                />
+              </>
+            ) : (
+              <div className="grid grid-cols-2 gap-3 mb-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Max uses
+                  </label>
+                  <input
+                    type="number"
+                    min={1}
+                    value={maxUses}
+                    onChange={(e) => setMaxUses(e.target.value)}
+                    placeholder="Unlimited"
+                    className="w-full px-4 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-orange-400 focus:border-transparent outline-none"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Expires after
+                  </label>
+                  <select
+                    value={expiresInDays}
+                    onChange={(e) => setExpiresInDays(Number(e.target.value))}
+                    className="w-full px-4 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-orange-400 focus:border-transparent outline-none bg-white"
+                  >
+                    <option value={1}>1 day</option>
+                    <option value={7}>7 days</option>
+                    <option value={30}>30 days</option>
+                  </select>
+                </div>
+              </div>
+            )}
+
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Join as
+            </label>
+            <select
+              value={inviteRole}
+              onChange={(e) => setInviteRole(e.target.value as InviteRole)}
+              className="w-full px-4 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-orange-400 focus:border-transparent outline-none mb-4 bg-white"
+            >
+              <option value="writer">Writer – takes turns writing</option>
+              <option value="viewer">Viewer – reads and reacts only</option>
+              {isOwner && (
+                <option value="admin">Admin – writes and manages members</option>
+              )}
+            </select>
+
+            <div className="flex gap-3">
+              <button
+                onClick={onClose}
+                className="flex-1 px-4 py-2 border border-gray-200 text-gray-600 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleGenerate}
+                disabled={mode === "email" && !inviteEmail.trim()}
+                className="flex-1 px-4 py-2 bg-gradient-to-r from-orange-400 to-pink-400 text-white rounded-lg hover:from-orange-500 hover:to-pink-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {mode === "email" ? "Send Invitation" : "Create Link"}
+              </button>
+            </div>
+
+            {/* Active Invitations */}
+            {activeInvitations.length > 0 && (
+              <div className="mt-6 pt-4 border-t border-gray-200">
+                <p className="text-sm font-medium text-gray-700 mb-3">Active invites</p>
+                <div className="space-y-2">
+                  {activeInvitations.map((invitation) => (
+                    <div
+                      key={invitation._id}
+                      className="flex items-center gap-3 p-3 rounded-lg border border-gray-200 text-sm"
+                    >
+                      <div className="flex-1 min-w-0">
+                        <p className="font-medium text-gray-800 truncate">
+                          {invitation.kind === "link" ? "🔗 Link" : `✉️ ${invitation.invitedEmail}`}
+                          <span className="ml-2 text-xs font-normal text-gray-500">{invitation.role ?? "writer"}</span>
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {invitation.kind === "link" &&
+                            `${invitation.useCount ?? 0}${invitation.maxUses ? `/${invitation.maxUses}` : ""} used · `}
+                          expires {formatDate(invitation.expiresAt)}
+                        </p>
+                      </div>
+                      <button
+                        onClick={() =>
+                          invitation.kind === "link"
+                            ? copyToClipboard(buildInviteLink(invitation.inviteCode), "Link")
+                            : copyToClipboard(invitation.inviteCode, "Code")
+                        }
+                        className="p-1 text-orange-600 hover:bg-orange-50 rounded text-xs"
+                      >
+                        Copy
+                      </button>
+                      <button
+                        onClick={() => handleRevoke(invitation._id)}
+                        className="p-1 text-red-500 hover:bg-red-50 rounded text-xs"
+                      >
+                        Revoke
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </>
+        ) : (
+          <>
+            <p className="text-gray-600 mb-4">
+              {mode === "link"
+                ? "Share this link. Anyone who opens it can join:"
+                : `We've emailed an invitation to ${inviteEmail.trim()}. You can also share the code yourself:`}
+            </p>
+            <div className="bg-gray-50 p-4 rounded-lg mb-4">
+              <code className="text-lg font-mono text-center block break-all">
+                {mode === "link" ? buildInviteLink(generatedCode) : generatedCode}
+              </code>
+            </div>
+            <p className="text-sm text-gray-500 mb-4">
+              {mode === "link"
+                ? `This link will expire in ${expiresInDays} ${expiresInDays === 1 ? "day" : "days"}.`
+                : "This code will expire in 7 days."}
+            </p>
+            <button
+              onClick={() =>
+                mode === "link"
+                  ? copyToClipboard(buildInviteLink(generatedCode), "Link")
+                  : copyToClipboard(generatedCode, "Code")
+              }
+              className="w-full px-4 py-2 bg-gradient-to-r from-orange-400 to-pink-400 text-white rounded-lg hover:from-orange-500 hover:to-pink-500 transition-colors mb-3"
+            >
+              {mode === "link" ? "Copy Link" : "Copy Code"}
+            </button>
+            <button
+              onClick={onClose}
+              className="w-full px-4 py-2 border border-gray-200 text-gray-600 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Close
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,46 +1,126 @@
-import { useQuery, useMutation } from "convex/react";
+import { useQuery, useMutation, useAction, usePaginatedQuery } from "convex/react";
 import { api } from "../../convex/_generated/api";
-import { useState } from "react";
+import { useState, useEffect, useRef } from "react";
 import { toast } from "sonner";
 import { Id } from "../../convex/_generated/dataModel";
 import { WriteEntry } from "./WriteEntry";
 import { CalendarView } from "./CalendarView";
+import { EditEntry } from "./EditEntry";
+import { RevisionHistory } from "./RevisionHistory";
+import { EntryReactions } from "./EntryReactions";
+import { EntryComments } from "./EntryComments";
+import { MembersPanel } from "./MembersPanel";
+import { Avatar } from "./Avatar";
+import { InviteModal } from "./InviteModal";
+import { ImportEntries } from "./ImportEntries";
+import { Markdown } from "./Markdown";
+import { MediaGallery } from "./MediaGallery";
+import { Lightbox, LightboxPhoto } from "./Lightbox";
+import { downloadFile, formatDuration } from "../lib/utils";
+import { FunctionReturnType } from "convex/server";
 
 interface JournalViewProps {
   groupId: Id<"groups">;
+  focusEntry?: { entryId: Id<"entries">; entryDate: number } | null;
   onBack: () => void;
 }
 
-type ViewMode = "timeline" | "calendar" | "write";
+type ViewMode = "timeline" | "calendar" | "gallery" | "write" | "edit" | "import";
 
-export function JournalView({ groupId, onBack }: JournalViewProps) {
+type Entry = FunctionReturnType<typeof api.entries.getGroupEntries>["page"][number];
+
+const PAGE_SIZE = 10;
+
+export function JournalView({ groupId, focusEntry, onBack }: JournalViewProps) {
   const [viewMode, setViewMode] = useState<ViewMode>("timeline");
   const [showInviteModal, setShowInviteModal] = useState(false);
-  const [inviteEmail, setInviteEmail] = useState("");
-  const [generatedCode, setGeneratedCode] = useState("");
+  const [showMembersPanel, setShowMembersPanel] = useState(false);
+  const [showExportMenu, setShowExportMenu] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [editingEntry, setEditingEntry] = useState<Entry | null>(null);
+  const [historyEntry, setHistoryEntry] = useState<Entry | null>(null);
+  const [openComments, setOpenComments] = useState<Set<Id<"entries">>>(new Set());
+  const [highlightedEntryId, setHighlightedEntryId] = useState<Id<"entries"> | null>(null);
+  const [lightbox, setLightbox] = useState<{ photos: LightboxPhoto[]; index: number } | null>(null);
+  // Entries opened from search or the gallery start the timeline at their own date
+  const [focusTarget, setFocusTarget] = useState(focusEntry ?? null);
+  const [jumpDate, setJumpDate] = useState<number | undefined>(focusEntry?.entryDate);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
 
+  const user = useQuery(api.auth.loggedInUser);
   const groups = useQuery(api.groups.getUserGroups);
-  const entries = useQuery(api.entries.getGroupEntries, { groupId });
-  const generateInvite = useMutation(api.groups.generateInviteCode);
+  const { results: entries, status, loadMore } = usePaginatedQuery(
+    api.entries.getGroupEntries,
+    { groupId, beforeDate: jumpDate },
+    { initialNumItems: PAGE_SIZE }
+  );
   const passTurn = useMutation(api.groups.passTurn);
+  const deleteEntry = useMutation(api.entries.deleteEntry);
+  const exportGroup = useAction(api.exports.exportGroup);
 
   const group = groups?.find(g => g._id === groupId);
 
-  const handleGenerateInvite = async () => {
-    if (!inviteEmail.trim()) {
-      toast.error("Please enter an email address");
+  const canManage = group?.myRole === "owner" || group?.myRole === "admin";
+
+  // Scroll to and briefly highlight an entry opened from search or the gallery
+  const focusEntryId = focusTarget?.entryId;
+  const hasFocusEntry = !!focusEntryId && entries.some((entry) => entry._id === focusEntryId);
+  useEffect(() => {
+    if (!focusEntryId || !hasFocusEntry) return;
+
+    document.getElementById(`entry-${focusEntryId}`)?.scrollIntoView({ behavior: "smooth", block: "center" });
+    setHighlightedEntryId(focusEntryId);
+    const timeout = setTimeout(() => setHighlightedEntryId(null), 3000);
+    return () => clearTimeout(timeout);
+  }, [focusEntryId, hasFocusEntry]);
+
+  // Load older entries when the end of the timeline scrolls into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || status !== "CanLoadMore") return;
+
+    const observer = new IntersectionObserver((observed) => {
+      if (observed[0].isIntersecting) {
+        loadMore(PAGE_SIZE);
+      }
+    }, { rootMargin: "200px" });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [status, loadMore]);
+
+  const handleJumpToDate = (date: Date | null) => {
+    if (!date) {
+      setJumpDate(undefined);
       return;
     }
+    const endOfDay = new Date(date);
+    endOfDay.setHours(23, 59, 59, 999);
+    setJumpDate(endOfDay.getTime());
+    window.scrollTo({ top: 0 });
+  };
 
+  const handleOpenEntry = (entry: { entryId: Id<"entries">; entryDate: number }) => {
+    setFocusTarget(entry);
+    setJumpDate(entry.entryDate);
+    setViewMode("timeline");
+  };
+
+  const openLightbox = (entry: Entry, photoId: Id<"_storage">) => {
+    const photos = entry.photos.flatMap((photo) => (photo.url ? [{ ...photo, url: photo.url }] : []));
+    setLightbox({ photos, index: photos.findIndex((photo) => photo.id === photoId) });
+  };
+
+  const handleExport = async (format: "html" | "json") => {
+    setShowExportMenu(false);
+    setIsExporting(true);
     try {
-      const result = await generateInvite({
-        groupId,
-        invitedEmail: inviteEmail.trim(),
-      });
-      setGeneratedCode(result.inviteCode);
-      toast.success("Invite code generated!");
+      const { url, fileName } = await exportGroup({ groupId, format });
+      await downloadFile(url, fileName);
+      toast.success("Export ready!");
     } catch (error) {
-      toast.error("Failed to generate invite code");
+      toast.error("Failed to export journal");
+    } finally {
+      setIsExporting(false);
     }
   };
 
@@ -53,6 +133,40 @@ export function JournalView({ groupId, onBack }: JournalViewProps) {
     }
   };
 
+  const handleDeleteEntry = async (entry: Entry) => {
+    const isAuthor = entry.authorId === user?._id;
+    const message = isAuthor
+      ? "Delete this entry permanently? This cannot be undone."
+      : "Remove this entry from the journal?";
+    if (!window.confirm(message)) return;
+
+    try {
+      await deleteEntry({ entryId: entry._id });
+      toast.success(isAuthor ? "Entry deleted" : "Entry removed");
+    } catch (error) {
+      toast.error("Failed to delete entry");
+    }
+  };
+
+  const toggleComments = (entryId: Id<"entries">) => {
+    setOpenComments((prev) => {
+      const next = new Set(prev);
+      if (next.has(entryId)) {
+        next.delete(entryId);
+      } else {
+        next.add(entryId);
+      }
+      return next;
+    });
+  };
+
+  const formatTimeLeft = (deadline: number) => {
+    const hours = Math.floor((deadline - Date.now()) / (1000 * 60 * 60));
+    if (hours < 1) return "less than an hour left";
+    if (hours < 48) return `${hours}h left`;
+    return `${Math.floor(hours / 24)} days left`;
+  };
+
   const formatDate = (timestamp: number) => {
     return new Date(timestamp).toLocaleDateString("en-US", {
       weekday: "long",
@@ -96,11 +210,54 @@ export function JournalView({ groupId, onBack }: JournalViewProps) {
     );
   }
 
+  if (viewMode === "edit" && editingEntry) {
+    return (
+      <EditEntry
+        entry={editingEntry}
+        onBack={() => {
+          setEditingEntry(null);
+          setViewMode("timeline");
+        }}
+        onSuccess={() => {
+          setEditingEntry(null);
+          setViewMode("timeline");
+          toast.success("Entry updated!");
+        }}
+      />
+    );
+  }
+
+  if (viewMode === "import") {
+    return (
+      <ImportEntries
+        groupId={groupId}
+        members={group.members}
+        currentUserId={user?._id}
+        onBack={() => setViewMode("timeline")}
+        onSuccess={() => setViewMode("timeline")}
+      />
+    );
+  }
+
+  if (viewMode === "gallery") {
+    return (
+      <MediaGallery
+        groupId={groupId}
+        onBack={() => setViewMode("timeline")}
+        onOpenEntry={handleOpenEntry}
+      />
+    );
+  }
+
   if (viewMode === "calendar") {
     return (
       <CalendarView
         groupId={groupId}
         onBack={() => setViewMode("timeline")}
+        onSelectDate={(date) => {
+          handleJumpToDate(date);
+          setViewMode("timeline");
+        }}
       />
     );
   }
@@ -133,11 +290,70 @@ export function JournalView({ groupId, onBack }: JournalViewProps) {
             📅
           </button>
           <button
-            onClick={() => setShowInviteModal(true)}
-            className="px-4 py-2 bg-white border border-orange-200 text-orange-600 rounded-lg hover:bg-orange-50 transition-colors"
+            onClick={() => setViewMode("gallery")}
+            className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+            title="Photo Gallery"
+          >
+            🖼️
+          </button>
+          <div className="relative">
+            <button
+              onClick={() => setShowExportMenu(!showExportMenu)}
+              disabled={isExporting}
+              className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-50"
+              title="Export or import"
+            >
+              {isExporting ? "⏳" : "⬇️"}
+            </button>
+            {showExportMenu && (
+              <>
+                <div
+                  className="fixed inset-0 z-10"
+                  onClick={() => setShowExportMenu(false)}
+                />
+                <div className="absolute right-0 top-full mt-2 w-56 bg-white rounded-lg shadow-lg border border-gray-200 z-20 overflow-hidden">
+                  <button
+                    onClick={() => handleExport("html")}
+                    className="w-full text-left px-4 py-3 text-sm hover:bg-gray-50"
+                  >
+                    📖 Printable book (HTML)
+                  </button>
+                  <button
+                    onClick={() => handleExport("json")}
+                    className="w-full text-left px-4 py-3 text-sm hover:bg-gray-50 border-t border-gray-100"
+                  >
+                    🗄️ Archive with photos (JSON)
+                  </button>
+                  {canManage && (
+                    <button
+                      onClick={() => {
+                        setShowExportMenu(false);
+                        setViewMode("import");
+                      }}
+                      className="w-full text-left px-4 py-3 text-sm hover:bg-gray-50 border-t border-gray-100"
+                    >
+                      📥 Import entries
+                    </button>
+                  )}
+                </div>
+              </>
+            )}
+          </div>
+          <button
+            onClick={() => setShowMembersPanel(true)}
+            className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+            title="Members"
           >
-            Invite
+            👥
           </button>
+          {canManage && (
+            <button
+              onClick={() => setShowInviteModal(true)}
+              className="px-4 py-2 bg-white border border-orange-200 text-orange-600 rounded-lg hover:bg-orange-50 transition-colors"
+            >
+              Invite
+            </button>
+          )}
           {group.isMyTurn && (
             <>
               <button
@@ -167,9 +383,15 @@ export function JournalView({ groupId, onBack }: JournalViewProps) {
             <div>
               <p className="font-medium text-gray-800">
                 {group.isMyTurn ? "It's your turn to write!" : `${group.currentTurnUser?.name || "Someone"} is writing`}
+                {group.myRole === "viewer" && (
+                  <span className="ml-2 bg-gray-100 text-gray-600 text-xs px-2 py-1 rounded-full">
+                    Viewer
+                  </span>
+                )}
               </p>
               <p className="text-sm text-gray-500">
                 {group.members.length} members in this journal
+                {group.turnDeadline && ` · ${formatTimeLeft(group.turnDeadline)}`}
               </p>
             </div>
           </div>
@@ -177,49 +399,122 @@ export function JournalView({ groupId, onBack }: JournalViewProps) {
           <div className="flex -space-x-2">
             {group.members.map((member, index) => 
               member ? (
-                <div
+                <Avatar
                   key={member._id}
-                  className={`w-8 h-8 rounded-full border-2 border-white flex items-center justify-center text-sm font-medium ${
+                  name={member.name || member.email}
+                  avatarUrl={member.avatarUrl}
+                  title={member.name || member.email}
+                  className={`w-8 h-8 border-2 text-sm ${
                     group.currentTurnUser?._id === member._id
-                      ? "bg-gradient-to-br from-orange-400 to-pink-400 text-white"
-                      : "bg-gradient-to-br from-orange-200 to-pink-200 text-gray-700"
+                      ? "border-orange-400 bg-gradient-to-br from-orange-400 to-pink-400 text-white"
+                      : "border-white bg-gradient-to-br from-orange-200 to-pink-200 text-gray-700"
                   }`}
-                  title={member.name || member.email}
-                >
-                  {(member.name || member.email || "?")[0].toUpperCase()}
-                </div>
+                />
               ) : null
             )}
           </div>
         </div>
       </div>
 
+      {/* Jump To Date */}
+      <div className="flex items-center justify-end gap-3 text-sm text-gray-600">
+        {jumpDate !== undefined && (
+          <>
+            <span>Showing entries from {formatDate(jumpDate)} and earlier</span>
+            <button
+              onClick={() => handleJumpToDate(null)}
+              className="text-orange-600 hover:underline"
+            >
+              Back to latest
+            </button>
+          </>
+        )}
+        <label className="flex items-center gap-2">
+          <span>Jump to</span>
+          <input
+            type="date"
+            onChange={(e) => e.target.value && handleJumpToDate(new Date(`${e.target.value}T00:00:00`))}
+            className="px-2 py-1 border border-gray-200 rounded-lg outline-none bg-white/80"
+          />
+        </label>
+      </div>
+
       {/* Entries Timeline */}
       <div className="space-y-4">
-        {entries && entries.length > 0 ? (
-          entries.map((entry) => (
+        {status === "LoadingFirstPage" ? (
+          <p className="text-center text-gray-500 py-12">Loading entries...</p>
+        ) : entries.length > 0 ? (
+          entries.map((entry) => entry.isSkipped ? (
+            <div
+              key={entry._id}
+              className="flex items-center gap-3 text-sm text-gray-400 px-6"
+            >
+              <div className="flex-1 border-t border-dashed border-gray-300" />
+              <span>
+                ⏭️ {entry.author?.name || "Someone"}'s turn was skipped · {formatDate(entry.entryDate)}
+              </span>
+              <div className="flex-1 border-t border-dashed border-gray-300" />
+            </div>
+          ) : (
             <div
               key={entry._id}
-              className="bg-white/70 backdrop-blur-sm rounded-2xl p-6 border border-orange-200 shadow-sm"
+              id={`entry-${entry._id}`}
+              className={`bg-white/70 backdrop-blur-sm rounded-2xl p-6 border border-orange-200 shadow-sm transition-shadow ${
+                highlightedEntryId === entry._id ? "ring-4 ring-orange-300" : ""
+              }`}
             >
               {/* Entry Header */}
               <div className="flex items-center justify-between mb-4">
                 <div className="flex items-center gap-3">
-                  <div className="w-10 h-10 bg-gradient-to-br from-orange-300 to-pink-300 rounded-full flex items-center justify-center text-white font-medium">
-                    {(entry.author?.name || "?")[0].toUpperCase()}
-                  </div>
+                  <Avatar
+                    name={entry.author?.name}
+                    avatarUrl={entry.author?.avatarUrl}
+                    className="w-10 h-10 bg-gradient-to-br from-orange-300 to-pink-300 text-white"
+                  />
                   <div>
                     <p className="font-medium text-gray-800">{entry.author?.name || "Unknown"}</p>
                     <p className="text-sm text-gray-500">
                       {formatDate(entry.entryDate)} at {formatTime(entry.entryDate)}
+                      {entry.editedAt && (
+                        <button
+                          onClick={() => setHistoryEntry(entry)}
+                          className="ml-2 text-orange-600 hover:underline"
+                          title="View edit history"
+                        >
+                          (edited)
+                        </button>
+                      )}
                     </p>
                   </div>
                 </div>
-                {entry.isQuickReflection && (
-                  <span className="bg-purple-100 text-purple-600 text-xs px-2 py-1 rounded-full">
-                    Quick Reflection
-                  </span>
-                )}
+                <div className="flex items-center gap-2">
+                  {entry.isQuickReflection && (
+                    <span className="bg-purple-100 text-purple-600 text-xs px-2 py-1 rounded-full">
+                      Quick Reflection
+                    </span>
+                  )}
+                  {entry.authorId === user?._id && (
+                    <button
+                      onClick={() => {
+                        setEditingEntry(entry);
+                        setViewMode("edit");
+                      }}
+                      className="p-1 text-gray-500 hover:bg-gray-100 rounded-lg transition-colors text-sm"
+                      title="Edit entry"
+                    >
+                      ✏️
+                    </button>
+                  )}
+                  {(entry.authorId === user?._id || canManage) && (
+                    <button
+                      onClick={() => handleDeleteEntry(entry)}
+                      className="p-1 text-gray-500 hover:bg-red-50 rounded-lg transition-colors text-sm"
+                      title={entry.authorId === user?._id ? "Delete entry" : "Remove entry"}
+                    >
+                      🗑️
+                    </button>
+                  )}
+                </div>
               </div>
 
               {/* Entry Title */}
@@ -228,21 +523,45 @@ export function JournalView({ groupId, onBack }: JournalViewProps) {
               )}
 
               {/* Entry Content */}
-              <div className="prose prose-sm max-w-none mb-4">
-                <p className="text-gray-700 whitespace-pre-wrap">{entry.content}</p>
-              </div>
+              {entry.content.trim() && (
+                <div className="mb-4">
+                  <Markdown content={entry.content} format={entry.contentFormat ?? "plain"} />
+                </div>
+              )}
+
+              {/* Voice Memo */}
+              {entry.audio?.url && (
+                <div className="mb-4 space-y-2">
+                  <div className="flex items-center gap-3">
+                    <audio controls preload="none" src={entry.audio.url} className="flex-1 max-w-md" />
+                    <span className="text-sm text-gray-500">🎙️ {formatDuration(entry.audio.duration)}</span>
+                  </div>
+                  {entry.audio.transcript && entry.audio.transcript !== entry.content && (
+                    <details className="text-sm text-gray-600">
+                      <summary className="cursor-pointer text-gray-500">Transcript</summary>
+                      <p className="mt-1 whitespace-pre-wrap">{entry.audio.transcript}</p>
+                    </details>
+                  )}
+                </div>
+              )}
 
               {/* Entry Photos */}
               {entry.photos && entry.photos.length > 0 && (
                 <div className="grid grid-cols-2 md:grid-cols-3 gap-3 mb-4">
                   {entry.photos.map((photo) => (
                     photo.url && (
-                      <img
-                        key={photo.id}
-                        src={photo.url}
-                        alt="Entry photo"
-                        className="w-full h-32 object-cover rounded-lg"
-                      />
+                      <figure key={photo.id}>
+                        <button onClick={() => openLightbox(entry, photo.id)} className="block w-full">
+                          <img
+                            src={photo.url}
+                            alt={photo.caption || "Entry photo"}
+                            className="w-full h-32 object-cover rounded-lg hover:opacity-90 transition-opacity"
+                          />
+                        </button>
+                        {photo.caption && (
+                          <figcaption className="text-xs text-gray-500 mt-1">{photo.caption}</figcaption>
+                        )}
+                      </figure>
                     )
                   ))}
                 </div>
@@ -261,8 +580,26 @@ export function JournalView({ groupId, onBack }: JournalViewProps) {
                   ))}
                 </div>
               )}
+
+              {/* Reactions & Comments */}
+              <div className="flex items-center justify-between gap-3 mt-4">
+                <EntryReactions entryId={entry._id} reactions={entry.reactions} />
+                <button
+                  onClick={() => toggleComments(entry._id)}
+                  className="text-sm text-gray-500 hover:text-orange-600 transition-colors flex-shrink-0"
+                >
+                  💬 {entry.commentCount === 0
+                    ? "Comment"
+                    : `${entry.commentCount} ${entry.commentCount === 1 ? "comment" : "comments"}`}
+                </button>
+              </div>
+              {openComments.has(entry._id) && (
+                <EntryComments entryId={entry._id} currentUserId={user?._id} />
+              )}
             </div>
           ))
+        ) : jumpDate !== undefined ? (
+          <p className="text-center text-gray-500 py-12">No entries on or before this date</p>
         ) : (
           <div className="text-center py-12">
             <div className="w-24 h-24 bg-gradient-to-br from-orange-100 to-pink-100 rounded-2xl flex items-center justify-center mx-auto mb-4">
@@ -280,79 +617,51 @@ export function JournalView({ groupId, onBack }: JournalViewProps) {
             )}
           </div>
         )}
+
+        {/* Infinite Scroll Sentinel */}
+        <div ref={loadMoreRef} />
+        {status === "LoadingMore" && (
+          <p className="text-center text-gray-500 text-sm py-4">Loading older entries...</p>
+        )}
+        {status === "Exhausted" && entries.length > 0 && (
+          <p className="text-center text-gray-400 text-sm py-4">You've reached the first entry</p>
+        )}
       </div>
 
+      {/* Members Panel */}
+      {showMembersPanel && (
+        <MembersPanel
+          group={group}
+          currentUserId={user?._id}
+          onClose={() => setShowMembersPanel(false)}
+          onLeft={onBack}
+        />
+      )}
+
+      {/* Photo Lightbox */}
+      {lightbox && (
+        <Lightbox
+          photos={lightbox.photos}
+          initialIndex={lightbox.index}
+          onClose={() => setLightbox(null)}
+        />
+      )}
+
+      {/* Revision History Modal */}
+      {historyEntry && (
+        <RevisionHistory
+          entry={historyEntry}
+          onClose={() => setHistoryEntry(null)}
+        />
+      )}
+
       {/* Invite Modal */}
       {showInviteModal && (
-        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
-          <div className="bg-white rounded-2xl p-6 w-full max-w-md">
-            <h3 className="text-xl font-semibold mb-4">Invite to Journal</h3>
-            
-            {!generatedCode ? (
-              <>
-                <p className="text-gray-600 mb-4">
-                  Enter the email address of the person you want to invite.
-                </p>
-                <input
-                  type="email"
-                  value={inviteEmail}
-                  onChange={(e) => setInviteEmail(e.target.value)}
-                  placeholder="friend@example.com"
-                  className="w-full px-4 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-orange-400 focus:border-transparent outline-none mb-4"
-                />
-                <div className="flex gap-3">
-                  <button
-                    onClick={() => {
-                      setShowInviteModal(false);
-                      setInviteEmail("");
-                    }}
-                    className="flex-1 px-4 py-2 border border-gray-200 text-gray-600 rounded-lg hover:bg-gray-50 transition-colors"
-                  >
-                    Cancel
-                  </button>
-                  <button
-                    onClick={handleGenerateInvite}
-                    disabled={!inviteEmail.trim()}
-                    className="flex-1 px-4 py-2 bg-gradient-to-r from-orange-400 to-pink-400 text-white rounded-lg hover:from-orange-500 hover:to-pink-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-                  >
-                    Generate Code
-                  </button>
-                </div>
-              </>
-            ) : (
-              <>
-                <p className="text-gray-600 mb-4">
-                  Share this invite code with your friend:
-                </p>
-                <div className="bg-gray-50 p-4 rounded-lg mb-4">
-                  <code className="text-lg font-mono text-center block">{generatedCode}</code>
-                </div>
-                <p className="text-sm text-gray-500 mb-4">
-                  This code will expire in 7 days.
-                </p>
-                <button
-                  onClick={() => {
-                    navigator.clipboard.writeText(generatedCode);
-                    toast.success("Code copied to clipboard!");
-                  }}
-                  className="w-full px-4 py-2 bg-gradient-to-r from-orange-400 to-pink-400 text-white rounded-lg hover:from-orange-500 hover:to-pink-500 transition-colors mb-3"
-                >
-                  Copy Code
-                </button>
-                <button
-                  onClick={() => {
-                    setShowInviteModal(false);
-                    setInviteEmail("");
-                    setGeneratedCode("");
-                  }}
-                  className="w-full px-4 py-2 border border-gray-200 text-gray-600 rounded-lg hover:bg-gray-50 transition-colors"
-                >
-                  Close
-                </button>
-              </>
-            )}
-          </div>
-        </div>
+        <InviteModal
+          groupId={groupId}
+          isOwner={group.myRole === "owner"}
+          onClose={() => setShowInviteModal(false)}
+        />
       )}
     </div>
   );
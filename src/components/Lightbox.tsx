@@ -0,0 +1,134 @@
+import { useEffect, useRef, useState } from "react";
+import { Id } from "../../convex/_generated/dataModel";
+
+export interface LightboxPhoto {
+  id: Id<"_storage">;
+  url: string;
+  caption: string;
+  entryId?: Id<"entries">;
+  entryDate?: number;
+  author?: { name?: string } | null;
+}
+
+interface LightboxProps {
+  photos: LightboxPhoto[];
+  initialIndex: number;
+  onClose: () => void;
+  // Shown as a "View entry" link when the photo is opened outside its entry
+  onOpenEntry?: (photo: LightboxPhoto) => void;
+}
+
+// Horizontal distance in pixels a touch has to travel to count as a swipe
+const SWIPE_THRESHOLD = 50;
+
+export function Lightbox({ photos, initialIndex, onClose, onOpenEntry }: LightboxProps) {
+  const [index, setIndex] = useState(initialIndex);
+  const touchStartX = useRef<number | null>(null);
+
+  const photo = photos[Math.min(index, photos.length - 1)];
+  const hasPrevious = index > 0;
+  const hasNext = index < photos.length - 1;
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") onClose();
+      if (event.key === "ArrowLeft") setIndex((i) => Math.max(i - 1, 0));
+      if (event.key === "ArrowRight") setIndex((i) => Math.min(i + 1, photos.length - 1));
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onClose, photos.length]);
+
+  const handleTouchEnd = (event: React.TouchEvent) => {
+    if (touchStartX.current === null) return;
+    const distance = event.changedTouches[0].clientX - touchStartX.current;
+    touchStartX.current = null;
+
+    if (distance > SWIPE_THRESHOLD && hasPrevious) setIndex(index - 1);
+    if (distance < -SWIPE_THRESHOLD && hasNext) setIndex(index + 1);
+  };
+
+  if (!photo) return null;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/90 flex flex-col z-50"
+      onClick={onClose}
+      onTouchStart={(e) => (touchStartX.current = e.touches[0].clientX)}
+      onTouchEnd={handleTouchEnd}
+    >
+      {/* Top bar */}
+      <div className="flex items-center justify-between p-4 text-white" onClick={(e) => e.stopPropagation()}>
+        <span className="text-sm text-white/70">
+          {index + 1} / {photos.length}
+        </span>
+        <button
+          onClick={onClose}
+          className="w-10 h-10 text-2xl rounded-full hover:bg-white/10 transition-colors"
+          title="Close"
+        >
+          ×
+        </button>
+      </div>
+
+      {/* Photo */}
+      <div className="flex-1 flex items-center justify-center relative min-h-0 px-4">
+        {hasPrevious && (
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              setIndex(index - 1);
+            }}
+            className="absolute left-4 w-12 h-12 text-2xl text-white bg-white/10 rounded-full hover:bg-white/20 transition-colors hidden md:block"
+            title="Previous photo"
+          >
+            ‹
+          </button>
+        )}
+        <img
+          src={photo.url}
+          alt={photo.caption || "Entry photo"}
+          className="max-w-full max-h-full object-contain rounded-lg select-none"
+          onClick={(e) => e.stopPropagation()}
+          draggable={false}
+        />
+        {hasNext && (
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              setIndex(index + 1);
+            }}
+            className="absolute right-4 w-12 h-12 text-2xl text-white bg-white/10 rounded-full hover:bg-white/20 transition-colors hidden md:block"
+            title="Next photo"
+          >
+            ›
+          </button>
+        )}
+      </div>
+
+      {/* Caption and source */}
+      <div className="p-4 text-center text-white space-y-2" onClick={(e) => e.stopPropagation()}>
+        {photo.caption && <p>{photo.caption}</p>}
+        {(photo.author || photo.entryDate) && (
+          <p className="text-sm text-white/70">
+            {photo.author?.name || "Anonymous"}
+            {photo.entryDate &&
+              ` · ${new Date(photo.entryDate).toLocaleDateString("en-US", {
+                month: "short",
+                day: "numeric",
+                year: "numeric",
+              })}`}
+          </p>
+        )}
+        {onOpenEntry && photo.entryId && (
+          <button
+            onClick={() => onOpenEntry(photo)}
+            className="px-4 py-2 text-sm bg-white/10 rounded-lg hover:bg-white/20 transition-colors"
+          >
+            View entry →
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+import { Fragment, ReactNode } from "react";
+import { BlockNode, InlineNode, parseMarkdown } from "../../convex/markdown";
+
+interface MarkdownProps {
+  content: string;
+  // Entries written before Markdown support are shown exactly as typed
+  format?: "plain" | "markdown";
+}
+
+export function Markdown({ content, format = "markdown" }: MarkdownProps) {
+  if (format === "plain") {
+    return <p className="text-gray-700 whitespace-pre-wrap">{content}</p>;
+  }
+
+  return (
+    <div className="text-gray-700 space-y-3 break-words">
+      {parseMarkdown(content).map((block, index) => renderBlock(block, index))}
+    </div>
+  );
+}
+
+function renderBlock(block: BlockNode, key: number): ReactNode {
+  switch (block.type) {
+    case "heading": {
+      const className = {
+        1: "text-xl font-bold text-gray-800",
+        2: "text-lg font-semibold text-gray-800",
+        3: "text-base font-semibold text-gray-800",
+      }[block.level];
+      const Tag = `h${block.level}` as const;
+      return <Tag key={key} className={className}>{renderInline(block.children)}</Tag>;
+    }
+    case "paragraph":
+      return <p key={key}>{renderInline(block.children)}</p>;
+    case "list": {
+      const Tag = block.ordered ? "ol" : "ul";
+      return (
+        <Tag key={key} className={`pl-6 space-y-1 ${block.ordered ? "list-decimal" : "list-disc"}`}>
+          {block.items.map((item, index) => (
+            <li key={index}>{renderInline(item)}</li>
+          ))}
+        </Tag>
+      );
+    }
+    case "quote":
+      return (
+        <blockquote key={key} className="border-l-4 border-orange-200 pl-4 text-gray-600 italic">
+          {renderInline(block.children)}
+        </blockquote>
+      );
+    case "codeBlock":
+      return (
+        <pre key={key} className="bg-gray-100 rounded-lg p-3 text-sm overflow-x-auto">
+          <code>{block.text}</code>
+        </pre>
+      );
+    case "rule":
+      return <hr key={key} className="border-orange-100" />;
+  }
+}
+
+function renderInline(nodes: InlineNode[]): ReactNode {
+  return nodes.map((node, index) => {
+    switch (node.type) {
+      case "text":
+        return <Fragment key={index}>{node.text}</Fragment>;
+      case "break":
+        return <br key={index} />;
+      case "strong":
+        return <strong key={index}>{renderInline(node.children)}</strong>;
+      case "em":
+        return <em key={index}>{renderInline(node.children)}</em>;
+      case "del":
+        return <del key={index}>{renderInline(node.children)}</del>;
+      case "code":
+        return <code key={index} className="bg-gray-100 rounded px-1 text-sm">{node.text}</code>;
+      case "link":
+        return (
+          <a
+            key={index}
+            href={node.href}
+            target="_blank"
+            rel="noopener noreferrer nofollow"
+            className="text-orange-600 underline hover:text-orange-700"
+          >
+            {renderInline(node.children)}
+          </a>
+        );
+    }
+  });
+}
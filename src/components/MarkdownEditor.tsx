@@ -0,0 +1,92 @@
+import { useRef, useState } from "react";
+import { Markdown } from "./Markdown";
+
+interface MarkdownEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  rows?: number;
+}
+
+type Formatting = { prefix: string; suffix?: string; linePrefix?: boolean; placeholder: string };
+
+const TOOLBAR: { label: string; title: string; format: Formatting }[] = [
+  { label: "B", title: "Bold", format: { prefix: "**", suffix: "**", placeholder: "bold text" } },
+  { label: "I", title: "Italic", format: { prefix: "*", suffix: "*", placeholder: "italic text" } },
+  { label: "S", title: "Strikethrough", format: { prefix: "~~", suffix: "~~", placeholder: "text" } },
+  { label: "H", title: "Heading", format: { prefix: "## ", linePrefix: true, placeholder: "Heading" } },
+  { label: "•", title: "Bulleted list", format: { prefix: "- ", linePrefix: true, placeholder: "List item" } },
+  { label: "1.", title: "Numbered list", format: { prefix: "1. ", linePrefix: true, placeholder: "List item" } },
+  { label: "❝", title: "Quote", format: { prefix: "> ", linePrefix: true, placeholder: "Quote" } },
+  { label: "🔗", title: "Link", format: { prefix: "[", suffix: "](https://)", placeholder: "link text" } },
+];
+
+export function MarkdownEditor({ value, onChange, placeholder, rows = 8 }: MarkdownEditorProps) {
+  const [showPreview, setShowPreview] = useState(false);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  // Wrap the selection (or the current line, for block formats) and keep it selected
+  const applyFormat = ({ prefix, suffix = "", linePrefix, placeholder: fallback }: Formatting) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+
+    const { selectionStart, selectionEnd } = textarea;
+    const start = linePrefix ? value.lastIndexOf("\n", selectionStart - 1) + 1 : selectionStart;
+    const selected = value.slice(start, selectionEnd) || fallback;
+    const formatted = linePrefix
+      ? selected.split("\n").map((line) => prefix + line).join("\n")
+      : prefix + selected + suffix;
+
+    onChange(value.slice(0, start) + formatted + value.slice(selectionEnd));
+
+    requestAnimationFrame(() => {
+      textarea.focus();
+      const selectFrom = start + (linePrefix ? 0 : prefix.length);
+      textarea.setSelectionRange(selectFrom, selectFrom + (linePrefix ? formatted.length : selected.length));
+    });
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-lg focus-within:ring-2 focus-within:ring-orange-400 overflow-hidden">
+      {/* Toolbar */}
+      <div className="flex items-center justify-between gap-2 px-2 py-1 border-b border-gray-200 bg-gray-50">
+        <div className="flex flex-wrap items-center gap-1">
+          {TOOLBAR.map(({ label, title, format }) => (
+            <button
+              key={title}
+              type="button"
+              onClick={() => applyFormat(format)}
+              disabled={showPreview}
+              className="min-w-8 px-2 py-1 text-sm text-gray-600 rounded hover:bg-gray-200 transition-colors disabled:opacity-40"
+              title={title}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        <button
+          type="button"
+          onClick={() => setShowPreview(!showPreview)}
+          className="px-3 py-1 text-sm text-orange-600 rounded hover:bg-orange-100 transition-colors"
+        >
+          {showPreview ? "Edit" : "Preview"}
+        </button>
+      </div>
+
+      {showPreview ? (
+        <div className="px-4 py-3 bg-white" style={{ minHeight: `${rows * 1.5}rem` }}>
+          {value.trim() ? <Markdown content={value} /> : <p className="text-gray-400">Nothing to preview</p>}
+        </div>
+      ) : (
+        <textarea
+          ref={textareaRef}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={placeholder}
+          rows={rows}
+          className="w-full px-4 py-3 outline-none resize-none block"
+        />
+      )}
+    </div>
+  );
+}
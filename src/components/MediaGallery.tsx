@@ -0,0 +1,107 @@
+import { usePaginatedQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { useEffect, useRef, useState } from "react";
+import { Id } from "../../convex/_generated/dataModel";
+import { Lightbox, LightboxPhoto } from "./Lightbox";
+
+interface MediaGalleryProps {
+  groupId: Id<"groups">;
+  onBack: () => void;
+  onOpenEntry: (entry: { entryId: Id<"entries">; entryDate: number }) => void;
+}
+
+// Entries per page; each entry contributes all of its photos
+const PAGE_SIZE = 12;
+
+export function MediaGallery({ groupId, onBack, onOpenEntry }: MediaGalleryProps) {
+  const [lightboxIndex, setLightboxIndex] = useState<number | null>(null);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+
+  const { results, status, loadMore } = usePaginatedQuery(
+    api.entries.getGroupMedia,
+    { groupId },
+    { initialNumItems: PAGE_SIZE }
+  );
+
+  const photos = results.flatMap((photo): LightboxPhoto[] =>
+    photo.url ? [{ ...photo, url: photo.url }] : []
+  );
+
+  // Load older photos when the end of the grid scrolls into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || status !== "CanLoadMore") return;
+
+    const observer = new IntersectionObserver((observed) => {
+      if (observed[0].isIntersecting) {
+        loadMore(PAGE_SIZE);
+      }
+    }, { rootMargin: "200px" });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [status, loadMore]);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-4">
+          <button
+            onClick={onBack}
+            className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            ← Back
+          </button>
+          <h2 className="text-2xl font-bold text-gray-800">Gallery</h2>
+        </div>
+      </div>
+
+      <div className="bg-white/70 backdrop-blur-sm rounded-2xl p-6 border border-orange-200 shadow-sm">
+        {status === "LoadingFirstPage" ? (
+          <p className="text-center text-gray-500 py-12">Loading photos...</p>
+        ) : photos.length === 0 ? (
+          <div className="text-center py-12">
+            <div className="text-6xl mb-4">🖼️</div>
+            <p className="text-gray-500">No photos have been shared yet</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-3 md:grid-cols-4 lg:grid-cols-6 gap-2">
+            {photos.map((photo, index) => (
+              <button
+                key={`${photo.entryId}-${photo.id}`}
+                onClick={() => setLightboxIndex(index)}
+                className="aspect-square overflow-hidden rounded-lg focus:ring-2 focus:ring-orange-400 outline-none"
+                title={photo.caption || undefined}
+              >
+                <img
+                  src={photo.url}
+                  alt={photo.caption || "Shared photo"}
+                  loading="lazy"
+                  className="w-full h-full object-cover hover:scale-105 transition-transform"
+                />
+              </button>
+            ))}
+          </div>
+        )}
+
+        <div ref={loadMoreRef} className="h-1" />
+        {status === "LoadingMore" && (
+          <p className="text-center text-gray-500 text-sm py-4">Loading older photos...</p>
+        )}
+      </div>
+
+      {lightboxIndex !== null && (
+        <Lightbox
+          photos={photos}
+          initialIndex={lightboxIndex}
+          onClose={() => setLightboxIndex(null)}
+          onOpenEntry={(photo) => {
+            if (photo.entryId && photo.entryDate) {
+              onOpenEntry({ entryId: photo.entryId, entryDate: photo.entryDate });
+            }
+          }}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,245 @@
+import { useMutation } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { toast } from "sonner";
+import { Id } from "../../convex/_generated/dataModel";
+import { Avatar } from "./Avatar";
+
+type GroupRole = "owner" | "admin" | "writer" | "viewer";
+type DeletedAccountPolicy = "anonymize" | "delete";
+
+interface Member {
+  _id: Id<"users">;
+  name?: string;
+  email?: string;
+  avatarUrl: string | null;
+  bio: string | null;
+  role: GroupRole;
+}
+
+interface MembersPanelProps {
+  group: {
+    _id: Id<"groups">;
+    turnOrder: Id<"users">[];
+    currentTurnIndex: number;
+    myRole: GroupRole;
+    members: (Member | null)[];
+    deletedAccountPolicy?: DeletedAccountPolicy;
+  };
+  currentUserId?: Id<"users">;
+  onClose: () => void;
+  onLeft: () => void;
+}
+
+const ROLE_LABELS: Record<GroupRole, string> = {
+  owner: "Owner",
+  admin: "Admin",
+  writer: "Writer",
+  viewer: "Viewer",
+};
+
+export function MembersPanel({ group, currentUserId, onClose, onLeft }: MembersPanelProps) {
+  const leaveGroup = useMutation(api.groups.leaveGroup);
+  const removeMember = useMutation(api.groups.removeMember);
+  const setMemberRole = useMutation(api.groups.setMemberRole);
+  const reorderTurnOrder = useMutation(api.groups.reorderTurnOrder);
+  const setDeletedAccountPolicy = useMutation(api.groups.setDeletedAccountPolicy);
+
+  const canManage = group.myRole === "owner" || group.myRole === "admin";
+  const members = group.members.filter((member): member is Member => member !== null);
+  const memberById = new Map(members.map((member) => [member._id, member]));
+  const viewers = members.filter((member) => member.role === "viewer");
+
+  // Admins can manage writers and viewers; only the owner can manage admins
+  const canManageMember = (member: Member) =>
+    canManage &&
+    member._id !== currentUserId &&
+    member.role !== "owner" &&
+    (member.role !== "admin" || group.myRole === "owner");
+
+  const handleMove = async (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= group.turnOrder.length) return;
+
+    const turnOrder = [...group.turnOrder];
+    [turnOrder[index], turnOrder[target]] = [turnOrder[target], turnOrder[index]];
+
+    try {
+      await reorderTurnOrder({ groupId: group._id, turnOrder });
+    } catch (error) {
+      toast.error("Failed to reorder turns");
+    }
+  };
+
+  const handleRoleChange = async (member: Member, role: GroupRole) => {
+    try {
+      await setMemberRole({ groupId: group._id, memberId: member._id, role });
+      toast.success(`${member.name || member.email || "Member"} is now ${ROLE_LABELS[role].toLowerCase()}`);
+    } catch (error) {
+      toast.error("Failed to change role");
+    }
+  };
+
+  const handleRemove = async (memberId: Id<"users">, name: string) => {
+    if (!window.confirm(`Remove ${name} from this journal?`)) return;
+
+    try {
+      await removeMember({ groupId: group._id, memberId });
+      toast.success(`${name} was removed`);
+    } catch (error) {
+      toast.error("Failed to remove member");
+    }
+  };
+
+  const handlePolicyChange = async (policy: DeletedAccountPolicy) => {
+    try {
+      await setDeletedAccountPolicy({ groupId: group._id, policy });
+    } catch (error) {
+      toast.error("Failed to change the setting");
+    }
+  };
+
+  const handleLeave = async () => {
+    if (!window.confirm("Leave this journal? You will need a new invite to come back.")) return;
+
+    try {
+      await leaveGroup({ groupId: group._id });
+      toast.success("You left the journal");
+      onLeft();
+    } catch (error) {
+      toast.error("Failed to leave journal");
+    }
+  };
+
+  const renderControls = (member: Member) =>
+    canManageMember(member) && (
+      <>
+        <select
+          value={member.role}
+          onChange={(e) => handleRoleChange(member, e.target.value as GroupRole)}
+          className="text-xs border border-gray-200 rounded px-1 py-1 bg-white"
+        >
+          {group.myRole === "owner" && <option value="admin">Admin</option>}
+          <option value="writer">Writer</option>
+          <option value="viewer">Viewer</option>
+        </select>
+        <button
+          onClick={() => handleRemove(member._id, member.name || member.email || "this member")}
+          className="p-1 text-red-500 hover:bg-red-50 rounded text-xs"
+        >
+          Remove
+        </button>
+      </>
+    );
+
+  const renderMember = (member: Member | undefined, memberId: Id<"users">, subtitle: string) => {
+    const name = member?.name || member?.email || "Unknown";
+    return (
+      <>
+        <Avatar name={name} avatarUrl={member?.avatarUrl} />
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-medium text-gray-800 truncate">
+            {name}
+            {memberId === currentUserId && " (you)"}
+          </p>
+          <p className="text-xs text-gray-500">{subtitle}</p>
+          {member?.bio && <p className="text-xs text-gray-400 truncate" title={member.bio}>{member.bio}</p>}
+        </div>
+      </>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl p-6 w-full max-w-md max-h-[85vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-xl font-semibold">Members</h3>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            ×
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-500 mb-3">Turn order</p>
+        <div className="space-y-2 mb-6">
+          {group.turnOrder.map((memberId, index) => {
+            const member = memberById.get(memberId);
+            const isCurrent = index === group.currentTurnIndex;
+            const roleLabel = member ? ROLE_LABELS[member.role] : "";
+            return (
+              <div
+                key={memberId}
+                className={`flex items-center gap-3 p-3 rounded-lg border ${
+                  isCurrent ? "border-orange-300 bg-orange-50" : "border-gray-200"
+                }`}
+              >
+                <span className="text-sm text-gray-400 w-5">{index + 1}</span>
+                {renderMember(member, memberId, isCurrent ? `${roleLabel} · Writing now` : roleLabel)}
+                {canManage && (
+                  <div className="flex items-center gap-1">
+                    <button
+                      onClick={() => handleMove(index, -1)}
+                      disabled={index === 0}
+                      className="p-1 text-gray-500 hover:bg-gray-100 rounded disabled:opacity-30"
+                      title="Move up"
+                    >
+                      ↑
+                    </button>
+                    <button
+                      onClick={() => handleMove(index, 1)}
+                      disabled={index === group.turnOrder.length - 1}
+                      className="p-1 text-gray-500 hover:bg-gray-100 rounded disabled:opacity-30"
+                      title="Move down"
+                    >
+                      ↓
+                    </button>
+                    {member && renderControls(member)}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        {viewers.length > 0 && (
+          <>
+            <p className="text-sm text-gray-500 mb-3">Viewers (read and react only)</p>
+            <div className="space-y-2 mb-6">
+              {viewers.map((member) => (
+                <div
+                  key={member._id}
+                  className="flex items-center gap-3 p-3 rounded-lg border border-gray-200"
+                >
+                  {renderMember(member, member._id, ROLE_LABELS.viewer)}
+                  <div className="flex items-center gap-1">{renderControls(member)}</div>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+
+        {canManage && (
+          <div className="mb-6">
+            <label className="block text-sm text-gray-500 mb-2">When a member deletes their account</label>
+            <select
+              value={group.deletedAccountPolicy ?? "anonymize"}
+              onChange={(e) => handlePolicyChange(e.target.value as DeletedAccountPolicy)}
+              className="w-full text-sm border border-gray-200 rounded-lg px-3 py-2 bg-white"
+            >
+              <option value="anonymize">Keep their entries and comments as "Deleted account"</option>
+              <option value="delete">Delete their entries and comments</option>
+            </select>
+          </div>
+        )}
+
+        <button
+          onClick={handleLeave}
+          className="w-full px-4 py-2 border border-red-200 text-red-600 rounded-lg hover:bg-red-50 transition-colors"
+        >
+          Leave Journal
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,19 +1,37 @@
-import { useQuery, useMutation } from "convex/react";
+import { useQuery, useMutation, usePaginatedQuery } from "convex/react";
 import { api } from "../../convex/_generated/api";
 import { useState } from "react";
 import { toast } from "sonner";
+import { NotificationItem, NotificationLink, NotificationListItem } from "./NotificationItem";
 
-export function NotificationBell() {
+interface NotificationBellProps {
+  onOpenLink: (link: NotificationLink) => void;
+  onViewAll: () => void;
+}
+
+// Notifications shown in the dropdown; the rest are on the notifications page
+const PREVIEW_SIZE = 10;
+
+export function NotificationBell({ onOpenLink, onViewAll }: NotificationBellProps) {
   const [showNotifications, setShowNotifications] = useState(false);
-  
-  const notifications = useQuery(api.notifications.getUserNotifications, { limit: 10 });
+
+  const { results: notifications } = usePaginatedQuery(
+    api.notifications.getUserNotifications,
+    {},
+    { initialNumItems: PREVIEW_SIZE }
+  );
   const unreadCount = useQuery(api.notifications.getUnreadCount);
   const markAsRead = useMutation(api.notifications.markAsRead);
   const markAllAsRead = useMutation(api.notifications.markAllAsRead);
 
-  const handleMarkAsRead = async (notificationId: string) => {
+  const handleOpen = async (notification: NotificationListItem) => {
+    if (notification.link) {
+      setShowNotifications(false);
+      onOpenLink(notification.link);
+    }
+    if (notification.isRead) return;
     try {
-      await markAsRead({ notificationId: notificationId as any });
+      await markAsRead({ notificationId: notification._id });
     } catch (error) {
       toast.error("Failed to mark notification as read");
     }
@@ -28,19 +46,6 @@ export function NotificationBell() {
     }
   };
 
-  const formatTime = (timestamp: number) => {
-    const now = Date.now();
-    const diff = now - timestamp;
-    const minutes = Math.floor(diff / (1000 * 60));
-    const hours = Math.floor(diff / (1000 * 60 * 60));
-    const days = Math.floor(diff / (1000 * 60 * 60 * 24));
-
-    if (minutes < 1) return "Just now";
-    if (minutes < 60) return `${minutes}m ago`;
-    if (hours < 24) return `${hours}h ago`;
-    return `${days}d ago`;
-  };
-
   return (
     <div className="relative">
       <button
@@ -62,14 +67,14 @@ export function NotificationBell() {
             className="fixed inset-0 z-10"
             onClick={() => setShowNotifications(false)}
           />
-          
+
           {/* Notifications Panel */}
-          <div className="absolute right-0 top-full mt-2 w-80 bg-white rounded-2xl shadow-lg border border-gray-200 z-20 max-h-96 overflow-hidden">
+          <div className="absolute right-0 top-full mt-2 w-80 bg-white rounded-2xl shadow-lg border border-gray-200 z-20 max-h-96 overflow-hidden flex flex-col">
             {/* Header */}
             <div className="p-4 border-b border-gray-200">
               <div className="flex items-center justify-between">
                 <h3 className="font-semibold text-gray-800">Notifications</h3>
-                {notifications && notifications.length > 0 && (
+                {notifications.length > 0 && (
                   <button
                     onClick={handleMarkAllAsRead}
                     className="text-sm text-orange-600 hover:text-orange-700"
@@ -81,48 +86,14 @@ export function NotificationBell() {
             </div>
 
             {/* Notifications List */}
-            <div className="max-h-80 overflow-y-auto">
-              {notifications && notifications.length > 0 ? (
+            <div className="flex-1 overflow-y-auto">
+              {notifications.length > 0 ? (
                 notifications.map((notification) => (
-                  <div
+                  <NotificationItem
                     key={notification._id}
-                    className={`p-4 border-b border-gray-100 hover:bg-gray-50 cursor-pointer ${
-                      !notification.isRead ? "bg-orange-50" : ""
-                    }`}
-                    onClick={() => {
-                      if (!notification.isRead) {
-                        handleMarkAsRead(notification._id);
-                      }
-                    }}
-                  >
-                    <div className="flex items-start gap-3">
-                      <div className="flex-shrink-0">
-                        {notification.type === "your_turn" && "✍️"}
-                        {notification.type === "journal_passed" && "📖"}
-                        {notification.type === "new_member" && "👋"}
-                        {notification.type === "invitation_received" && "📨"}
-                      </div>
-                      <div className="flex-1 min-w-0">
-                        <p className="font-medium text-gray-800 text-sm">
-                          {notification.title}
-                        </p>
-                        <p className="text-gray-600 text-sm mt-1">
-                          {notification.message}
-                        </p>
-                        {notification.group && (
-                          <p className="text-orange-600 text-xs mt-1">
-                            {notification.group.name}
-                          </p>
-                        )}
-                        <p className="text-gray-400 text-xs mt-2">
-                          {formatTime(notification.createdAt)}
-                        </p>
-                      </div>
-                      {!notification.isRead && (
-                        <div className="w-2 h-2 bg-orange-500 rounded-full flex-shrink-0 mt-2"></div>
-                      )}
-                    </div>
-                  </div>
+                    notification={notification}
+                    onOpen={handleOpen}
+                  />
                 ))
               ) : (
                 <div className="p-8 text-center">
@@ -133,6 +104,17 @@ export function NotificationBell() {
                 </div>
               )}
             </div>
+
+            {/* Footer */}
+            <button
+              onClick={() => {
+                setShowNotifications(false);
+                onViewAll();
+              }}
+              className="p-3 text-sm text-orange-600 hover:bg-orange-50 border-t border-gray-200"
+            >
+              See all notifications
+            </button>
           </div>
         </>
       )}
@@ -0,0 +1,224 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation, usePaginatedQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { toast } from "sonner";
+import { NotificationItem, NotificationLink, NotificationListItem } from "./NotificationItem";
+
+interface NotificationCenterProps {
+  onBack: () => void;
+  onOpenLink: (link: NotificationLink) => void;
+  onOpenSettings: () => void;
+}
+
+type Grouping = "day" | "journal";
+
+const PAGE_SIZE = 20;
+
+// Heading for the day a notification arrived: Today, Yesterday or the date
+function dayLabel(timestamp: number) {
+  const date = new Date(timestamp);
+  const today = new Date();
+  const yesterday = new Date();
+  yesterday.setDate(today.getDate() - 1);
+
+  if (date.toDateString() === today.toDateString()) return "Today";
+  if (date.toDateString() === yesterday.toDateString()) return "Yesterday";
+  return date.toLocaleDateString("en-US", {
+    weekday: "long",
+    month: "long",
+    day: "numeric",
+    year: date.getFullYear() === today.getFullYear() ? undefined : "numeric",
+  });
+}
+
+// Split the newest-first list into sections, keeping the sections in order of their
+// newest notification
+function groupNotifications(notifications: NotificationListItem[], grouping: Grouping) {
+  const sections: { key: string; label: string; notifications: NotificationListItem[] }[] = [];
+  for (const notification of notifications) {
+    const key =
+      grouping === "day"
+        ? new Date(notification.createdAt).toDateString()
+        : notification.group?._id ?? "general";
+    const label =
+      grouping === "day" ? dayLabel(notification.createdAt) : notification.group?.name ?? "General";
+
+    const section = sections.find((existing) => existing.key === key);
+    if (section) {
+      section.notifications.push(notification);
+    } else {
+      sections.push({ key, label, notifications: [notification] });
+    }
+  }
+  return sections;
+}
+
+export function NotificationCenter({ onBack, onOpenLink, onOpenSettings }: NotificationCenterProps) {
+  const [grouping, setGrouping] = useState<Grouping>("day");
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+
+  const { results: notifications, status, loadMore } = usePaginatedQuery(
+    api.notifications.getUserNotifications,
+    {},
+    { initialNumItems: PAGE_SIZE }
+  );
+  const markAsRead = useMutation(api.notifications.markAsRead);
+  const markAllAsRead = useMutation(api.notifications.markAllAsRead);
+  const deleteNotification = useMutation(api.notifications.deleteNotification);
+  const clearAllNotifications = useMutation(api.notifications.clearAllNotifications);
+
+  // Load older notifications when the end of the list scrolls into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || status !== "CanLoadMore") return;
+
+    const observer = new IntersectionObserver((observed) => {
+      if (observed[0].isIntersecting) {
+        loadMore(PAGE_SIZE);
+      }
+    }, { rootMargin: "200px" });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [status, loadMore]);
+
+  const handleOpen = async (notification: NotificationListItem) => {
+    if (notification.link) {
+      onOpenLink(notification.link);
+    }
+    if (notification.isRead) return;
+    try {
+      await markAsRead({ notificationId: notification._id });
+    } catch (error) {
+      toast.error("Failed to mark notification as read");
+    }
+  };
+
+  const handleDelete = async (notification: NotificationListItem) => {
+    try {
+      await deleteNotification({ notificationId: notification._id });
+    } catch (error) {
+      toast.error("Failed to delete notification");
+    }
+  };
+
+  const handleMarkAllAsRead = async () => {
+    try {
+      await markAllAsRead();
+      toast.success("All notifications marked as read");
+    } catch (error) {
+      toast.error("Failed to mark all notifications as read");
+    }
+  };
+
+  const handleClearAll = async () => {
+    if (!window.confirm("Delete all of your notifications?")) return;
+    try {
+      await clearAllNotifications();
+      toast.success("Notifications cleared");
+    } catch (error) {
+      toast.error("Failed to clear notifications");
+    }
+  };
+
+  const sections = groupNotifications(notifications, grouping);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <button
+            onClick={onBack}
+            className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            ← Back
+          </button>
+          <h2 className="text-2xl font-bold text-gray-800">Notifications</h2>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={onOpenSettings}
+            className="px-3 py-2 text-sm text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            ⚙️ Settings
+          </button>
+          {notifications.length > 0 && (
+            <>
+              <button
+                onClick={handleMarkAllAsRead}
+                className="px-3 py-2 text-sm text-orange-600 hover:bg-orange-50 rounded-lg transition-colors"
+              >
+                Mark all read
+              </button>
+              <button
+                onClick={handleClearAll}
+                className="px-3 py-2 text-sm text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+              >
+                Clear all
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-white/70 backdrop-blur-sm rounded-2xl border border-orange-200 shadow-sm overflow-hidden">
+        {/* Grouping */}
+        <div className="flex items-center gap-2 p-4 border-b border-gray-200 text-sm">
+          <span className="text-gray-500">Group by</span>
+          {(["day", "journal"] as const).map((option) => (
+            <button
+              key={option}
+              onClick={() => setGrouping(option)}
+              className={`px-3 py-1 rounded-full transition-colors ${
+                grouping === option
+                  ? "bg-orange-100 text-orange-700"
+                  : "text-gray-600 hover:bg-gray-100"
+              }`}
+            >
+              {option === "day" ? "Day" : "Journal"}
+            </button>
+          ))}
+        </div>
+
+        {status === "LoadingFirstPage" ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-orange-500"></div>
+          </div>
+        ) : notifications.length === 0 ? (
+          <div className="p-12 text-center">
+            <div className="w-12 h-12 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-3">
+              <span className="text-gray-400">🔔</span>
+            </div>
+            <p className="text-gray-500 text-sm">You're all caught up</p>
+          </div>
+        ) : (
+          sections.map((section) => (
+            <div key={section.key}>
+              <h3 className="px-4 py-2 bg-gray-50 text-xs font-semibold uppercase tracking-wide text-gray-500">
+                {section.label}
+              </h3>
+              {section.notifications.map((notification) => (
+                <NotificationItem
+                  key={notification._id}
+                  notification={notification}
+                  onOpen={handleOpen}
+                  onDelete={handleDelete}
+                  showGroup={grouping === "day"}
+                />
+              ))}
+            </div>
+          ))
+        )}
+
+        <div ref={loadMoreRef} />
+        {status === "LoadingMore" && (
+          <div className="flex justify-center py-4">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-orange-500"></div>
+          </div>
+        )}
+      </div>
+
+      <p className="text-xs text-gray-400 text-center">Notifications are kept for 90 days.</p>
+    </div>
+  );
+}
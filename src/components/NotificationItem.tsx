@@ -0,0 +1,77 @@
+import { FunctionReturnType } from "convex/server";
+import { api } from "../../convex/_generated/api";
+
+export type NotificationListItem = FunctionReturnType<
+  typeof api.notifications.getUserNotifications
+>["page"][number];
+export type NotificationLink = NonNullable<NotificationListItem["link"]>;
+
+interface NotificationItemProps {
+  notification: NotificationListItem;
+  onOpen: (notification: NotificationListItem) => void;
+  onDelete?: (notification: NotificationListItem) => void;
+  showGroup?: boolean;
+}
+
+const TYPE_ICONS: Record<NotificationListItem["type"], string> = {
+  your_turn: "✍️",
+  journal_passed: "📖",
+  new_member: "👋",
+  invitation_received: "📨",
+  entry_comment: "💬",
+  entry_reaction: "❤️",
+  member_removed: "🚪",
+};
+
+function formatTime(timestamp: number) {
+  const diff = Date.now() - timestamp;
+  const minutes = Math.floor(diff / (1000 * 60));
+  const hours = Math.floor(diff / (1000 * 60 * 60));
+  const days = Math.floor(diff / (1000 * 60 * 60 * 24));
+
+  if (minutes < 1) return "Just now";
+  if (minutes < 60) return `${minutes}m ago`;
+  if (hours < 24) return `${hours}h ago`;
+  return `${days}d ago`;
+}
+
+export function NotificationItem({ notification, onOpen, onDelete, showGroup = true }: NotificationItemProps) {
+  return (
+    <div
+      className={`group p-4 border-b border-gray-100 hover:bg-gray-50 cursor-pointer ${
+        !notification.isRead ? "bg-orange-50" : ""
+      }`}
+      onClick={() => onOpen(notification)}
+    >
+      <div className="flex items-start gap-3">
+        <div className="flex-shrink-0">{TYPE_ICONS[notification.type]}</div>
+        <div className="flex-1 min-w-0">
+          <p className="font-medium text-gray-800 text-sm">{notification.title}</p>
+          <p className="text-gray-600 text-sm mt-1">{notification.message}</p>
+          {showGroup && notification.group && (
+            <p className="text-orange-600 text-xs mt-1">{notification.group.name}</p>
+          )}
+          <p className="text-gray-400 text-xs mt-2">
+            {formatTime(notification.createdAt)}
+            {notification.link && (notification.link.entry ? " · View entry →" : " · Open journal →")}
+          </p>
+        </div>
+        {!notification.isRead && (
+          <div className="w-2 h-2 bg-orange-500 rounded-full flex-shrink-0 mt-2"></div>
+        )}
+        {onDelete && (
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              onDelete(notification);
+            }}
+            className="text-gray-300 hover:text-red-500 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+            title="Delete notification"
+          >
+            ✕
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,286 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Doc, Id } from "../../convex/_generated/dataModel";
+import { toast } from "sonner";
+import { PushToggle } from "./PushToggle";
+import { minutesToTime, timeToMinutes } from "../lib/timezones";
+
+type NotificationType = Doc<"notifications">["type"];
+type Channel = "inApp" | "push" | "email";
+
+interface NotificationSettingsProps {
+  onBack: () => void;
+  onOpenProfile: () => void;
+}
+
+const TYPE_LABELS: Record<NotificationType, string> = {
+  your_turn: "✍️ It's my turn",
+  journal_passed: "📖 Someone wrote an entry",
+  new_member: "👋 Someone joined",
+  invitation_received: "📨 Invitations",
+  entry_comment: "💬 Comments on my entries",
+  entry_reaction: "❤️ Reactions to my entries",
+  member_removed: "🚪 Removed from a journal",
+};
+
+const CHANNELS: { channel: Channel; label: string }[] = [
+  { channel: "inApp", label: "In app" },
+  { channel: "push", label: "Push" },
+  { channel: "email", label: "Email" },
+];
+
+const EMAIL_OPTIONS = [
+  { kind: "weekly_digest", label: "Weekly digest" },
+  { kind: "invitation", label: "Invitations to journals" },
+] as const;
+
+export function NotificationSettings({ onBack, onOpenProfile }: NotificationSettingsProps) {
+  const [groupId, setGroupId] = useState<Id<"groups"> | "">("");
+  const [quietEnabled, setQuietEnabled] = useState(false);
+  const [quietStart, setQuietStart] = useState("22:00");
+  const [quietEnd, setQuietEnd] = useState("07:00");
+  const [isSavingQuietHours, setIsSavingQuietHours] = useState(false);
+
+  const groups = useQuery(api.groups.getUserGroups) || [];
+  const preferences = useQuery(api.notificationPreferences.getNotificationPreferences, {
+    groupId: groupId || undefined,
+  });
+  const emailPreferences = useQuery(api.emails.getEmailPreferences);
+  const setNotificationChannel = useMutation(api.notificationPreferences.setNotificationChannel);
+  const resetGroupPreferences = useMutation(api.notificationPreferences.resetGroupPreferences);
+  const setQuietHours = useMutation(api.notificationPreferences.setQuietHours);
+  const setEmailOptOut = useMutation(api.emails.setEmailOptOut);
+
+  // Fill the quiet hours form once the saved settings arrive
+  const savedStart = preferences?.quietHours?.start;
+  const savedEnd = preferences?.quietHours?.end;
+  useEffect(() => {
+    if (savedStart !== undefined && savedEnd !== undefined) {
+      setQuietEnabled(true);
+      setQuietStart(minutesToTime(savedStart));
+      setQuietEnd(minutesToTime(savedEnd));
+    }
+  }, [savedStart, savedEnd]);
+
+  const handleChannelToggle = async (type: NotificationType, channel: Channel, enabled: boolean) => {
+    try {
+      await setNotificationChannel({ groupId: groupId || undefined, type, channel, enabled });
+    } catch (error) {
+      toast.error("Failed to update notification settings");
+    }
+  };
+
+  const handleResetGroup = async () => {
+    if (!groupId) return;
+    try {
+      await resetGroupPreferences({ groupId });
+      toast.success("This journal now uses your default settings");
+    } catch (error) {
+      toast.error("Failed to reset notification settings");
+    }
+  };
+
+  const handleSaveQuietHours = async () => {
+    setIsSavingQuietHours(true);
+    try {
+      await setQuietHours({
+        quietHours: quietEnabled ? { start: timeToMinutes(quietStart), end: timeToMinutes(quietEnd) } : null,
+      });
+      toast.success(quietEnabled ? "Quiet hours saved" : "Quiet hours turned off");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save quiet hours");
+    } finally {
+      setIsSavingQuietHours(false);
+    }
+  };
+
+  const handleEmailToggle = async (kind: (typeof EMAIL_OPTIONS)[number]["kind"], enabled: boolean) => {
+    try {
+      await setEmailOptOut({ kind, optOut: !enabled });
+    } catch (error) {
+      toast.error("Failed to update email settings");
+    }
+  };
+
+  const hasOverrides = preferences?.channels.some((entry) => entry.isOverride) ?? false;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center gap-4">
+        <button
+          onClick={onBack}
+          className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+        >
+          ← Back
+        </button>
+        <h2 className="text-2xl font-bold text-gray-800">Notification Settings</h2>
+      </div>
+
+      {/* Channels per type */}
+      <div className="bg-white/70 backdrop-blur-sm rounded-2xl p-6 border border-orange-200 shadow-sm space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <h3 className="font-semibold text-gray-800">What you're told about</h3>
+            <p className="text-sm text-gray-500">
+              {groupId
+                ? "Changes here only apply to this journal."
+                : "Your defaults for every journal."}
+            </p>
+          </div>
+          <select
+            value={groupId}
+            onChange={(e) => setGroupId(e.target.value as Id<"groups"> | "")}
+            className="px-3 py-2 text-sm border border-gray-200 rounded-lg focus:ring-2 focus:ring-orange-400 focus:border-transparent outline-none bg-white"
+          >
+            <option value="">All journals</option>
+            {groups.map((group) => (
+              <option key={group._id} value={group._id}>
+                {group.name}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {preferences ? (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500">
+                  <th className="py-2 font-medium">Notification</th>
+                  {CHANNELS.map(({ channel, label }) => (
+                    <th key={channel} className="py-2 px-3 font-medium text-center">
+                      {label}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {preferences.channels.map((entry) => (
+                  <tr key={entry.type} className="border-t border-gray-100">
+                    <td className="py-2 text-gray-700">
+                      {TYPE_LABELS[entry.type]}
+                      {entry.isOverride && (
+                        <span className="ml-2 text-xs text-orange-600">customized</span>
+                      )}
+                    </td>
+                    {CHANNELS.map(({ channel }) => (
+                      <td key={channel} className="py-2 px-3 text-center">
+                        <input
+                          type="checkbox"
+                          checked={entry[channel]}
+                          onChange={(e) => handleChannelToggle(entry.type, channel, e.target.checked)}
+                          className="w-4 h-4 text-orange-500 rounded focus:ring-orange-400"
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="flex justify-center py-6">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-orange-500"></div>
+          </div>
+        )}
+
+        {groupId && hasOverrides && (
+          <button
+            onClick={handleResetGroup}
+            className="text-sm text-orange-600 hover:text-orange-700"
+          >
+            Use my defaults in this journal
+          </button>
+        )}
+
+        <div className="pt-2 border-t border-gray-100">
+          <p className="text-sm text-gray-500">Push notifications need to be turned on for each device.</p>
+          <PushToggle />
+        </div>
+      </div>
+
+      {/* Quiet hours */}
+      <div className="bg-white/70 backdrop-blur-sm rounded-2xl p-6 border border-orange-200 shadow-sm space-y-4">
+        <div>
+          <h3 className="font-semibold text-gray-800">Quiet hours</h3>
+          <p className="text-sm text-gray-500">
+            Push notifications and emails wait until quiet hours are over. They still show up in the app.
+          </p>
+        </div>
+
+        <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={quietEnabled}
+            onChange={(e) => setQuietEnabled(e.target.checked)}
+            className="w-4 h-4 text-orange-500 rounded focus:ring-orange-400"
+          />
+          Pause notifications at night
+        </label>
+
+        <div className="flex flex-wrap items-center gap-3 text-sm text-gray-700">
+          <label className="flex items-center gap-2">
+            From
+            <input
+              type="time"
+              value={quietStart}
+              onChange={(e) => setQuietStart(e.target.value)}
+              disabled={!quietEnabled}
+              required
+              className="px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-orange-400 focus:border-transparent outline-none disabled:opacity-50"
+            />
+          </label>
+          <label className="flex items-center gap-2">
+            to
+            <input
+              type="time"
+              value={quietEnd}
+              onChange={(e) => setQuietEnd(e.target.value)}
+              disabled={!quietEnabled}
+              required
+              className="px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-orange-400 focus:border-transparent outline-none disabled:opacity-50"
+            />
+          </label>
+        </div>
+
+        <p className="text-xs text-gray-500">
+          Times are in {preferences?.timezone?.replace(/_/g, " ") ?? "UTC"}.{" "}
+          <button onClick={onOpenProfile} className="text-orange-600 hover:text-orange-700">
+            Change your timezone
+          </button>
+        </p>
+
+        <button
+          onClick={handleSaveQuietHours}
+          disabled={isSavingQuietHours || (quietEnabled && (!quietStart || !quietEnd))}
+          className="px-4 py-2 bg-gradient-to-r from-orange-400 to-pink-400 text-white rounded-lg hover:from-orange-500 hover:to-pink-500 transition-colors disabled:opacity-50"
+        >
+          {isSavingQuietHours ? "Saving..." : "Save quiet hours"}
+        </button>
+      </div>
+
+      {/* Other emails */}
+      {emailPreferences?.email && (
+        <div className="bg-white/70 backdrop-blur-sm rounded-2xl p-6 border border-orange-200 shadow-sm space-y-3">
+          <div>
+            <h3 className="font-semibold text-gray-800">Other emails</h3>
+            <p className="text-sm text-gray-500">Sent to {emailPreferences.email}</p>
+          </div>
+          {EMAIL_OPTIONS.map(({ kind, label }) => (
+            <label key={kind} className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={!emailPreferences.optOuts.includes(kind)}
+                onChange={(e) => handleEmailToggle(kind, e.target.checked)}
+                className="w-4 h-4 text-orange-500 rounded focus:ring-orange-400"
+              />
+              {label}
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+import { useEffect, useRef, useState } from "react";
+import { useConvex } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { toast } from "sonner";
+import {
+  DRAFT_SYNCED_EVENT,
+  DraftSyncedDetail,
+  QUEUE_CHANGED_EVENT,
+  QueuedOperation,
+  completeOperation,
+  isOffline,
+  listQueue,
+} from "../lib/offlineQueue";
+
+// Retry now and then in case the browser missed the "online" event
+const SYNC_INTERVAL = 30 * 1000;
+
+// Explain why the server refused an entry written offline
+function describeRejection(error: unknown, groupName: string) {
+  const message = error instanceof Error ? error.message : "";
+  if (message.includes("Not your turn")) return `it's no longer your turn in ${groupName}`;
+  if (message.includes("Not authorized")) return `you can no longer write in ${groupName}`;
+  return "the server didn't accept it";
+}
+
+// Replays drafts and entries written offline once the connection is back, and shows
+// what is still waiting to sync
+export function OfflineSync() {
+  const convex = useConvex();
+  const [pending, setPending] = useState(0);
+  const [offline, setOffline] = useState(isOffline());
+  const isSyncingRef = useRef(false);
+  const syncAgainRef = useRef(false);
+
+  useEffect(() => {
+    const syncDraft = async (operation: Extract<QueuedOperation, { kind: "saveDraft" }>) => {
+      let result = await convex.mutation(api.entries.saveDraft, operation.args);
+      if (result.status === "conflict") {
+        // Never overwrite edits made elsewhere; keep the offline version alongside them
+        const name = operation.args.name || operation.args.title || "Untitled draft";
+        result = await convex.mutation(api.entries.saveDraft, {
+          ...operation.args,
+          draftId: undefined,
+          expectedVersion: undefined,
+          name: `${name} (offline copy)`,
+        });
+        toast.warning("A draft you edited offline was also changed elsewhere, so your offline version was saved as a separate draft.");
+      }
+      if (result.status !== "saved") return;
+
+      await completeOperation(operation, result);
+      const detail: DraftSyncedDetail = {
+        draftKey: operation.draftKey,
+        draftId: result.draftId,
+        version: result.version,
+        updatedAt: result.updatedAt,
+      };
+      window.dispatchEvent(new CustomEvent(DRAFT_SYNCED_EVENT, { detail }));
+    };
+
+    const syncEntry = async (operation: Extract<QueuedOperation, { kind: "createEntry" }>) => {
+      try {
+        await convex.mutation(api.entries.createEntry, operation.args);
+        toast.success("Your offline entry was published");
+      } catch (error) {
+        const groups = await convex.query(api.groups.getUserGroups, {});
+        const groupName = groups.find((group) => group._id === operation.args.groupId)?.name ?? "this group";
+        const reason = describeRejection(error, groupName);
+
+        // Keep the writing as a draft so nothing is lost
+        const { groupId, title, content, photos, photoCaptions, audio, tags, isQuickReflection } = operation.args;
+        try {
+          await convex.mutation(api.entries.saveDraft, {
+            groupId,
+            name: "Unpublished entry",
+            title,
+            content,
+            photos,
+            photoCaptions,
+            audio,
+            tags,
+            isQuickReflection,
+          });
+          toast.error(`Couldn't publish your offline entry: ${reason}. It was saved as a draft.`, {
+            duration: 10000,
+          });
+        } catch {
+          toast.error(`Couldn't publish your offline entry: ${reason}.`, { duration: 10000 });
+        }
+      }
+      await completeOperation(operation);
+    };
+
+    const sync = async () => {
+      if (isSyncingRef.current) {
+        syncAgainRef.current = true;
+        return;
+      }
+      isSyncingRef.current = true;
+      try {
+        do {
+          syncAgainRef.current = false;
+          const operations = await listQueue();
+          setPending(operations.length);
+          if (isOffline()) break;
+
+          for (const operation of operations) {
+            if (operation.kind === "saveDraft") {
+              try {
+                await syncDraft(operation);
+              } catch {
+                toast.error("Couldn't sync a draft you wrote offline");
+                await completeOperation(operation);
+              }
+            } else {
+              await syncEntry(operation);
+            }
+          }
+        } while (syncAgainRef.current);
+      } catch (error) {
+        console.error("Offline sync error:", error);
+      } finally {
+        isSyncingRef.current = false;
+      }
+    };
+
+    const handleConnectivity = () => {
+      setOffline(isOffline());
+      void sync();
+    };
+
+    void sync();
+    const interval = setInterval(() => void sync(), SYNC_INTERVAL);
+    window.addEventListener("online", handleConnectivity);
+    window.addEventListener("offline", handleConnectivity);
+    window.addEventListener(QUEUE_CHANGED_EVENT, handleConnectivity);
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener("online", handleConnectivity);
+      window.removeEventListener("offline", handleConnectivity);
+      window.removeEventListener(QUEUE_CHANGED_EVENT, handleConnectivity);
+    };
+  }, [convex]);
+
+  if (!offline && pending === 0) return null;
+
+  return (
+    <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-40 bg-white/90 backdrop-blur-sm border border-orange-200 shadow-lg rounded-full px-4 py-2 text-sm text-gray-700">
+      {offline ? "📴 You're offline" : "☁️ Syncing"}
+      {pending > 0
+        ? ` · ${pending} ${pending === 1 ? "change" : "changes"} waiting to sync`
+        : " · Drafts and entries are saved on this device"}
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { toast } from "sonner";
+import { ProfileForm } from "./ProfileForm";
+import { SignOutButton } from "../SignOutButton";
+import { deviceLanguage } from "../lib/languages";
+import { deviceTimezone } from "../lib/timezones";
+
+// Shown once after the first sign-in so friends see a name instead of "Someone"
+export function Onboarding() {
+  const profile = useQuery(api.profiles.getMyProfile);
+  const skipOnboarding = useMutation(api.profiles.skipOnboarding);
+
+  const handleSkip = async () => {
+    try {
+      await skipOnboarding({ timezone: deviceTimezone() });
+    } catch (error) {
+      toast.error("Something went wrong, please try again");
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <header className="sticky top-0 z-10 bg-white/80 backdrop-blur-sm h-16 flex justify-between items-center border-b border-orange-200 shadow-sm px-4">
+        <div className="flex items-center gap-2">
+          <div className="w-8 h-8 bg-gradient-to-br from-orange-400 to-pink-400 rounded-lg flex items-center justify-center">
+            <span className="text-white font-bold text-sm">📖</span>
+          </div>
+          <h2 className="text-xl font-semibold bg-gradient-to-r from-orange-600 to-pink-600 bg-clip-text text-transparent">
+            DayShare
+          </h2>
+        </div>
+        <SignOutButton />
+      </header>
+
+      <main className="flex-1 flex items-center justify-center p-8">
+        <div className="w-full max-w-lg mx-auto">
+          <div className="text-center mb-8">
+            <h1 className="text-3xl font-bold bg-gradient-to-r from-orange-600 to-pink-600 bg-clip-text text-transparent mb-3">
+              Welcome to DayShare!
+            </h1>
+            <p className="text-gray-600">
+              Tell your journal friends who you are. You can change this any time.
+            </p>
+          </div>
+
+          <div className="bg-white/70 backdrop-blur-sm rounded-2xl p-6 shadow-lg border border-orange-200">
+            {profile ? (
+              <ProfileForm
+                profile={profile}
+                defaults={{ language: deviceLanguage(), timezone: deviceTimezone() }}
+                submitLabel="Get started"
+              >
+                <button
+                  type="button"
+                  onClick={handleSkip}
+                  className="px-4 py-3 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+                >
+                  Skip for now
+                </button>
+              </ProfileForm>
+            ) : (
+              <div className="flex justify-center py-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-orange-500"></div>
+              </div>
+            )}
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
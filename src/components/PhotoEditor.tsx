@@ -0,0 +1,156 @@
+import { useRef, useState } from "react";
+import { useMutation } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { toast } from "sonner";
+import { Id } from "../../convex/_generated/dataModel";
+import { prepareImage } from "../lib/images";
+
+const MAX_PHOTOS = 10;
+
+export interface EditablePhoto {
+  id: Id<"_storage">;
+  url: string | null;
+  caption: string;
+}
+
+interface PhotoEditorProps {
+  groupId: Id<"groups">;
+  photos: EditablePhoto[];
+  onChange: (photos: EditablePhoto[]) => void;
+}
+
+export function PhotoEditor({ groupId, photos, onChange }: PhotoEditorProps) {
+  const [uploading, setUploading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const generateUploadUrl = useMutation(api.entries.generateUploadUrl);
+  const registerUpload = useMutation(api.photos.registerUpload);
+
+  const handlePhotoUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    if (files.length === 0) return;
+
+    if (photos.length + files.length > MAX_PHOTOS) {
+      toast.error(`You can add up to ${MAX_PHOTOS} photos`);
+      if (fileInputRef.current) fileInputRef.current.value = "";
+      return;
+    }
+
+    setUploading(true);
+    try {
+      const uploaded = await Promise.all(
+        files.map(async (file) => {
+          const image = await prepareImage(file);
+          const uploadUrl = await generateUploadUrl();
+          const result = await fetch(uploadUrl, {
+            method: "POST",
+            headers: { "Content-Type": image.type },
+            body: image,
+          });
+
+          if (!result.ok) {
+            throw new Error("Upload failed");
+          }
+
+          const { storageId } = await result.json();
+          const { url } = await registerUpload({ groupId, storageId });
+          return { id: storageId as Id<"_storage">, url, caption: "" };
+        })
+      );
+      onChange([...photos, ...uploaded]);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to upload photos");
+    } finally {
+      setUploading(false);
+      if (fileInputRef.current) {
+        fileInputRef.current.value = "";
+      }
+    }
+  };
+
+  const movePhoto = (index: number, offset: number) => {
+    const reordered = [...photos];
+    const [photo] = reordered.splice(index, 1);
+    reordered.splice(index + offset, 0, photo);
+    onChange(reordered);
+  };
+
+  const updateCaption = (photoId: Id<"_storage">, caption: string) => {
+    onChange(photos.map((photo) => (photo.id === photoId ? { ...photo, caption } : photo)));
+  };
+
+  return (
+    <div>
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        disabled={uploading || photos.length >= MAX_PHOTOS}
+        className="px-4 py-2 bg-orange-100 text-orange-600 rounded-lg hover:bg-orange-200 transition-colors disabled:opacity-50"
+      >
+        {uploading ? "Uploading..." : "Add Photos"}
+      </button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="image/jpeg,image/png,image/webp,image/gif,image/heic"
+        multiple
+        onChange={handlePhotoUpload}
+        className="hidden"
+      />
+
+      {photos.length > 0 && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mt-4">
+          {photos.map((photo, index) => (
+            <div key={photo.id} className="space-y-2">
+              <div className="relative">
+                {photo.url ? (
+                  <img
+                    src={photo.url}
+                    alt={photo.caption || "Entry photo"}
+                    className="w-full h-24 object-cover rounded-lg"
+                  />
+                ) : (
+                  <div className="w-full h-24 bg-gray-200 rounded-lg flex items-center justify-center">
+                    <span className="text-gray-500">📷</span>
+                  </div>
+                )}
+                <button
+                  onClick={() => onChange(photos.filter((p) => p.id !== photo.id))}
+                  className="absolute -top-2 -right-2 w-6 h-6 bg-red-500 text-white rounded-full text-xs hover:bg-red-600 transition-colors"
+                  title="Remove photo"
+                >
+                  ×
+                </button>
+                <div className="absolute bottom-1 left-1 right-1 flex justify-between">
+                  <button
+                    onClick={() => movePhoto(index, -1)}
+                    disabled={index === 0}
+                    className="w-6 h-6 bg-white/80 text-gray-700 rounded-full text-xs hover:bg-white transition-colors disabled:invisible"
+                    title="Move earlier"
+                  >
+                    ←
+                  </button>
+                  <button
+                    onClick={() => movePhoto(index, 1)}
+                    disabled={index === photos.length - 1}
+                    className="w-6 h-6 bg-white/80 text-gray-700 rounded-full text-xs hover:bg-white transition-colors disabled:invisible"
+                    title="Move later"
+                  >
+                    →
+                  </button>
+                </div>
+              </div>
+              <input
+                type="text"
+                value={photo.caption}
+                onChange={(e) => updateCaption(photo.id, e.target.value)}
+                placeholder="Add a caption..."
+                maxLength={300}
+                className="w-full px-2 py-1 text-xs border border-gray-200 rounded focus:ring-2 focus:ring-orange-400 focus:border-transparent outline-none"
+              />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,210 @@
+import { useRef, useState } from "react";
+import { useMutation } from "convex/react";
+import { FunctionReturnType } from "convex/server";
+import { api } from "../../convex/_generated/api";
+import { toast } from "sonner";
+import { Avatar } from "./Avatar";
+import { prepareImage } from "../lib/images";
+import { LANGUAGES } from "../lib/languages";
+import { timezoneOptions } from "../lib/timezones";
+
+type Profile = NonNullable<FunctionReturnType<typeof api.profiles.getMyProfile>>;
+
+interface ProfileFormProps {
+  profile: Profile;
+  defaults?: { language: string; timezone: string };
+  submitLabel: string;
+  onSaved?: () => void;
+  // Extra buttons next to the submit button
+  children?: React.ReactNode;
+}
+
+// Avatars are shown small, so they are scaled down further than photos
+const AVATAR_DIMENSION = 512;
+const MAX_BIO_LENGTH = 280;
+
+// Avatar, display name, bio, language and timezone; shared by onboarding and settings
+export function ProfileForm({ profile, defaults, submitLabel, onSaved, children }: ProfileFormProps) {
+  const [displayName, setDisplayName] = useState(profile.displayName);
+  const [bio, setBio] = useState(profile.bio);
+  const [language, setLanguage] = useState(profile.language ?? defaults?.language ?? "");
+  const [timezone, setTimezone] = useState(profile.timezone ?? defaults?.timezone ?? "");
+  const [isSaving, setIsSaving] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const updateProfile = useMutation(api.profiles.updateProfile);
+  const setAvatar = useMutation(api.profiles.setAvatar);
+  const generateUploadUrl = useMutation(api.entries.generateUploadUrl);
+  const registerUpload = useMutation(api.photos.registerUpload);
+
+  const handleAvatarUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    setIsUploading(true);
+    try {
+      const image = await prepareImage(file, AVATAR_DIMENSION);
+      const uploadUrl = await generateUploadUrl();
+      const result = await fetch(uploadUrl, {
+        method: "POST",
+        headers: { "Content-Type": image.type },
+        body: image,
+      });
+      if (!result.ok) {
+        throw new Error("Upload failed");
+      }
+
+      const { storageId } = await result.json();
+      await registerUpload({ storageId });
+      await setAvatar({ storageId });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to upload avatar");
+    } finally {
+      setIsUploading(false);
+      if (fileInputRef.current) {
+        fileInputRef.current.value = "";
+      }
+    }
+  };
+
+  const handleRemoveAvatar = async () => {
+    try {
+      await setAvatar({ storageId: null });
+    } catch (error) {
+      toast.error("Failed to remove avatar");
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    try {
+      await updateProfile({
+        displayName,
+        bio,
+        language: language || undefined,
+        timezone: timezone || undefined,
+      });
+      onSaved?.();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save profile");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClassName =
+    "w-full px-4 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-orange-400 focus:border-transparent outline-none";
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-5">
+      {/* Avatar */}
+      <div className="flex items-center gap-4">
+        <Avatar
+          name={displayName}
+          avatarUrl={profile.avatarUrl}
+          className="w-20 h-20 text-3xl bg-gradient-to-br from-orange-300 to-pink-300 text-white"
+        />
+        <div className="space-y-1">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/jpeg,image/png,image/webp,image/gif"
+            onChange={handleAvatarUpload}
+            className="hidden"
+          />
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isUploading}
+            className="block text-sm text-orange-600 hover:text-orange-700 disabled:opacity-50"
+          >
+            {isUploading ? "Uploading..." : profile.avatarUrl ? "Change photo" : "Add a photo"}
+          </button>
+          {profile.avatarUrl && (
+            <button
+              type="button"
+              onClick={handleRemoveAvatar}
+              className="block text-sm text-gray-500 hover:text-red-600"
+            >
+              Remove photo
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Display name *</label>
+        <input
+          type="text"
+          value={displayName}
+          onChange={(e) => setDisplayName(e.target.value)}
+          placeholder="What should your friends call you?"
+          maxLength={50}
+          required
+          className={inputClassName}
+        />
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">About you</label>
+        <textarea
+          value={bio}
+          onChange={(e) => setBio(e.target.value)}
+          placeholder="A line or two your journal friends will see"
+          maxLength={MAX_BIO_LENGTH}
+          rows={3}
+          className={`${inputClassName} resize-none`}
+        />
+        <p className="text-xs text-gray-400 mt-1 text-right">
+          {bio.length}/{MAX_BIO_LENGTH}
+        </p>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Language</label>
+          <select
+            value={language}
+            onChange={(e) => setLanguage(e.target.value)}
+            className={`${inputClassName} bg-white`}
+          >
+            <option value="">Not set</option>
+            {LANGUAGES.map(({ code, name }) => (
+              <option key={code} value={code}>
+                {name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Timezone</label>
+          <select
+            value={timezone}
+            onChange={(e) => setTimezone(e.target.value)}
+            className={`${inputClassName} bg-white`}
+          >
+            <option value="">Not set (UTC)</option>
+            {timezoneOptions(profile.timezone).map((zone) => (
+              <option key={zone} value={zone}>
+                {zone.replace(/_/g, " ")}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="flex gap-3">
+        {children}
+        <button
+          type="submit"
+          disabled={isSaving || !displayName.trim()}
+          className="flex-1 px-4 py-3 bg-gradient-to-r from-orange-400 to-pink-400 text-white rounded-lg hover:from-orange-500 hover:to-pink-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSaving ? "Saving..." : submitLabel}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,55 @@
+import { useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { toast } from "sonner";
+import { ProfileForm } from "./ProfileForm";
+import { AccountSettings } from "./AccountSettings";
+
+interface ProfileSettingsProps {
+  onBack: () => void;
+}
+
+export function ProfileSettings({ onBack }: ProfileSettingsProps) {
+  const profile = useQuery(api.profiles.getMyProfile);
+
+  return (
+    <div className="space-y-6 max-w-2xl mx-auto">
+      {/* Header */}
+      <div className="flex items-center gap-4">
+        <button
+          onClick={onBack}
+          className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+        >
+          ← Back
+        </button>
+        <h2 className="text-2xl font-bold text-gray-800">Your Profile</h2>
+      </div>
+
+      <div className="bg-white/70 backdrop-blur-sm rounded-2xl p-6 border border-orange-200 shadow-sm">
+        {profile ? (
+          <>
+            {profile.isAnonymous ? (
+              <p className="text-sm text-gray-500 mb-5">Signed in as a guest</p>
+            ) : (
+              profile.email && <p className="text-sm text-gray-500 mb-5">Signed in as {profile.email}</p>
+            )}
+            <ProfileForm
+              profile={profile}
+              submitLabel="Save profile"
+              onSaved={() => toast.success("Profile saved")}
+            />
+          </>
+        ) : (
+          <div className="flex justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-orange-500"></div>
+          </div>
+        )}
+      </div>
+
+      {profile && (
+        <div className="bg-white/70 backdrop-blur-sm rounded-2xl p-6 border border-orange-200 shadow-sm">
+          <AccountSettings isAnonymous={profile.isAnonymous} />
+        </div>
+      )}
+    </div>
+  );
+}
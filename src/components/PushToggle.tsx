@@ -0,0 +1,85 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { toast } from "sonner";
+import {
+  createPushSubscription,
+  getPushSubscription,
+  isPushSupported,
+  toSubscriptionArgs,
+} from "../lib/push";
+
+// Turns push notifications on or off for this browser
+export function PushToggle() {
+  const [endpoint, setEndpoint] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const supported = isPushSupported();
+
+  const publicKey = useQuery(api.push.getPublicKey);
+  const isSubscribed = useQuery(api.push.isSubscribed, endpoint ? { endpoint } : "skip");
+  const subscribe = useMutation(api.push.subscribe);
+  const unsubscribe = useMutation(api.push.unsubscribe);
+
+  useEffect(() => {
+    if (!supported) return;
+    void getPushSubscription().then((subscription) => setEndpoint(subscription?.endpoint ?? null));
+  }, [supported]);
+
+  if (!supported || !publicKey) return null;
+
+  if (Notification.permission === "denied") {
+    return <p className="mt-2 text-xs text-gray-500">Notifications are blocked in your browser settings</p>;
+  }
+
+  const handleEnable = async () => {
+    setBusy(true);
+    try {
+      const subscription = await createPushSubscription(publicKey);
+      if (!subscription) {
+        toast.error("Notifications were not allowed");
+        return;
+      }
+      await subscribe(toSubscriptionArgs(subscription));
+      setEndpoint(subscription.endpoint);
+      toast.success("You'll be notified on this device when it's your turn");
+    } catch (error) {
+      toast.error("Failed to turn on notifications");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDisable = async () => {
+    setBusy(true);
+    try {
+      const subscription = await getPushSubscription();
+      if (subscription) {
+        await unsubscribe({ endpoint: subscription.endpoint });
+        await subscription.unsubscribe();
+      }
+      setEndpoint(null);
+    } catch (error) {
+      toast.error("Failed to turn off notifications");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return isSubscribed ? (
+    <button
+      onClick={handleDisable}
+      disabled={busy}
+      className="mt-2 text-xs text-gray-500 hover:text-gray-700 disabled:opacity-50"
+    >
+      📲 Push on for this device · Turn off
+    </button>
+  ) : (
+    <button
+      onClick={handleEnable}
+      disabled={busy}
+      className="mt-2 text-xs text-orange-600 hover:text-orange-700 disabled:opacity-50"
+    >
+      📲 Get notified on this device
+    </button>
+  );
+}
@@ -0,0 +1,91 @@
+import { useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { diffWords } from "../lib/diff";
+
+interface RevisionHistoryProps {
+  entry: {
+    _id: Id<"entries">;
+    title?: string;
+    content: string;
+    editedAt?: number;
+  };
+  onClose: () => void;
+}
+
+export function RevisionHistory({ entry, onClose }: RevisionHistoryProps) {
+  const revisions = useQuery(api.entries.getEntryRevisions, { entryId: entry._id });
+
+  const formatDateTime = (timestamp: number) => {
+    return new Date(timestamp).toLocaleString("en-US", {
+      month: "short",
+      day: "numeric",
+      year: "numeric",
+      hour: "numeric",
+      minute: "2-digit",
+    });
+  };
+
+  const renderDiff = (before: string, after: string) => (
+    <p className="text-sm text-gray-700 whitespace-pre-wrap">
+      {diffWords(before, after).map((part, index) => (
+        <span
+          key={index}
+          className={
+            part.type === "added"
+              ? "bg-green-100 text-green-800"
+              : part.type === "removed"
+                ? "bg-red-100 text-red-700 line-through"
+                : ""
+          }
+        >
+          {part.value}
+        </span>
+      ))}
+    </p>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl p-6 w-full max-w-2xl max-h-[80vh] flex flex-col">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-xl font-semibold">Edit History</h3>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            ×
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto space-y-4">
+          {revisions === undefined ? (
+            <p className="text-gray-500 text-sm">Loading...</p>
+          ) : revisions.length === 0 ? (
+            <p className="text-gray-500 text-sm">This entry has not been edited.</p>
+          ) : (
+            revisions.map((revision, index) => {
+              // Each revision is compared with the version that replaced it
+              const next = index === 0 ? entry : revisions[index - 1];
+              return (
+                <div key={revision._id} className="border border-gray-200 rounded-lg p-4">
+                  <p className="text-xs text-gray-500 mb-2">
+                    Version from {formatDateTime(revision.createdAt)}
+                    {revision.editor?.name && ` · edited by ${revision.editor.name}`}
+                  </p>
+                  {(revision.title || next.title) && revision.title !== next.title && (
+                    <div className="mb-2">
+                      <span className="text-xs font-medium text-gray-500">Title: </span>
+                      {renderDiff(revision.title || "", next.title || "")}
+                    </div>
+                  )}
+                  {renderDiff(revision.content, next.content)}
+                </div>
+              );
+            })
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+import { useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { useState } from "react";
+import { Id } from "../../convex/_generated/dataModel";
+import { toPlainText } from "../../convex/markdown";
+
+interface SearchEntriesProps {
+  initialQuery: string;
+  onBack: () => void;
+  onOpenEntry: (groupId: Id<"groups">, entryId: Id<"entries">, entryDate: number) => void;
+}
+
+export function SearchEntries({ initialQuery, onBack, onOpenEntry }: SearchEntriesProps) {
+  const [queryInput, setQueryInput] = useState(initialQuery);
+  const [searchText, setSearchText] = useState(initialQuery);
+  const [groupId, setGroupId] = useState<Id<"groups"> | "">("");
+  const [authorId, setAuthorId] = useState<Id<"users"> | "">("");
+  const [tag, setTag] = useState("");
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+
+  const groups = useQuery(api.groups.getUserGroups) || [];
+  const results = useQuery(api.entries.searchEntries, {
+    query: searchText,
+    groupId: groupId || undefined,
+    authorId: authorId || undefined,
+    tag: tag.trim() || undefined,
+    fromDate: fromDate ? new Date(`${fromDate}T00:00:00`).getTime() : undefined,
+    toDate: toDate ? new Date(`${toDate}T23:59:59.999`).getTime() : undefined,
+  });
+
+  const selectedGroup = groups.find((group) => group._id === groupId);
+
+  const formatDate = (timestamp: number) => {
+    return new Date(timestamp).toLocaleDateString("en-US", {
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+    });
+  };
+
+  // Show the part of the content around the first matching word
+  const getSnippet = (content: string) => {
+    const words = searchText.toLowerCase().split(/\s+/).filter(Boolean);
+    const lower = content.toLowerCase();
+    const matches = words.map((word) => lower.indexOf(word)).filter((i) => i >= 0);
+    const matchIndex = matches.length > 0 ? Math.min(...matches) : 0;
+    const start = Math.max(0, matchIndex - 60);
+    const snippet = content.slice(start, start + 200);
+    return `${start > 0 ? "…" : ""}${snippet}${start + 200 < content.length ? "…" : ""}`;
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center gap-4">
+        <button
+          onClick={onBack}
+          className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+        >
+          ← Back
+        </button>
+        <h2 className="text-2xl font-bold text-gray-800">Search Journals</h2>
+      </div>
+
+      {/* Search Form */}
+      <div className="bg-white/70 backdrop-blur-sm rounded-2xl p-6 border border-orange-200 shadow-sm space-y-4">
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            setSearchText(queryInput.trim());
+          }}
+          className="flex gap-2"
+        >
+          <input
+            type="search"
+            value={queryInput}
+            onChange={(e) => setQueryInput(e.target.value)}
+            placeholder="Search titles and entries..."
+            className="flex-1 px-4 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-orange-400 focus:border-transparent outline-none"
+            autoFocus
+          />
+          <button
+            type="submit"
+            className="px-6 py-3 bg-gradient-to-r from-orange-400 to-pink-400 text-white rounded-lg hover:from-orange-500 hover:to-pink-500 transition-colors"
+          >
+            Search
+          </button>
+        </form>
+
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+          <select
+            value={groupId}
+            onChange={(e) => {
+              setGroupId(e.target.value as Id<"groups"> | "");
+              setAuthorId("");
+            }}
+            className="px-3 py-2 border border-gray-200 rounded-lg outline-none bg-white text-sm"
+          >
+            <option value="">All journals</option>
+            {groups.map((group) => (
+              <option key={group._id} value={group._id}>{group.name}</option>
+            ))}
+          </select>
+          <select
+            value={authorId}
+            onChange={(e) => setAuthorId(e.target.value as Id<"users"> | "")}
+            disabled={!selectedGroup}
+            className="px-3 py-2 border border-gray-200 rounded-lg outline-none bg-white text-sm disabled:opacity-50"
+          >
+            <option value="">Any author</option>
+            {selectedGroup?.members.map((member) =>
+              member ? (
+                <option key={member._id} value={member._id}>{member.name || member.email}</option>
+              ) : null
+            )}
+          </select>
+          <input
+            type="text"
+            value={tag}
+            onChange={(e) => setTag(e.target.value)}
+            placeholder="#tag"
+            className="px-3 py-2 border border-gray-200 rounded-lg outline-none text-sm"
+          />
+          <input
+            type="date"
+            value={fromDate}
+            onChange={(e) => setFromDate(e.target.value)}
+            title="From"
+            className="px-3 py-2 border border-gray-200 rounded-lg outline-none text-sm"
+          />
+          <input
+            type="date"
+            value={toDate}
+            onChange={(e) => setToDate(e.target.value)}
+            title="To"
+            className="px-3 py-2 border border-gray-200 rounded-lg outline-none text-sm"
+          />
+        </div>
+      </div>
+
+      {/* Results */}
+      <div className="space-y-3">
+        {!searchText ? null : results === undefined ? (
+          <p className="text-center text-gray-500 py-8">Searching...</p>
+        ) : results.length === 0 ? (
+          <p className="text-center text-gray-500 py-8">No entries match "{searchText}"</p>
+        ) : (
+          results.map((entry) => (
+            <button
+              key={entry._id}
+              onClick={() => onOpenEntry(entry.groupId, entry._id, entry.entryDate)}
+              className="w-full text-left bg-white/70 backdrop-blur-sm rounded-2xl p-4 border border-orange-200 shadow-sm hover:shadow-md transition-all"
+            >
+              <div className="flex items-center justify-between gap-3 mb-1">
+                <p className="text-sm text-orange-600">{entry.group.name}</p>
+                <p className="text-xs text-gray-500">
+                  {entry.author?.name || "Unknown"} · {formatDate(entry.entryDate)}
+                </p>
+              </div>
+              {entry.title && (
+                <h3 className="font-semibold text-gray-800">{entry.title}</h3>
+              )}
+              <p className="text-sm text-gray-600 whitespace-pre-wrap">{getSnippet(toPlainText(entry))}</p>
+              {entry.tags && entry.tags.length > 0 && (
+                <div className="flex flex-wrap gap-1 mt-2">
+                  {entry.tags.map((entryTag) => (
+                    <span key={entryTag} className="bg-orange-100 text-orange-600 text-xs px-2 py-0.5 rounded-full">
+                      #{entryTag}
+                    </span>
+                  ))}
+                </div>
+              )}
+            </button>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { toast } from "sonner";
+import { Id } from "../../convex/_generated/dataModel";
+import { formatDuration } from "../lib/utils";
+
+// Keep in step with the server-side limit in convex/photos.ts
+const MAX_DURATION = 10 * 60;
+
+// Preferred recording formats, best first; browsers support different subsets
+const MIME_TYPES = ["audio/webm;codecs=opus", "audio/webm", "audio/mp4", "audio/ogg"];
+
+export interface EditableAudio {
+  storageId: Id<"_storage">;
+  duration: number;
+  url: string | null;
+  transcript?: string;
+}
+
+interface VoiceRecorderProps {
+  groupId: Id<"groups">;
+  audio: EditableAudio | null;
+  onChange: (audio: EditableAudio | null) => void;
+}
+
+export function VoiceRecorder({ groupId, audio, onChange }: VoiceRecorderProps) {
+  const [isRecording, setIsRecording] = useState(false);
+  const [elapsed, setElapsed] = useState(0);
+  const [uploading, setUploading] = useState(false);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const startedAtRef = useRef(0);
+
+  const generateUploadUrl = useMutation(api.entries.generateUploadUrl);
+  const registerUpload = useMutation(api.photos.registerUpload);
+
+  const isSupported = typeof window !== "undefined" && "MediaRecorder" in window;
+
+  // Stop the microphone if the form closes mid-recording
+  useEffect(() => {
+    return () => {
+      const recorder = recorderRef.current;
+      if (recorder && recorder.state !== "inactive") {
+        recorder.onstop = null;
+        recorder.stop();
+        recorder.stream.getTracks().forEach((track) => track.stop());
+      }
+    };
+  }, []);
+
+  // Tick the timer and stop automatically at the length limit
+  useEffect(() => {
+    if (!isRecording) return;
+    const interval = setInterval(() => {
+      const seconds = (Date.now() - startedAtRef.current) / 1000;
+      setElapsed(seconds);
+      if (seconds >= MAX_DURATION) recorderRef.current?.stop();
+    }, 250);
+    return () => clearInterval(interval);
+  }, [isRecording]);
+
+  const uploadRecording = async (blob: Blob, duration: number) => {
+    setUploading(true);
+    try {
+      const uploadUrl = await generateUploadUrl();
+      const result = await fetch(uploadUrl, {
+        method: "POST",
+        headers: { "Content-Type": blob.type },
+        body: blob,
+      });
+
+      if (!result.ok) {
+        throw new Error("Upload failed");
+      }
+
+      const { storageId } = await result.json();
+      const { url } = await registerUpload({ groupId, storageId });
+      onChange({ storageId, duration, url });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to upload recording");
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const startRecording = async () => {
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch (error) {
+      toast.error("Microphone access is needed to record a voice memo");
+      return;
+    }
+
+    const mimeType = MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+    const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+    const chunks: Blob[] = [];
+
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+    recorder.onstop = () => {
+      stream.getTracks().forEach((track) => track.stop());
+      setIsRecording(false);
+      const duration = Math.min((Date.now() - startedAtRef.current) / 1000, MAX_DURATION);
+      const blob = new Blob(chunks, { type: recorder.mimeType || mimeType || "audio/webm" });
+      if (blob.size > 0) void uploadRecording(blob, duration);
+    };
+
+    recorderRef.current = recorder;
+    startedAtRef.current = Date.now();
+    setElapsed(0);
+    recorder.start();
+    setIsRecording(true);
+  };
+
+  if (!isSupported) {
+    return <p className="text-sm text-gray-500">Voice memos are not supported in this browser.</p>;
+  }
+
+  if (audio) {
+    return (
+      <div className="flex items-center gap-3">
+        {audio.url && <audio controls src={audio.url} className="flex-1 max-w-md" />}
+        <span className="text-sm text-gray-500">{formatDuration(audio.duration)}</span>
+        <button
+          onClick={() => onChange(null)}
+          className="px-3 py-1 text-sm text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+        >
+          Remove
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-3">
+      {isRecording ? (
+        <button
+          onClick={() => recorderRef.current?.stop()}
+          className="px-4 py-2 bg-red-500 text-white rounded-lg hover:bg-red-600 transition-colors flex items-center gap-2"
+        >
+          <span className="w-2 h-2 bg-white rounded-full animate-pulse" />
+          Stop · {formatDuration(elapsed)}
+        </button>
+      ) : (
+        <button
+          onClick={startRecording}
+          disabled={uploading}
+          className="px-4 py-2 bg-orange-100 text-orange-600 rounded-lg hover:bg-orange-200 transition-colors disabled:opacity-50"
+        >
+          {uploading ? "Uploading..." : "🎙️ Record Voice Memo"}
+        </button>
+      )}
+      {isRecording && (
+        <span className="text-xs text-gray-500">Up to {MAX_DURATION / 60} minutes</span>
+      )}
+    </div>
+  );
+}
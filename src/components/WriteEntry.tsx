@@ -1,9 +1,75 @@
-import { useState, useRef, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useMutation, useQuery } from "convex/react";
 import { api } from "../../convex/_generated/api";
 import { toast } from "sonner";
 import { Id } from "../../convex/_generated/dataModel";
 import { AIChat } from "./AIChat";
+import { MarkdownEditor } from "./MarkdownEditor";
+import { EditablePhoto, PhotoEditor } from "./PhotoEditor";
+import { EditableAudio, VoiceRecorder } from "./VoiceRecorder";
+import { DraftPicker } from "./DraftPicker";
+import {
+  DRAFT_SYNCED_EVENT,
+  DraftSyncedDetail,
+  SaveDraftArgs,
+  getQueuedDraft,
+  isOffline,
+  listQueue,
+  queueDraftSave,
+  queueEntry,
+  removeQueuedDraft,
+} from "../lib/offlineQueue";
+
+const AUTOSAVE_DELAY = 1500;
+
+interface DraftForm {
+  name: string;
+  title: string;
+  content: string;
+  tags: string[];
+  isQuickReflection: boolean;
+  photos: EditablePhoto[];
+  audio: EditableAudio | null;
+}
+
+// The form in the shape the draft and entry mutations expect
+function toDraftFields(form: DraftForm) {
+  return {
+    name: form.name.trim() || undefined,
+    title: form.title.trim() || undefined,
+    content: form.content,
+    photos: form.photos.length > 0 ? form.photos.map((photo) => photo.id) : undefined,
+    photoCaptions: form.photos.length > 0
+      ? form.photos.map((photo) => ({ storageId: photo.id, caption: photo.caption }))
+      : undefined,
+    audio: form.audio ? { storageId: form.audio.storageId, duration: form.audio.duration } : undefined,
+    tags: form.tags.length > 0 ? form.tags : undefined,
+    isQuickReflection: form.isQuickReflection,
+  };
+}
+
+// Rebuild the form from a draft save that is still waiting in the offline queue.
+// Uploaded files have no URL until the draft syncs.
+function fromDraftArgs(args: SaveDraftArgs): DraftForm {
+  return {
+    name: args.name || "",
+    title: args.title || "",
+    content: args.content,
+    tags: args.tags || [],
+    isQuickReflection: args.isQuickReflection || false,
+    photos: (args.photos || []).map((id) => ({
+      id,
+      url: null,
+      caption: args.photoCaptions?.find((caption) => caption.storageId === id)?.caption || "",
+    })),
+    audio: args.audio ? { ...args.audio, url: null } : null,
+  };
+}
+
+type SaveState =
+  | { status: "idle" | "saving" | "error" | "queued" }
+  | { status: "saved"; at: number }
+  | { status: "conflict"; version: number };
 
 interface WriteEntryProps {
   groupId: Id<"groups">;
@@ -17,56 +83,238 @@ export function WriteEntry({ groupId, onBack, onSuccess }: WriteEntryProps) {
   const [isQuickReflection, setIsQuickReflection] = useState(false);
   const [tags, setTags] = useState<string[]>([]);
   const [tagInput, setTagInput] = useState("");
-  const [photos, setPhotos] = useState<Id<"_storage">[]>([]);
-  const [uploading, setUploading] = useState(false);
+  const [photos, setPhotos] = useState<EditablePhoto[]>([]);
+  const [audio, setAudio] = useState<EditableAudio | null>(null);
   const [showAIChat, setShowAIChat] = useState(false);
-  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [draftId, setDraftId] = useState<Id<"drafts"> | null>(null);
+  const [draftName, setDraftName] = useState("");
+  const [openingDraftId, setOpeningDraftId] = useState<Id<"drafts"> | null>(null);
+  const [saveState, setSaveState] = useState<SaveState>({ status: "idle" });
+  // Version of the draft this tab last loaded or saved, sent with each save
+  const versionRef = useRef(0);
+  // Serialized form of the last state written to (or read from) the server
+  const savedSnapshotRef = useRef<string | null>(null);
+  const failedSnapshotRef = useRef<string | null>(null);
+  const isSavingRef = useRef(false);
+  // Identifies this draft in the offline queue: its id once it exists on the server
+  const draftKeyRef = useRef<string>(crypto.randomUUID());
 
-  const draft = useQuery(api.entries.getDraft, { groupId });
+  const openingDraft = useQuery(
+    api.entries.getDraft,
+    openingDraftId ? { draftId: openingDraftId } : "skip"
+  );
   const createEntry = useMutation(api.entries.createEntry);
   const saveDraft = useMutation(api.entries.saveDraft);
-  const generateUploadUrl = useMutation(api.entries.generateUploadUrl);
 
-  // Load draft on component mount
+  const draftFields = toDraftFields({
+    name: draftName,
+    title,
+    content,
+    tags,
+    isQuickReflection,
+    photos,
+    audio,
+  });
+  const snapshot = JSON.stringify(draftFields);
+  const isBlank = !title.trim() && !content.trim() && photos.length === 0 && !audio && tags.length === 0;
+
+  const applyForm = (form: DraftForm) => {
+    setDraftName(form.name);
+    setTitle(form.title);
+    setContent(form.content);
+    setTags(form.tags);
+    setIsQuickReflection(form.isQuickReflection);
+    setPhotos(form.photos);
+    setAudio(form.audio);
+    savedSnapshotRef.current = JSON.stringify(toDraftFields(form));
+  };
+
+  // Pick up where we left off if a draft written offline hasn't synced yet
+  useEffect(() => {
+    let cancelled = false;
+    void listQueue().then((operations) => {
+      const queued = operations
+        .filter((operation) => operation.kind === "saveDraft" && operation.args.groupId === groupId)
+        .pop();
+      if (cancelled || queued?.kind !== "saveDraft") return;
+
+      draftKeyRef.current = queued.draftKey;
+      setDraftId(queued.args.draftId ?? null);
+      versionRef.current = queued.args.expectedVersion ?? 0;
+      applyForm(fromDraftArgs(queued.args));
+      setSaveState({ status: "queued" });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [groupId]);
+
+  // Follow queued saves as they reach the server
+  useEffect(() => {
+    const handleSynced = (event: Event) => {
+      const detail = (event as CustomEvent<DraftSyncedDetail>).detail;
+      if (detail.draftKey !== draftKeyRef.current) return;
+      setDraftId(detail.draftId);
+      versionRef.current = detail.version;
+      setSaveState((state) =>
+        state.status === "queued" ? { status: "saved", at: detail.updatedAt } : state
+      );
+    };
+    window.addEventListener(DRAFT_SYNCED_EVENT, handleSynced);
+    return () => window.removeEventListener(DRAFT_SYNCED_EVENT, handleSynced);
+  }, []);
+
+  // Fill the form from a draft once, when it is opened. Later saves (from this or another
+  // tab) never overwrite what is being typed; conflicts are reported instead.
   useEffect(() => {
-    if (draft) {
-      setTitle(draft.title || "");
-      setContent(draft.content || "");
-      setIsQuickReflection(draft.isQuickReflection || false);
-      setPhotos(draft.photos || []);
+    if (!openingDraftId || openingDraft === undefined) return;
+
+    if (openingDraft === null) {
+      toast.error("This draft no longer exists");
+    } else {
+      draftKeyRef.current = openingDraft._id;
+      setDraftId(openingDraft._id);
+      versionRef.current = openingDraft.version;
+      applyForm({
+        name: openingDraft.name || "",
+        title: openingDraft.title || "",
+        content: openingDraft.content || "",
+        tags: openingDraft.tags || [],
+        isQuickReflection: openingDraft.isQuickReflection || false,
+        photos: openingDraft.photos,
+        audio: openingDraft.audio,
+      });
+      setSaveState({ status: "saved", at: openingDraft.updatedAt ?? openingDraft._creationTime });
     }
-  }, [draft]);
+    setOpeningDraftId(null);
+  }, [openingDraftId, openingDraft]);
 
-  const handleSaveDraft = async () => {
+  const persistDraft = async (expectedVersion = versionRef.current) => {
+    if (isSavingRef.current) return "busy";
+    isSavingRef.current = true;
+    setSaveState({ status: "saving" });
+
+    const savingSnapshot = snapshot;
     try {
-      await saveDraft({
+      // Offline, or with an earlier offline save still waiting, keep saves in order in the queue
+      if (isOffline() || (await getQueuedDraft(draftKeyRef.current))) {
+        await queueDraftSave(draftKeyRef.current, {
+          draftId: draftId ?? undefined,
+          expectedVersion,
+          groupId,
+          ...draftFields,
+        });
+        savedSnapshotRef.current = savingSnapshot;
+        failedSnapshotRef.current = null;
+        setSaveState({ status: "queued" });
+        return "queued";
+      }
+
+      const result = await saveDraft({
+        draftId: draftId ?? undefined,
+        expectedVersion,
         groupId,
-        title: title.trim() || undefined,
-        content,
-        photos: photos.length > 0 ? photos : undefined,
-        isQuickReflection,
+        ...draftFields,
       });
-      toast.success("Draft saved!");
+      if (result.status === "conflict") {
+        setSaveState({ status: "conflict", version: result.version });
+        return "conflict";
+      }
+      setDraftId(result.draftId);
+      versionRef.current = result.version;
+      savedSnapshotRef.current = savingSnapshot;
+      failedSnapshotRef.current = null;
+      setSaveState({ status: "saved", at: result.updatedAt });
+      return "saved";
     } catch (error) {
+      failedSnapshotRef.current = savingSnapshot;
+      setSaveState({ status: "error" });
+      return "error";
+    } finally {
+      isSavingRef.current = false;
+    }
+  };
+
+  // Autosave shortly after the last change
+  useEffect(() => {
+    if (openingDraftId || saveState.status === "conflict" || saveState.status === "saving") return;
+    if (snapshot === savedSnapshotRef.current || snapshot === failedSnapshotRef.current) return;
+    if (!draftId && isBlank) return;
+
+    const timeout = setTimeout(() => void persistDraft(), AUTOSAVE_DELAY);
+    return () => clearTimeout(timeout);
+  }, [snapshot, draftId, isBlank, openingDraftId, saveState.status]);
+
+  const handleSaveDraft = async () => {
+    const result = await persistDraft();
+    if (result === "saved") {
+      toast.success("Draft saved!");
+    } else if (result === "queued") {
+      toast.success("Draft saved on this device. It will sync when you're back online.");
+    } else if (result === "error") {
       toast.error("Failed to save draft");
     }
   };
 
+  const resetForm = () => {
+    draftKeyRef.current = crypto.randomUUID();
+    setDraftId(null);
+    setDraftName("");
+    setTitle("");
+    setContent("");
+    setTags([]);
+    setIsQuickReflection(false);
+    setPhotos([]);
+    setAudio(null);
+    versionRef.current = 0;
+    savedSnapshotRef.current = null;
+    failedSnapshotRef.current = null;
+    setSaveState({ status: "idle" });
+  };
+
+  // Save pending edits before switching to another draft
+  const switchDraft = async (next: Id<"drafts"> | null) => {
+    if (snapshot !== savedSnapshotRef.current && !(isBlank && !draftId)) {
+      const result = await persistDraft();
+      if (result !== "saved" && result !== "queued") return;
+    }
+    if (next) {
+      setOpeningDraftId(next);
+    } else {
+      resetForm();
+    }
+  };
+
   const handleSubmit = async () => {
-    if (!content.trim()) {
-      toast.error("Please write something before submitting");
+    if (!content.trim() && !audio) {
+      toast.error("Please write something or record a voice memo before submitting");
       return;
     }
 
+    const entry = {
+      groupId,
+      title: title.trim() || undefined,
+      content: content.trim(),
+      contentFormat: "markdown" as const,
+      photos: draftFields.photos,
+      photoCaptions: draftFields.photoCaptions,
+      audio: draftFields.audio,
+      isQuickReflection,
+      tags: draftFields.tags,
+      draftId: draftId ?? undefined,
+    };
+
     try {
-      await createEntry({
-        groupId,
-        title: title.trim() || undefined,
-        content: content.trim(),
-        photos: photos.length > 0 ? photos : undefined,
-        isQuickReflection,
-        tags: tags.length > 0 ? tags : undefined,
-      });
+      // Publish later; the entry replaces any queued saves of this draft
+      if (isOffline() || (await getQueuedDraft(draftKeyRef.current))) {
+        await removeQueuedDraft(draftKeyRef.current);
+        await queueEntry(entry);
+        toast.success("You're offline. Your entry will be published when you reconnect.");
+        onSuccess();
+        return;
+      }
+
+      await createEntry(entry);
       onSuccess();
     } catch (error) {
       toast.error("Failed to create entry");
@@ -85,45 +333,6 @@ export function WriteEntry({ groupId, onBack, onSuccess }: WriteEntryProps) {
     setTags(tags.filter(tag => tag !== tagToRemove));
   };
 
-  const handlePhotoUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const files = event.target.files;
-    if (!files || files.length === 0) return;
-
-    setUploading(true);
-    try {
-      const uploadPromises = Array.from(files).map(async (file) => {
-        const uploadUrl = await generateUploadUrl();
-        const result = await fetch(uploadUrl, {
-          method: "POST",
-          headers: { "Content-Type": file.type },
-          body: file,
-        });
-        
-        if (!result.ok) {
-          throw new Error("Upload failed");
-        }
-        
-        const { storageId } = await result.json();
-        return storageId;
-      });
-
-      const newPhotoIds = await Promise.all(uploadPromises);
-      setPhotos([...photos, ...newPhotoIds]);
-      toast.success("Photos uploaded successfully!");
-    } catch (error) {
-      toast.error("Failed to upload photos");
-    } finally {
-      setUploading(false);
-      if (fileInputRef.current) {
-        fileInputRef.current.value = "";
-      }
-    }
-  };
-
-  const handleRemovePhoto = (photoId: Id<"_storage">) => {
-    setPhotos(photos.filter(id => id !== photoId));
-  };
-
   if (showAIChat) {
     return (
       <AIChat
@@ -156,15 +365,63 @@ export function WriteEntry({ groupId, onBack, onSuccess }: WriteEntryProps) {
           >
             🤖 AI Help
           </button>
+          <DraftPicker
+            groupId={groupId}
+            currentDraftId={draftId}
+            onOpen={(id) => void switchDraft(id)}
+            onNew={() => void switchDraft(null)}
+            onDeleted={(id) => id === draftId && resetForm()}
+          />
           <button
             onClick={handleSaveDraft}
-            className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors"
+            disabled={saveState.status === "saving" || saveState.status === "conflict"}
+            className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors disabled:opacity-50"
           >
             Save Draft
           </button>
         </div>
       </div>
 
+      {/* Draft Status */}
+      <div className="flex items-center justify-between gap-4 text-sm">
+        <input
+          type="text"
+          value={draftName}
+          onChange={(e) => setDraftName(e.target.value)}
+          placeholder="Untitled draft"
+          className="px-3 py-1 bg-transparent border border-transparent rounded-lg text-gray-600 hover:border-gray-200 focus:border-orange-300 outline-none"
+        />
+        <span className="text-gray-500">
+          {saveState.status === "saving" && "Saving..."}
+          {saveState.status === "saved" &&
+            `Saved ${new Date(saveState.at).toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit" })}`}
+          {saveState.status === "queued" && "Saved on this device"}
+          {saveState.status === "error" && <span className="text-red-500">Couldn't save draft</span>}
+        </span>
+      </div>
+
+      {saveState.status === "conflict" && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 flex flex-wrap items-center justify-between gap-3">
+          <p className="text-sm text-yellow-800">
+            This draft was changed in another tab or device. Autosave is paused.
+          </p>
+          <div className="flex gap-2">
+            <button
+              onClick={() => draftId && setOpeningDraftId(draftId)}
+              className="px-3 py-1 text-sm bg-white border border-yellow-300 text-yellow-800 rounded-lg hover:bg-yellow-100 transition-colors"
+            >
+              Load latest version
+            </button>
+            <button
+              onClick={() => void persistDraft(saveState.version)}
+              className="px-3 py-1 text-sm bg-yellow-600 text-white rounded-lg hover:bg-yellow-700 transition-colors"
+            >
+              Keep my changes
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Writing Form */}
       <div className="bg-white/70 backdrop-blur-sm rounded-2xl p-6 border border-orange-200 shadow-sm">
         {/* Quick Reflection Toggle */}
@@ -202,56 +459,28 @@ export function WriteEntry({ groupId, onBack, onSuccess }: WriteEntryProps) {
           <label className="block text-sm font-medium text-gray-700 mb-2">
             Your thoughts *
           </label>
-          <textarea
+          <MarkdownEditor
             value={content}
-            onChange={(e) => setContent(e.target.value)}
+            onChange={setContent}
             placeholder="Share your day, thoughts, or experiences..."
             rows={isQuickReflection ? 4 : 8}
-            className="w-full px-4 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-orange-400 focus:border-transparent outline-none resize-none"
           />
         </div>
 
+        {/* Voice Memo */}
+        <div className="mb-6">
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Voice memo (optional)
+          </label>
+          <VoiceRecorder groupId={groupId} audio={audio} onChange={setAudio} />
+        </div>
+
         {/* Photo Upload */}
         <div className="mb-6">
           <label className="block text-sm font-medium text-gray-700 mb-2">
             Photos (optional)
           </label>
-          <div className="flex items-center gap-3">
-            <button
-              onClick={() => fileInputRef.current?.click()}
-              disabled={uploading}
-              className="px-4 py-2 bg-orange-100 text-orange-600 rounded-lg hover:bg-orange-200 transition-colors disabled:opacity-50"
-            >
-              {uploading ? "Uploading..." : "Add Photos"}
-            </button>
-            <input
-              ref={fileInputRef}
-              type="file"
-              accept="image/*"
-              multiple
-              onChange={handlePhotoUpload}
-              className="hidden"
-            />
-          </div>
-          
-          {/* Photo Preview */}
-          {photos.length > 0 && (
-            <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mt-4">
-              {photos.map((photoId) => (
-                <div key={photoId} className="relative">
-                  <div className="w-full h-24 bg-gray-200 rounded-lg flex items-center justify-center">
-                    <span className="text-gray-500">📷</span>
-                  </div>
-                  <button
-                    onClick={() => handleRemovePhoto(photoId)}
-                    className="absolute -top-2 -right-2 w-6 h-6 bg-red-500 text-white rounded-full text-xs hover:bg-red-600 transition-colors"
-                  >
-                    ×
-                  </button>
-                </div>
-              ))}
-            </div>
-          )}
+          <PhotoEditor groupId={groupId} photos={photos} onChange={setPhotos} />
         </div>
 
         {/* Tags */}
@@ -301,7 +530,7 @@ export function WriteEntry({ groupId, onBack, onSuccess }: WriteEntryProps) {
         <div className="flex justify-end">
           <button
             onClick={handleSubmit}
-            disabled={!content.trim()}
+            disabled={!content.trim() && !audio}
             className="px-6 py-3 bg-gradient-to-r from-orange-400 to-pink-400 text-white rounded-lg hover:from-orange-500 hover:to-pink-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
           >
             Publish Entry
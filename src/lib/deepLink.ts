@@ -0,0 +1,46 @@
+const STORAGE_KEY = "dayshare:pendingLink";
+
+// A group, and optionally an entry in it, to open when the app starts. Notification
+// links look like `/?group=<id>&entry=<id>` (built by notificationPath in convex).
+export interface DeepLink {
+  groupId: string;
+  entryId?: string;
+}
+
+function parseLink(href: string): DeepLink | null {
+  const url = new URL(href, window.location.origin);
+  const groupId = url.searchParams.get("group");
+  if (!groupId) return null;
+  return { groupId, entryId: url.searchParams.get("entry") ?? undefined };
+}
+
+// Move a notification link from the URL into session storage so it survives signing in
+export function captureDeepLinkFromUrl() {
+  const link = parseLink(window.location.href);
+  if (!link) return;
+
+  sessionStorage.setItem(STORAGE_KEY, JSON.stringify(link));
+  const url = new URL(window.location.href);
+  url.searchParams.delete("group");
+  url.searchParams.delete("entry");
+  window.history.replaceState(null, "", url.toString());
+}
+
+export function takePendingDeepLink(): DeepLink | null {
+  const stored = sessionStorage.getItem(STORAGE_KEY);
+  sessionStorage.removeItem(STORAGE_KEY);
+  return stored ? (JSON.parse(stored) as DeepLink) : null;
+}
+
+// Links from push notifications clicked while the app is already open
+export function onDeepLinkMessage(callback: (link: DeepLink) => void) {
+  if (!("serviceWorker" in navigator)) return () => {};
+
+  const handleMessage = (event: MessageEvent<{ type?: string; url?: string }>) => {
+    if (event.data?.type !== "open-link" || !event.data.url) return;
+    const link = parseLink(event.data.url);
+    if (link) callback(link);
+  };
+  navigator.serviceWorker.addEventListener("message", handleMessage);
+  return () => navigator.serviceWorker.removeEventListener("message", handleMessage);
+}
@@ -0,0 +1,36 @@
+// Client-side photo preparation before upload. Re-encoding through a canvas scales
+// large photos down and drops EXIF metadata such as GPS location.
+
+const MAX_DIMENSION = 2048;
+const JPEG_QUALITY = 0.85;
+export const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+
+export async function prepareImage(file: Blob, maxDimension = MAX_DIMENSION): Promise<Blob> {
+  if (!file.type.startsWith("image/")) {
+    throw new Error("Only images can be uploaded");
+  }
+
+  // Re-encoding would drop the animation, so GIFs are uploaded as they are
+  if (file.type === "image/gif") return checkSize(file);
+
+  const bitmap = await createImageBitmap(file, { imageOrientation: "from-image" });
+  const scale = Math.min(1, maxDimension / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  canvas.getContext("2d")!.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  // PNGs keep their transparency; everything else becomes JPEG
+  const type = file.type === "image/png" ? "image/png" : "image/jpeg";
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, type, JPEG_QUALITY));
+  if (!blob) throw new Error("Could not process image");
+  return checkSize(blob);
+}
+
+function checkSize(blob: Blob) {
+  if (blob.size > MAX_UPLOAD_BYTES) {
+    throw new Error("Photos must be smaller than 10 MB");
+  }
+  return blob;
+}
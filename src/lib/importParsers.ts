@@ -0,0 +1,136 @@
+export interface ImportedPhoto {
+  contentType: string;
+  data: string; // base64
+  caption?: string;
+}
+
+export interface ImportedEntry {
+  authorKey: string; // name or email from the source, mapped to a member before importing
+  title?: string;
+  content: string;
+  contentFormat: "plain" | "markdown";
+  entryDate: number;
+  tags: string[];
+  isQuickReflection?: boolean;
+  photos: ImportedPhoto[];
+}
+
+// Parse a file into entries, picking the format from its name and contents
+export function parseImportFile(fileName: string, text: string): ImportedEntry[] {
+  if (fileName.toLowerCase().endsWith(".json")) {
+    return parseJsonArchive(JSON.parse(text));
+  }
+  return parseMarkdown(text);
+}
+
+// Accepts DayShare archives ({ format: "dayshare-archive", entries }) or a plain array of
+// entry-like objects such as those exported by other diary apps.
+export function parseJsonArchive(json: unknown): ImportedEntry[] {
+  const items: unknown[] = Array.isArray(json)
+    ? json
+    : isObject(json) && Array.isArray(json.entries)
+      ? json.entries
+      : [];
+
+  return items.flatMap((item): ImportedEntry[] => {
+    if (!isObject(item) || item.isSkipped) return [];
+
+    const content = pickString(item, ["content", "text", "body", "entry"]);
+    const entryDate = parseDate(item.entryDate ?? item.date ?? item.createdAt ?? item.created_at);
+    if (!content || entryDate === null) return [];
+
+    const author = isObject(item.author)
+      ? pickString(item.author, ["email", "name"])
+      : pickString(item, ["author", "authorName", "authorEmail"]);
+
+    return [{
+      authorKey: author || "Unknown",
+      title: pickString(item, ["title", "subject"]) || undefined,
+      content,
+      contentFormat: item.contentFormat === "markdown" ? "markdown" : "plain",
+      entryDate,
+      tags: Array.isArray(item.tags) ? item.tags.filter((tag): tag is string => typeof tag === "string") : [],
+      isQuickReflection: item.isQuickReflection === true || undefined,
+      photos: Array.isArray(item.photos)
+        ? item.photos
+            .filter(
+              (photo): photo is ImportedPhoto =>
+                isObject(photo) && typeof photo.contentType === "string" && typeof photo.data === "string"
+            )
+            .map(({ contentType, data, caption }) => ({
+              contentType,
+              data,
+              caption: typeof caption === "string" ? caption.slice(0, 300) : undefined,
+            }))
+        : [],
+    }];
+  });
+}
+
+// Markdown diaries: one "## YYYY-MM-DD Optional title" heading per entry, an optional
+// "Author: name" line, and an optional trailing line of #tags.
+export function parseMarkdown(text: string): ImportedEntry[] {
+  const entries: ImportedEntry[] = [];
+  const sections = text.split(/^##\s+/m).slice(1);
+
+  for (const section of sections) {
+    const [heading, ...lines] = section.split("\n");
+    const match = heading.trim().match(/^(\d{4}[-/.]\d{1,2}[-/.]\d{1,2})\s*[-–:]?\s*(.*)$/);
+    if (!match) continue;
+
+    const entryDate = parseDate(match[1].replace(/[/.]/g, "-"));
+    if (entryDate === null) continue;
+
+    let authorKey = "Unknown";
+    const authorIndex = lines.findIndex((line) => /^\s*\*?(author|by)\s*:/i.test(line));
+    if (authorIndex !== -1) {
+      authorKey = lines[authorIndex].replace(/^\s*\*?(author|by)\s*:\s*/i, "").replace(/\*+\s*$/, "").trim();
+      lines.splice(authorIndex, 1);
+    }
+
+    let tags: string[] = [];
+    const lastLine = [...lines].reverse().find((line) => line.trim());
+    if (lastLine && lastLine.trim().split(/\s+/).every((word) => /^#\S+$/.test(word))) {
+      tags = lastLine.trim().split(/\s+/).map((word) => word.slice(1));
+      lines.splice(lines.lastIndexOf(lastLine), 1);
+    }
+
+    const content = lines.join("\n").trim();
+    if (!content) continue;
+
+    entries.push({
+      authorKey,
+      title: match[2].trim() || undefined,
+      content,
+      contentFormat: "markdown",
+      entryDate,
+      tags,
+      photos: [],
+    });
+  }
+
+  return entries;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+function pickString(item: Record<string, unknown>, keys: string[]) {
+  for (const key of keys) {
+    const value = item[key];
+    if (typeof value === "string" && value.trim()) return value.trim();
+  }
+  return "";
+}
+
+function parseDate(value: unknown): number | null {
+  if (typeof value === "number") return value;
+  if (typeof value !== "string") return null;
+
+  // Date-only strings are read as local noon so they land on the intended day
+  const date = /^\d{4}-\d{1,2}-\d{1,2}$/.test(value)
+    ? new Date(`${value.split("-").map((part, i) => (i === 0 ? part : part.padStart(2, "0"))).join("-")}T12:00:00`)
+    : new Date(value);
+  return isNaN(date.getTime()) ? null : date.getTime();
+}
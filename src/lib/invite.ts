@@ -0,0 +1,25 @@
+const STORAGE_KEY = "dayshare:pendingInvite";
+
+// Move an `?invite=` code from the URL into session storage so it survives signing in
+export function captureInviteCodeFromUrl() {
+  const url = new URL(window.location.href);
+  const code = url.searchParams.get("invite");
+  if (!code) return;
+
+  sessionStorage.setItem(STORAGE_KEY, code);
+  url.searchParams.delete("invite");
+  window.history.replaceState(null, "", url.toString());
+}
+
+export function takePendingInviteCode() {
+  const code = sessionStorage.getItem(STORAGE_KEY);
+  sessionStorage.removeItem(STORAGE_KEY);
+  return code;
+}
+
+// Link that opens the app and joins the group directly
+export function buildInviteLink(inviteCode: string) {
+  const url = new URL(window.location.origin);
+  url.searchParams.set("invite", inviteCode);
+  return url.toString();
+}
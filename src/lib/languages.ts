@@ -0,0 +1,18 @@
+// Languages offered for the profile, by BCP 47 tag with their own name
+export const LANGUAGES = [
+  { code: "en", name: "English" },
+  { code: "ja", name: "日本語" },
+  { code: "ko", name: "한국어" },
+  { code: "zh", name: "中文" },
+  { code: "es", name: "Español" },
+  { code: "fr", name: "Français" },
+  { code: "de", name: "Deutsch" },
+  { code: "it", name: "Italiano" },
+  { code: "pt", name: "Português" },
+];
+
+// The browser's language when it is one of ours, for prefilling onboarding
+export function deviceLanguage() {
+  const code = navigator.language.split("-")[0];
+  return LANGUAGES.some((language) => language.code === code) ? code : "en";
+}
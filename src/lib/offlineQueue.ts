@@ -0,0 +1,122 @@
+// Local outbox for writing without a connection. Drafts and entries written offline are
+// kept in IndexedDB and replayed by <OfflineSync /> once the app is connected again.
+import { FunctionArgs } from "convex/server";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+
+export type SaveDraftArgs = FunctionArgs<typeof api.entries.saveDraft>;
+export type CreateEntryArgs = FunctionArgs<typeof api.entries.createEntry>;
+
+export type QueuedOperation =
+  | {
+      id: string;
+      kind: "saveDraft";
+      // Identifies the draft being edited; only the newest save per draft is kept
+      draftKey: string;
+      args: SaveDraftArgs;
+      queuedAt: number;
+    }
+  | {
+      id: string;
+      kind: "createEntry";
+      args: CreateEntryArgs;
+      queuedAt: number;
+    };
+
+const DB_NAME = "dayshare-offline";
+const STORE = "queue";
+
+// Fired on window whenever the queue changes so UI can refresh its counts
+export const QUEUE_CHANGED_EVENT = "dayshare:queue-changed";
+// Fired when a queued draft save reaches the server: detail is a DraftSyncedDetail
+export const DRAFT_SYNCED_EVENT = "dayshare:draft-synced";
+
+export function isOffline() {
+  return !navigator.onLine;
+}
+
+export interface DraftSyncedDetail {
+  draftKey: string;
+  draftId: Id<"drafts">;
+  version: number;
+  updatedAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb() {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE, { keyPath: "id" });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error("Couldn't open offline storage"));
+  });
+  return dbPromise;
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(STORE, mode);
+    const request = run(transaction.objectStore(STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error ?? new Error("Offline storage error"));
+  });
+}
+
+function notifyChanged() {
+  window.dispatchEvent(new Event(QUEUE_CHANGED_EVENT));
+}
+
+export async function listQueue() {
+  const operations = await withStore<QueuedOperation[]>("readonly", (store) => store.getAll());
+  return operations.sort((a, b) => a.queuedAt - b.queuedAt);
+}
+
+export async function queueDraftSave(draftKey: string, args: SaveDraftArgs) {
+  await withStore("readwrite", (store) =>
+    store.put({ id: `draft:${draftKey}`, kind: "saveDraft", draftKey, args, queuedAt: Date.now() })
+  );
+  notifyChanged();
+}
+
+export async function getQueuedDraft(draftKey: string) {
+  const operation = await withStore<QueuedOperation | undefined>("readonly", (store) =>
+    store.get(`draft:${draftKey}`)
+  );
+  return operation?.kind === "saveDraft" ? operation : null;
+}
+
+export async function queueEntry(args: CreateEntryArgs) {
+  await withStore("readwrite", (store) =>
+    store.put({ id: `entry:${crypto.randomUUID()}`, kind: "createEntry", args, queuedAt: Date.now() })
+  );
+  notifyChanged();
+}
+
+// Remove an operation once it has been handled. A draft that was saved again while its
+// previous save was in flight is kept, pointed at the draft the server just created.
+export async function completeOperation(
+  operation: QueuedOperation,
+  savedDraft?: { draftId: Id<"drafts">; version: number }
+) {
+  const current = await withStore<QueuedOperation | undefined>("readonly", (store) => store.get(operation.id));
+  if (current && current.queuedAt !== operation.queuedAt && current.kind === "saveDraft" && savedDraft) {
+    await withStore("readwrite", (store) =>
+      store.put({
+        ...current,
+        args: { ...current.args, draftId: savedDraft.draftId, expectedVersion: savedDraft.version },
+      })
+    );
+  } else if (!current || current.queuedAt === operation.queuedAt) {
+    await withStore("readwrite", (store) => store.delete(operation.id));
+  }
+  notifyChanged();
+}
+
+export async function removeQueuedDraft(draftKey: string) {
+  await withStore("readwrite", (store) => store.delete(`draft:${draftKey}`));
+  notifyChanged();
+}
@@ -0,0 +1,46 @@
+// Browser side of Web Push: subscriptions live on the service worker registration
+
+export function isPushSupported() {
+  return "serviceWorker" in navigator && "PushManager" in window && "Notification" in window;
+}
+
+function base64UrlToBytes(value: string) {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64 + "=".repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+export async function getPushSubscription() {
+  const registration = await navigator.serviceWorker.ready;
+  return registration.pushManager.getSubscription();
+}
+
+// Ask for permission if needed and subscribe with the server's VAPID public key.
+// Returns null when the user declines.
+export async function createPushSubscription(publicKey: string) {
+  const permission = await Notification.requestPermission();
+  if (permission !== "granted") return null;
+
+  const registration = await navigator.serviceWorker.ready;
+  const existing = await registration.pushManager.getSubscription();
+  if (existing) return existing;
+
+  return registration.pushManager.subscribe({
+    userVisibleOnly: true,
+    applicationServerKey: base64UrlToBytes(publicKey),
+  });
+}
+
+// The fields `push.subscribe` expects
+export function toSubscriptionArgs(subscription: PushSubscription) {
+  const { keys } = subscription.toJSON();
+  if (!keys?.p256dh || !keys.auth) {
+    throw new Error("Push subscription is missing its keys");
+  }
+  return {
+    endpoint: subscription.endpoint,
+    p256dh: keys.p256dh,
+    auth: keys.auth,
+    userAgent: navigator.userAgent,
+  };
+}
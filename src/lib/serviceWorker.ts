@@ -0,0 +1,12 @@
+// The service worker caches the app shell so the app opens without a connection, and
+// shows push notifications. The cache only covers built assets, so registering it in
+// development is harmless and lets push be tested locally.
+export function registerServiceWorker() {
+  if (!("serviceWorker" in navigator)) return;
+
+  window.addEventListener("load", () => {
+    navigator.serviceWorker.register("/sw.js").catch((error) => {
+      console.error("Service worker registration failed:", error);
+    });
+  });
+}
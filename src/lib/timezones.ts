@@ -0,0 +1,45 @@
+// Timezones offered in settings; the device's own zone is always added to the list
+const COMMON_TIMEZONES = [
+  "UTC",
+  "America/Los_Angeles",
+  "America/Denver",
+  "America/Chicago",
+  "America/New_York",
+  "America/Sao_Paulo",
+  "Europe/London",
+  "Europe/Paris",
+  "Europe/Berlin",
+  "Europe/Helsinki",
+  "Africa/Johannesburg",
+  "Asia/Dubai",
+  "Asia/Kolkata",
+  "Asia/Bangkok",
+  "Asia/Shanghai",
+  "Asia/Seoul",
+  "Asia/Tokyo",
+  "Australia/Sydney",
+  "Pacific/Auckland",
+];
+
+export function deviceTimezone() {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+}
+
+export function timezoneOptions(...extra: (string | null | undefined)[]) {
+  const zones = new Set(COMMON_TIMEZONES);
+  for (const zone of [deviceTimezone(), ...extra]) {
+    if (zone) zones.add(zone);
+  }
+  return [...zones].sort();
+}
+
+// "22:30" <-> minutes after midnight, as stored for quiet hours
+export function minutesToTime(minutes: number) {
+  const hours = Math.floor(minutes / 60);
+  return `${String(hours).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+}
+
+export function timeToMinutes(time: string) {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
@@ -4,3 +4,19 @@ import { twMerge } from "tailwind-merge";
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
+
+// Format a length in seconds as m:ss
+export function formatDuration(seconds: number) {
+  const rounded = Math.round(seconds);
+  return `${Math.floor(rounded / 60)}:${String(rounded % 60).padStart(2, "0")}`;
+}
+
+// Fetch a file and save it under a readable name instead of the storage URL's
+export async function downloadFile(url: string, fileName: string) {
+  const file = await fetch(url).then((response) => response.blob());
+  const link = document.createElement("a");
+  link.href = URL.createObjectURL(file);
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(link.href);
+}
@@ -3,6 +3,13 @@ import { ConvexAuthProvider } from "@convex-dev/auth/react";
 import { ConvexReactClient } from "convex/react";
 import "./index.css";
 import App from "./App";
+import { captureInviteCodeFromUrl } from "./lib/invite";
+import { captureDeepLinkFromUrl } from "./lib/deepLink";
+import { registerServiceWorker } from "./lib/serviceWorker";
+
+captureInviteCodeFromUrl();
+captureDeepLinkFromUrl();
+registerServiceWorker();
 
 const convex = new ConvexReactClient(import.meta.env.VITE_CONVEX_URL as string);
 